@@ -1,210 +1,259 @@
 import path from "path";
 import { promises as fs } from "fs";
-import { fileURLToPath } from "url";
+import { z } from "zod";
+import { createClient, CscartApiError } from "./client.js";
+import { createCache, createFileBackend, createMemoryBackend, createSqliteBackend } from "./cache.js";
+import type { Cache, CacheChangeListener, CacheResourceStatus } from "./cache.js";
+import type { CscartClient } from "./client.js";
+import { getDefaultStoreName, getStoreConfig, getStores } from "./stores.js";
+import type { StoreConfig } from "./stores.js";
+import { logger } from "./logger.js";
+import { VARIANT_FEATURE_TYPES, getSelectedVariantIds } from "./features.js";
+import { buildOrderInfo, formatOrderMessage } from "./messages.js";
+import type { OrderInfo, OrderMessageFormat } from "./messages.js";
+import {
+  CategorySchema,
+  FeatureSchema,
+  ProductFeatureValueSchema,
+  ProductSchema,
+  OrderSchema,
+  OrderStatusSchema,
+  ShipmentSchema,
+  ProductCombinationSchema,
+  ProductOptionSchema,
+  UserSchema,
+  parseApiData,
+} from "./schemas.js";
+import type {
+  Category,
+  CategoryTreeNode,
+  ProductCategory,
+  Feature,
+  FeatureVariant,
+  Product,
+  ProductFeatureValue,
+  ProductWithFeatures,
+  Order,
+  OrderStatus,
+  Shipment,
+  ProductCombination,
+  ProductOption,
+  User,
+} from "./schemas.js";
 
-function getEnvVariable(varName: string): string {
-  const value = process.env[varName];
-  if (!value) {
-    console.error(`Environment variable ${varName} is not set`);
-    process.exit(1);
-  }
-  return value;
-}
-
-const SHOP_URL: string = getEnvVariable("CSCART_SHOP_URL");
-const EMAIL: string = getEnvVariable("CSCART_EMAIL");
-const API_KEY: string = getEnvVariable("CSCART_API_KEY");
 const CACHE_TIME: number = Number(process.env["CSCART_CACHE_TIME"] ?? 3600);
-const ADMIN_URL: string = getEnvVariable("CSCART_ADMIN_URL");
-const PRODUCT_LINK_TEMPLATE: string = getEnvVariable("CSCART_PRODUCT_LINK_TEMPLATE");
-const TELEGRAM_FIELD: string = getEnvVariable("CSCART_TELEGRAM_FIELD");
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-
-// Load features cache at startup
-const FEATURES_CACHE_FILE = path.resolve(__dirname, "data/features.json");
-let featuresCache: any[] | null = null;
-let featuresCacheTimestamp: number | null = null;
-loadFeaturesCache();
-
-// Call loadProductsCache at startup
-const PRODUCTS_CACHE_FILE = path.resolve(__dirname, "data/products.json");
-let productsCache: any[] | null = null;
-let productsCacheTimestamp: number | null = null;
-loadProductsCache();
+const REQUEST_TIMEOUT: number = Number(process.env["CSCART_REQUEST_TIMEOUT"] ?? 30000);
+const REQUEST_RETRIES: number = Number(process.env["CSCART_REQUEST_RETRIES"] ?? 3);
+const REQUEST_CONCURRENCY: number = Number(process.env["CSCART_REQUEST_CONCURRENCY"] ?? 5);
+const CACHE_BACKEND: string = process.env["CSCART_CACHE_BACKEND"] ?? "file";
+const CACHE_STALE_TIME: number = Number(process.env["CSCART_CACHE_STALE_TIME"] ?? 86400);
+
+interface StoreRuntime {
+  config: StoreConfig;
+  client: CscartClient;
+  cachePromise: Promise<Cache> | null;
+  orderTemplatePromise: Promise<{ text: string; escape?: "html" } | undefined> | null;
+  /** Queue of products cache updates, every update reads the list left by the previous one */
+  productsUpdate: Promise<void>;
+}
 
+const storeRuntimes: Map<string, StoreRuntime> = new Map();
 
-async function loadFeaturesCache() {
-  try {
-    const data = await fs.readFile(FEATURES_CACHE_FILE, "utf-8");
-    const parsed = JSON.parse(data);
-    featuresCache = parsed.featuresCache;
-    featuresCacheTimestamp = parsed.featuresCacheTimestamp;
-  } catch (err) {
-    featuresCache = null;
-    featuresCacheTimestamp = null;
+/**
+ * Client, cache and config of the store selected with runWithStore, created on first use.
+ */
+function currentStore(): StoreRuntime {
+  const config = getStoreConfig();
+  let runtime = storeRuntimes.get(config.name);
+  if (!runtime) {
+    runtime = {
+      config,
+      client: createClient({
+        shopUrl: config.shopUrl,
+        email: config.email,
+        apiKey: config.apiKey,
+        timeout: REQUEST_TIMEOUT,
+        retries: REQUEST_RETRIES,
+        concurrency: REQUEST_CONCURRENCY,
+        companyId: config.companyId,
+      }),
+      cachePromise: null,
+      orderTemplatePromise: null,
+      productsUpdate: Promise.resolve(),
+    };
+    storeRuntimes.set(config.name, runtime);
   }
+  return runtime;
 }
 
-async function saveFeaturesCache() {
-  try {
-    await fs.mkdir(path.dirname(FEATURES_CACHE_FILE), { recursive: true });
-    await fs.writeFile(
-      FEATURES_CACHE_FILE,
-      JSON.stringify({ featuresCache, featuresCacheTimestamp }, null, 2),
-      "utf-8"
-    );
-  } catch (err) {
-    console.error("Failed to save features cache:", err);
-  }
+// Requests go to the store of the current call
+const client: CscartClient = {
+  request: (path, options) => currentStore().client.request(path, options),
+  get: (path, query) => currentStore().client.get(path, query),
+  post: (path, body) => currentStore().client.post(path, body),
+  put: (path, body) => currentStore().client.put(path, body),
+};
+
+const CACHE_RESOURCES = ["features", "feature_variants", "categories", "products", "order_statuses", "currencies", "orders"] as const;
+type CacheResource = typeof CACHE_RESOURCES[number];
+
+// Full orders are checked by status and update time, they rarely need to expire
+const DEFAULT_CACHE_TTL: Partial<Record<CacheResource, number>> = {
+  orders: 30 * 86400,
+};
+
+// TTL of the resource from CSCART_CACHE_TTL_<RESOURCE>, e.g. CSCART_CACHE_TTL_PRODUCTS
+function getCacheTtl(): Record<string, number> {
+  return Object.fromEntries(CACHE_RESOURCES.map(resource => {
+    const value = process.env[`CSCART_CACHE_TTL_${resource.toUpperCase()}`];
+    return [resource, value !== undefined ? Number(value) : DEFAULT_CACHE_TTL[resource] ?? CACHE_TIME];
+  }));
 }
 
-const featureVariantsCache: Map<string, any> = new Map();
-const FEATURE_VARIANTS_DIR = path.resolve(__dirname, "data/feature");
+/**
+ * Cache of the current store selected by CSCART_CACHE_BACKEND: file (default), memory or sqlite.
+ */
+function getCache(): Promise<Cache> {
+  const store = currentStore();
+  if (!store.cachePromise) {
+    store.cachePromise = (async () => {
+      const dir = store.config.cacheDir;
+      const backend = CACHE_BACKEND === "memory" ? createMemoryBackend()
+        : CACHE_BACKEND === "sqlite" ? await createSqliteBackend(path.join(dir, "cache.sqlite"))
+        : createFileBackend(dir);
+      return createCache({ backend, defaultTtl: CACHE_TIME, ttl: getCacheTtl(), staleTime: CACHE_STALE_TIME });
+    })();
+  }
+  return store.cachePromise;
+}
 
 /**
- * For each feature, request GET /features/:id (with persistent caching), attach variants field if present.
+ * For each feature, request GET /features/:id (cached in feature_variants), attach variants field if present.
  * @param features Array of features
  * @returns Array of features with variants field (if present)
  */
-async function getFeaturesWithVariants(features: any[]): Promise<any[]> {
-  const token = Buffer.from(`${EMAIL}:${API_KEY}`).toString("base64");
-  const baseUrl = `${SHOP_URL}/api/2.0`;
+async function getFeaturesWithVariants(features: Feature[]): Promise<Feature[]> {
   // Map over features, enriching with variants if available
   const enriched = await Promise.all(features.map(async (feature) => {
-    const id = feature.feature_id;
-    feature.variants = ['empty'];
-    if (!id) return feature;
-    // Try in-memory cache first
-    if (featureVariantsCache.has(id)) {
-      return { ...feature, variants: featureVariantsCache.get(id)?.variants };
-    }
-    // Try persistent cache
-    const cacheFile = path.join(FEATURE_VARIANTS_DIR, `${id}.json`);
-    try {
-      // Try to read from file
-      const dataStr = await fs.readFile(cacheFile, "utf-8");
-      const featureObj = JSON.parse(dataStr);
-      featureVariantsCache.set(id, featureObj.variants);
-      return { ...feature, variants: featureObj.variants };
-    } catch (err) {
-      // File does not exist or read error, continue to fetch
-    }
-    // Fetch from API
-    try {
-      const endpoint = `${baseUrl}/features/${id}`;
-      const response = await fetch(endpoint, {
-        headers: {
-          Authorization: `Basic ${token}`,
-          Accept: "application/json",
-        },
-      });
-      if (!response.ok) {
-        // Could not fetch, just return as is
-        return { ...feature, variants: ['error'] };
-      }
-      const data = await response.json() as { variants: any[] };
-      // Cache the variants field (always as array)
-      const variantsArr = Array.isArray(data?.variants) ? data.variants : [];
-      const variantsObj = { variants: variantsArr };
-      featureVariantsCache.set(id, variantsObj);
-      // Write to persistent cache
-      try {
-        await fs.mkdir(FEATURE_VARIANTS_DIR, { recursive: true });
-        await fs.writeFile(cacheFile, JSON.stringify(data, null, 2), "utf-8");
-      } catch (err) {
-        // Ignore write errors
-      }
-      return { ...feature, variants: variantsObj };
-    } catch (err) {
-      // On error, just return feature with empty variants
-      return { ...feature, variants: ['error'] };
-    }
+    const id = feature.feature_id ? `${feature.feature_id}` : "";
+    if (!id) return { ...feature, variants: {} };
+    const cache = await getCache();
+    const variants = await cache.getOrLoad("feature_variants", id, async () => {
+      // Requests are limited by the client concurrency, CS-Cart returns variants keyed by variant_id
+      const data = await client.get(`/features/${id}`);
+      return parseApiData(FeatureSchema, data, `feature ${id}`).variants ?? {};
+    });
+    return { ...feature, variants };
   }));
   return enriched;
 }
 
-async function getFeatures(): Promise<any[]> {
-  const now = Math.floor(Date.now() / 1000);
-  let allFeatures: any[] = [];
-  if (featuresCache && featuresCacheTimestamp && now - featuresCacheTimestamp < CACHE_TIME) {
-    allFeatures = featuresCache;
-  }
-  else {
-    const token = Buffer.from(`${EMAIL}:${API_KEY}`).toString("base64");
-    const baseUrl = `${SHOP_URL}/api/2.0`;
+async function getFeatures(): Promise<Feature[]> {
+  const cache = await getCache();
+  // Variants are cached by feature with own TTL and invalidated after product saves
+  const allFeatures = await cache.getOrLoad("features", "all", async () => {
+    const features: Feature[] = [];
     let page = 1;
     const perPage = 250;
     while (true) {
-      const endpoint = `${baseUrl}/features?items_per_page=${perPage}&page=${page}`;
-      const response = await fetch(endpoint, {
-        headers: {
-          Authorization: `Basic ${token}`,
-          Accept: "application/json",
-        },
-      });
-      if (!response.ok) {
-        throw new Error(`Failed to fetch features page ${page}: ${response.status} ${response.statusText}`);
-      }
-      const data = await response.json() as { features: any[] };
-      const featuresOnPage = data.features || [];
+      const data = await client.get<{ features?: unknown }>("/features", { items_per_page: perPage, page });
+      const featuresOnPage = parseApiData(z.array(FeatureSchema), Object.values(data.features || {}), `features page ${page}`);
       if (featuresOnPage.length === 0) break;
-      allFeatures.push(...featuresOnPage);
+      features.push(...featuresOnPage.map(({ variants, ...feature }) => feature));
       if (featuresOnPage.length < perPage) break;
       page++;
     }
+    return features;
+  });
+  return getFeaturesWithVariants(allFeatures);
+}
+
+/**
+ * Fetch raw feature values of the product, GET /products/:id/features.
+ */
+async function getProductFeatureValues(productId: number): Promise<ProductFeatureValue[]> {
+  const data = await client.get<{ features?: unknown }>(`/products/${productId}/features`, { items_per_page: 250 });
+  return parseApiData(z.array(ProductFeatureValueSchema), Object.values(data.features || {}), `product ${productId} features`);
+}
+
+/**
+ * Fetch all categories as a flat list, cached like features.
+ * @returns Categories sorted by position within parent
+ */
+async function getCategories(): Promise<Category[]> {
+  const cache = await getCache();
+  return cache.getOrLoad("categories", "all", async () => {
+    const allCategories: Category[] = [];
+    const perPage = 250;
+    let page = 1;
+    while (true) {
+      const data = await client.get<{ categories?: unknown }>("/categories", { items_per_page: perPage, page });
+      const categoriesOnPage = parseApiData(z.array(CategorySchema), Object.values(data.categories || {}), `categories page ${page}`);
+      if (categoriesOnPage.length === 0) break;
+      allCategories.push(...categoriesOnPage);
+      if (categoriesOnPage.length < perPage) break;
+      page++;
+    }
+    allCategories.sort((a, b) => a.parent_id - b.parent_id || (a.position ?? 0) - (b.position ?? 0));
+    return allCategories;
+  });
+}
+
+/**
+ * Build categories tree from the flat list. Categories with unknown parent become roots.
+ */
+function getCategoriesTree(categories: Category[]): CategoryTreeNode[] {
+  const nodes = new Map<number, CategoryTreeNode>();
+  categories.forEach(category => nodes.set(category.category_id, { ...category, children: [] }));
+  const roots: CategoryTreeNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parent_id ? nodes.get(node.parent_id) : undefined;
+    if (parent) parent.children.push(node);
+    else roots.push(node);
   }
+  return roots;
+}
 
-  allFeatures = await getFeaturesWithVariants(allFeatures);
-  featuresCache = allFeatures;
-  featuresCacheTimestamp = now;
-  await saveFeaturesCache();
-  return allFeatures;
+/**
+ * Category names from the root to the category, separated by /
+ */
+function getCategoryPath(categoryId: number, categories: Category[]): string {
+  const byId = new Map(categories.map(c => [c.category_id, c]));
+  const category = byId.get(categoryId);
+  if (!category) return "";
+  const ids = category.id_path ? category.id_path.split("/").map(Number) : [categoryId];
+  return ids.map(id => byId.get(id)?.category ?? `${id}`).join(" / ");
 }
 
-async function getProduct(productId: number): Promise<any> {
-  const token = Buffer.from(`${EMAIL}:${API_KEY}`).toString("base64");
-  const baseUrl = `${SHOP_URL}/api/2.0`;
+async function getCategory(categoryId: number): Promise<Category> {
+  return parseApiData(CategorySchema, await client.get(`/categories/${categoryId}`), `category ${categoryId}`);
+}
 
+/**
+ * Product with features and categories together with raw feature values it was built from.
+ */
+async function getProductWithFeatureValues(productId: number): Promise<{ product: ProductWithFeatures; values: ProductFeatureValue[] }> {
   // Параллельно запрашиваем базовый объект и вложенные характеристики
-  const [prodRes, featRes] = await Promise.all([
-    fetch(`${baseUrl}/products/${productId}`, {
-      headers: {
-        Authorization: `Basic ${token}`,
-        Accept: "application/json",
-      },
-    }),
-    fetch(`${baseUrl}/products/${productId}/features?items_per_page=250`, {
-      headers: {
-        Authorization: `Basic ${token}`,
-        Accept: "application/json",
-      },
-    }),
+  const [prodData, features] = await Promise.all([
+    client.get(`/products/${productId}`),
+    getProductFeatureValues(productId),
   ]);
-
-  if (!prodRes.ok) throw new Error(`Ошибка получения товара ${productId}: ${prodRes.status}`);
-  if (!featRes.ok) throw new Error(`Ошибка получения характеристик для товара ${productId}: ${featRes.status}`);
-
-  const prodData = await prodRes.json() as any;
-  const featData = await featRes.json() as any;
-  const product = prodData;
-  const features = featData.features || [];
+  const product = parseApiData(ProductSchema, prodData, `product ${productId}`);
 
   // Получаем кэш всех features для поиска variant name
   const allFeatures = await getFeatures();
   // Индексируем по feature_id
-  const featuresById: Record<string, any> = {};
+  const featuresById: Record<string, Feature> = {};
   for (const f of allFeatures) {
     featuresById[f.feature_id] = f;
   }
 
-  const productFeatures = features.map((feature: any) => {
-    let value = feature.value;
+  const productFeatures = features.map((feature) => {
+    let value: unknown = feature.value;
 
     // Если в фичах продукта есть variants, значит это множественная фича
     if (feature.feature_type === 'M' && feature.variants && feature.use_variant_picker) {
-      value = Object.values(feature.variants).map((variant: any) => variant.variant);
+      value = Object.values(feature.variants).map(variant => variant.variant);
     }
 
     if (feature.feature_type === 'N') {
@@ -213,7 +262,7 @@ async function getProduct(productId: number): Promise<any> {
 
     // Если есть variants и variant_id, ищем имя варианта
     else if (feature.variant_id && featuresById[`${feature.feature_id}`]) {
-      const variants = featuresById[`${feature.feature_id}`].variants || [];
+      const variants = featuresById[`${feature.feature_id}`].variants || {};
       const foundVariant = variants[`${feature.variant_id}`];
       if (foundVariant && foundVariant.variant) {
         value = foundVariant.variant;
@@ -224,182 +273,746 @@ async function getProduct(productId: number): Promise<any> {
     }
   });
 
-  return {  
-    ...product,
-    product_features: productFeatures,
+  const categoryIds = product.category_ids ?? (product.main_category ? [product.main_category] : []);
+  const allCategories = categoryIds.length > 0 ? await getCategories() : [];
+  const categories: ProductCategory[] = categoryIds.map(id => ({
+    category_id: id,
+    category: allCategories.find(c => c.category_id === id)?.category ?? "",
+    path: getCategoryPath(id, allCategories),
+  }));
+
+  return {
+    product: {
+      ...product,
+      product_features: productFeatures,
+      categories,
+    },
+    values: features,
   };
 }
 
-// Load cache from file at startup
-async function loadProductsCache() {
+async function getProduct(productId: number): Promise<ProductWithFeatures> {
+  return (await getProductWithFeatureValues(productId)).product;
+}
+
+/**
+ * CS-Cart versions without the API entity respond with 404, the feature is reported as empty.
+ */
+function isUnsupportedApi(error: unknown, entity: string): boolean {
+  if (!(error instanceof CscartApiError) || error.status !== 404) return false;
+  logger.debug("CS-Cart API entity is not available", { entity, status: error.status });
+  return true;
+}
+
+/**
+ * Option combinations of the product with own stock and codes.
+ * @returns Empty list for CS-Cart versions without the combinations API
+ */
+async function getProductCombinations(productId: number): Promise<ProductCombination[]> {
   try {
-    const data = await fs.readFile(PRODUCTS_CACHE_FILE, "utf-8");
-    const parsed = JSON.parse(data);
-    productsCache = parsed.productsCache;
-    productsCacheTimestamp = parsed.productsCacheTimestamp;
-  } catch (err) {
-    productsCache = null;
-    productsCacheTimestamp = null;
+    const data = await client.get<unknown>("/combinations", { product_id: productId, items_per_page: 250 });
+    const combinations = Array.isArray(data) ? data : Object.values((data as { combinations?: unknown })?.combinations ?? {});
+    return parseApiData(z.array(ProductCombinationSchema), combinations, `product ${productId} combinations`);
+  } catch (error) {
+    if (isUnsupportedApi(error, "combinations")) return [];
+    throw error;
   }
 }
 
-// Save cache to file
-async function saveProductsCache() {
+/**
+ * Product options with variants and their price modifiers.
+ * @returns Empty list for CS-Cart versions without the options API
+ */
+async function getProductOptions(productId: number): Promise<ProductOption[]> {
   try {
-    await fs.mkdir(path.dirname(PRODUCTS_CACHE_FILE), { recursive: true });
-    await fs.writeFile(
-      PRODUCTS_CACHE_FILE,
-      JSON.stringify({ productsCache, productsCacheTimestamp }, null, 2),
-      "utf-8"
-    );
-  } catch (err) {
-    console.error("Failed to save products cache:", err);
+    const data = await client.get<unknown>("/options", { product_id: productId });
+    // Options are indexed by option_id
+    const options = Array.isArray(data) ? data : Object.values(data ?? {});
+    return parseApiData(z.array(ProductOptionSchema), options, `product ${productId} options`);
+  } catch (error) {
+    if (isUnsupportedApi(error, "options")) return [];
+    throw error;
   }
 }
 
-async function getProducts(): Promise<any[]> {
-  const now = Math.floor(Date.now() / 1000);
-  let allProducts: any[] = [];
-  if (productsCache && productsCacheTimestamp && now - productsCacheTimestamp < CACHE_TIME) {
-    allProducts = productsCache;
-  } else {
-    const token = Buffer.from(`${EMAIL}:${API_KEY}`).toString("base64");
-    const perPage = 250;
-    let page = 1;
-    while (true) {
-      const endpoint = `${SHOP_URL}/api/2.0/products?items_per_page=${perPage}&page=${page}`;
-      let response: Response;
-      try {
-        response = await fetch(endpoint, {
-          method: "GET",
-          headers: {
-            Authorization: `Basic ${token}`,
-            Accept: "application/json",
-          },
-        });
-      } catch (error) {
-        throw new Error(`Network error fetching products page ${page}: ${(error as Error).message}`);
-      }
-      if (!response.ok) {
-        throw new Error(`Failed to fetch products page ${page}: ${response.status} ${response.statusText}`);
-      }
-      const data = (await response.json()) as { products: Record<string, any> };
-      const productsOnPage = Object.values(data.products);
-      if (productsOnPage.length === 0) {
-        break;
+/**
+ * Products of the variation group with their variation features.
+ * Products without variation features in the list are loaded one by one.
+ * @returns Empty list for CS-Cart versions without product variations
+ */
+async function getVariationGroupProducts(groupId: number): Promise<Product[]> {
+  try {
+    const data = await client.get<{ products?: unknown }>("/products", { variation_group_id: groupId, items_per_page: 250 });
+    const products = parseApiData(z.array(ProductSchema), Object.values(data.products || {}), `variation group ${groupId} products`);
+    return await Promise.all(products.map(async product => product.variation_features
+      ? product
+      : parseApiData(ProductSchema, await client.get(`/products/${product.product_id}`), `product ${product.product_id}`)));
+  } catch (error) {
+    if (isUnsupportedApi(error, "product variations")) return [];
+    throw error;
+  }
+}
+
+async function fetchAllProducts(): Promise<Product[]> {
+  const allProducts: Product[] = [];
+  const perPage = 250;
+  let page = 1;
+  while (true) {
+    const data = await client.get<{ products?: unknown }>("/products", { items_per_page: perPage, page });
+    const productsOnPage = parseApiData(z.array(ProductSchema), Object.values(data.products || {}), `products page ${page}`);
+    if (productsOnPage.length === 0) {
+      break;
+    }
+    allProducts.push(...productsOnPage);
+    if (productsOnPage.length < perPage) {
+      break;
+    }
+    page += 1;
+  }
+  return allProducts;
+}
+
+/**
+ * Refresh cached products list with products changed since the latest `updated_timestamp`.
+ * Falls back to the full reload when there is no previous list or the count differs from the store (deleted products).
+ */
+async function loadProducts(previous?: Product[]): Promise<Product[]> {
+  const since = Math.max(0, ...(previous ?? []).map(p => p.updated_timestamp ?? 0));
+  if (!previous || !since) return fetchAllProducts();
+
+  const changed = new Map<number, Product>();
+  const perPage = 250;
+  let total = 0;
+  for (let page = 1; ; page++) {
+    const data = await client.get<{ products?: unknown; params?: { total_items?: number | string } }>("/products", {
+      sort_by: "updated_timestamp",
+      sort_order: "desc",
+      items_per_page: perPage,
+      page,
+    });
+    const productsOnPage = parseApiData(z.array(ProductSchema), Object.values(data.products || {}), `updated products page ${page}`);
+    total = Number(data.params?.total_items ?? 0);
+    const updated = productsOnPage.filter(p => (p.updated_timestamp ?? 0) >= since);
+    updated.forEach(p => changed.set(p.product_id, p));
+    if (updated.length < productsOnPage.length || productsOnPage.length < perPage) break;
+  }
+
+  const products = previous.filter(p => !changed.has(p.product_id)).concat([...changed.values()]);
+  if (total && products.length !== total) return fetchAllProducts();
+  return products;
+}
+
+/**
+ * All products of the store, cached. Expired list is refreshed incrementally.
+ * @param force Refresh the list now, `full` reloads all products
+ */
+async function getProducts(force?: boolean | "full"): Promise<Product[]> {
+  const cache = await getCache();
+  if (force === "full") await cache.invalidate("products");
+  return cache.getOrLoad("products", "all", loadProducts, { force: Boolean(force) });
+}
+
+interface ProductSearchParams {
+  name?: string;
+  code?: string;
+  categoryId?: number;
+  categoryIds?: number[];
+  includeSubcategories?: boolean;
+  priceFrom?: number;
+  priceTo?: number;
+  status?: string;
+  amountFrom?: number;
+  amountTo?: number;
+  sortBy?: string;
+  sortOrder?: "asc" | "desc";
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Search products with CS-Cart /products filters, one page per call.
+ * @returns Products of the requested page and total count of found products
+ */
+async function searchProducts(params: ProductSearchParams = {}): Promise<{ products: Product[]; total: number }> {
+  const page = params.page ?? 1;
+  const limit = params.limit ?? 50;
+  const categoryIds = [...(params.categoryId ? [params.categoryId] : []), ...(params.categoryIds ?? [])];
+  const data = await client.get<{ products?: unknown; params?: { total_items?: number | string } }>("/products", {
+    q: params.name,
+    pname: params.name ? "Y" : undefined,
+    match: params.name ? "all" : undefined,
+    pcode: params.code,
+    cid: categoryIds.length > 0 ? categoryIds.join(",") : undefined,
+    subcats: categoryIds.length > 0 && params.includeSubcategories !== false ? "Y" : undefined,
+    price_from: params.priceFrom,
+    price_to: params.priceTo,
+    status: params.status,
+    amount_from: params.amountFrom,
+    amount_to: params.amountTo,
+    sort_by: params.sortBy,
+    sort_order: params.sortOrder,
+    items_per_page: limit,
+    page,
+  });
+  const products = parseApiData(z.array(ProductSchema), Object.values(data.products || {}), `products search page ${page}`);
+  const total = Number(data.params?.total_items ?? products.length);
+  return { products, total };
+}
+
+/**
+ * Listen to cache changes, e.g. to notify resource subscribers.
+ */
+async function onCacheChange(listener: CacheChangeListener) {
+  const cache = await getCache();
+  return cache.onChange(listener);
+}
+
+interface CacheRefreshParams {
+  resources?: CacheResource[];
+  productIds?: number[];
+  full?: boolean;
+}
+
+/**
+ * Cache state by resource: entries, stale entries, update times and hit/miss counters.
+ */
+async function getCacheStatus(resources: readonly CacheResource[] = CACHE_RESOURCES): Promise<{ backend: string; resources: CacheResourceStatus[] }> {
+  const cache = await getCache();
+  return { backend: cache.backend, resources: await cache.status([...resources]) };
+}
+
+/**
+ * Reload cached resources from the store. Products are refreshed incrementally unless `full` is set,
+ * `productIds` refreshes only these products in the products list, cached orders are dropped.
+ * @returns Cache status of the refreshed resources
+ */
+async function refreshCache(params: CacheRefreshParams = {}) {
+  const cache = await getCache();
+  const resources = params.resources ?? (params.productIds ? [] : CACHE_RESOURCES.filter(r => r !== "orders"));
+  for (const productId of params.productIds ?? []) {
+    await refreshCachedProduct(productId);
+  }
+  for (const resource of resources) {
+    if (resource === "products") {
+      await getProducts(params.full ? "full" : true);
+      continue;
+    }
+    await cache.invalidate(resource);
+    if (resource === "features" || resource === "feature_variants") await getFeatures();
+    if (resource === "categories") await getCategories();
+    if (resource === "order_statuses") await getOrderStatuses();
+  }
+  return getCacheStatus(params.productIds && resources.length === 0 ? ["products"] : resources);
+}
+
+/**
+ * Configured stores without credentials.
+ */
+function listStores() {
+  const defaultStore = getDefaultStoreName();
+  return getStores().map(store => ({
+    name: store.name,
+    shop_url: store.shopUrl,
+    admin_url: store.adminUrl,
+    company_id: store.companyId ?? null,
+    allow_writes: store.allowWrites,
+    default: store.name === defaultStore,
+  }));
+}
+
+/**
+ * Whether writes are enabled for the current store, or for any store with `anyStore`.
+ */
+function isWriteAllowed(anyStore = false): boolean {
+  if (anyStore) return getStores().some(store => store.allowWrites);
+  return currentStore().config.allowWrites;
+}
+
+function assertWriteAllowed() {
+  const { config } = currentStore();
+  if (!config.allowWrites) {
+    throw new Error(`Write operations are disabled for store "${config.name}", set CSCART_ALLOW_WRITES=1 or allowWrites in the stores file to enable them`);
+  }
+}
+
+function getFeatureVariantsList(feature: Feature): FeatureVariant[] {
+  return Object.values(feature.variants ?? {});
+}
+
+/**
+ * Resolve product features given by feature name to CS-Cart `product_features` payload.
+ * Select features (S, N, E) expect variant name, multiple (M) expects array of variant names.
+ * @param features Map of feature name to value
+ * @returns product_features keyed by feature_id and list of touched feature ids
+ */
+async function resolveProductFeatures(features: Record<string, unknown>): Promise<{ productFeatures: Record<string, unknown>; featureIds: string[] }> {
+  const allFeatures = await getFeatures();
+  const productFeatures: Record<string, unknown> = {};
+  const featureIds: string[] = [];
+  for (const [featureName, value] of Object.entries(features)) {
+    const feature = allFeatures.find(f => `${f.description}`.toLowerCase() === featureName.toLowerCase());
+    if (!feature) throw new Error(`Unknown feature: ${featureName}`);
+    const featureId = `${feature.feature_id}`;
+    const variants = getFeatureVariantsList(feature);
+    const findVariantId = (variantName: unknown) => {
+      const variant = variants.find(v => `${v.variant}`.toLowerCase() === `${variantName}`.toLowerCase());
+      if (!variant) {
+        const available = variants.map(v => v.variant).join(", ");
+        throw new Error(`Unknown variant "${variantName}" for feature "${featureName}". Available: ${available}`);
       }
-      allProducts.push(...productsOnPage);
-      if (productsOnPage.length < perPage) {
-        break;
+      return `${variant.variant_id}`;
+    };
+
+    if (feature.feature_type === "M") {
+      const values = Array.isArray(value) ? value : [value];
+      productFeatures[featureId] = Object.fromEntries(values.map(v => {
+        const variantId = findVariantId(v);
+        return [variantId, variantId];
+      }));
+    } else if (["S", "N", "E"].includes(feature.feature_type)) {
+      productFeatures[featureId] = findVariantId(value);
+    } else if (feature.feature_type === "C") {
+      productFeatures[featureId] = value === true || value === "Y" ? "Y" : "N";
+    } else {
+      productFeatures[featureId] = value;
+    }
+    featureIds.push(featureId);
+  }
+  return { productFeatures, featureIds };
+}
+
+interface FeatureFilter {
+  name: string;
+  value?: string | string[];
+  from?: number;
+  to?: number;
+}
+
+interface FeatureCondition {
+  featureId: number;
+  featureType: string;
+  variantIds?: number[];
+  value?: string;
+  from?: number;
+  to?: number;
+}
+
+// Types with numeric value: select number (N), number (O), date (D)
+const NUMERIC_FEATURE_TYPES = ["N", "O", "D"];
+
+/**
+ * Resolve feature filters given by feature and variant names to feature ids and variant ids.
+ * Value list of a select feature matches any of the variants, from/to match numeric features.
+ * @throws Error for unknown features and variants
+ */
+async function resolveFeatureFilters(filters: FeatureFilter[]): Promise<FeatureCondition[]> {
+  const allFeatures = await getFeatures();
+  return filters.map(filter => {
+    const feature = allFeatures.find(f => f.description.toLowerCase() === filter.name.toLowerCase());
+    if (!feature) throw new Error(`Unknown feature: ${filter.name}`);
+    const condition: FeatureCondition = { featureId: feature.feature_id, featureType: feature.feature_type };
+    if (filter.from !== undefined || filter.to !== undefined) {
+      if (!NUMERIC_FEATURE_TYPES.includes(feature.feature_type)) {
+        throw new Error(`Feature "${filter.name}" is not numeric, range filter is not supported`);
       }
-      page += 1;
+      condition.from = filter.from;
+      condition.to = filter.to;
+    }
+    if (filter.value === undefined) return condition;
+
+    if (VARIANT_FEATURE_TYPES.includes(feature.feature_type)) {
+      const variants = getFeatureVariantsList(feature);
+      const values = Array.isArray(filter.value) ? filter.value : [filter.value];
+      condition.variantIds = values.map(value => {
+        const variant = variants.find(v => v.variant.toLowerCase() === `${value}`.toLowerCase());
+        if (!variant) {
+          const available = variants.map(v => v.variant).join(", ");
+          throw new Error(`Unknown variant "${value}" for feature "${filter.name}". Available: ${available}`);
+        }
+        return variant.variant_id;
+      });
+    } else {
+      condition.value = Array.isArray(filter.value) ? filter.value.join(", ") : filter.value;
     }
-    productsCache = allProducts;
-    productsCacheTimestamp = now;
-    await saveProductsCache();
+    return condition;
+  });
+}
+
+/**
+ * Check that product feature values match all conditions.
+ * @param values Product feature values from getProductFeatureValues
+ */
+function matchFeatureConditions(values: ProductFeatureValue[], conditions: FeatureCondition[]): boolean {
+  return conditions.every(condition => {
+    const feature = values.find(v => v.feature_id === condition.featureId);
+    if (!feature) return false;
+    if (condition.variantIds) {
+      const selected = getSelectedVariantIds(feature);
+      if (!condition.variantIds.some(id => selected.includes(id))) return false;
+    }
+    if (condition.value !== undefined) {
+      const value = `${feature.value ?? ""}`.toLowerCase();
+      const expected = condition.featureType === "C" ? (["y", "yes", "true", "1"].includes(condition.value.toLowerCase()) ? "y" : "n") : condition.value.toLowerCase();
+      if (condition.featureType === "C" ? value !== expected : !value.includes(expected)) return false;
+    }
+    if (condition.from !== undefined || condition.to !== undefined) {
+      const raw = feature.value_int !== undefined && feature.value_int !== null && feature.value_int !== "" ? feature.value_int : feature.value;
+      const number = Number(raw);
+      if (raw === undefined || raw === null || raw === "" || isNaN(number)) return false;
+      if (condition.from !== undefined && number < condition.from) return false;
+      if (condition.to !== undefined && number > condition.to) return false;
+    }
+    return true;
+  });
+}
+
+async function invalidateFeatureVariants(featureIds: string[]) {
+  const cache = await getCache();
+  for (const id of featureIds) {
+    await cache.invalidate("feature_variants", id);
   }
+}
 
-  productsCache = allProducts.map(product => ({
-    product_id: product.product_id,
-    product: product.product,
-    timestamp: product.timestamp,
-    updated_timestamp: product.updated_timestamp,
-    price: product.price,
-    seo_name: product.seo_name,
-  }));
+// Replace product entry in the products cache with the fresh data from API, list lifetime is kept
+async function refreshCachedProduct(productId: number) {
+  const store = currentStore();
+  const cache = await getCache();
+  if (!await cache.peek<Product[]>("products", "all")) return;
+  let product: Product | null = null;
+  try {
+    product = parseApiData(ProductSchema, await client.get(`/products/${productId}`), `product ${productId}`);
+  } catch (error) {
+    if (!(error instanceof CscartApiError && error.status === 404)) throw error;
+  }
+  // Parallel saves are queued, the list is read again after the previous update
+  const update = store.productsUpdate.then(async () => {
+    const entry = await cache.peek<Product[]>("products", "all");
+    if (!entry) return;
+    const products = entry.value.filter(p => Number(p.product_id) !== Number(productId));
+    if (product) {
+      products.push(product);
+    }
+    await cache.set("products", "all", products, entry.updatedAt);
+  });
+  store.productsUpdate = update.catch(() => undefined);
+  await update;
+}
 
-  return allProducts;
+interface WriteRequest {
+  method: "PUT" | "POST";
+  path: string;
+  body: Record<string, unknown>;
 }
 
-async function getOrder(orderId: number): Promise<any> {
-  const token = Buffer.from(`${EMAIL}:${API_KEY}`).toString("base64");
-  const baseUrl = `${SHOP_URL}/api/2.0`;
-  const url = `${baseUrl}/orders/${orderId}`;
-  const response = await fetch(url, {
-    headers: {
-      Authorization: `Basic ${token}`,
-      Accept: "application/json",
-    },
+/**
+ * Send the write request to CS-Cart.
+ * @throws Error when writes are disabled for the store
+ */
+async function sendWriteRequest<T = unknown>(request: WriteRequest): Promise<T> {
+  assertWriteAllowed();
+  return client.request<T>(request.path, { method: request.method, body: request.body });
+}
+
+/**
+ * Request saving product data, features are resolved by name. Nothing is sent.
+ * @param productId Product to update, null to create
+ */
+async function getProductRequest(productId: number | null, data: Record<string, unknown>, features?: Record<string, unknown>): Promise<WriteRequest> {
+  const body: Record<string, unknown> = { ...data };
+  const { companyId } = currentStore().config;
+  if (!productId && companyId && body.company_id === undefined) body.company_id = companyId;
+  if (features && Object.keys(features).length > 0) {
+    body.product_features = (await resolveProductFeatures(features)).productFeatures;
+  }
+  return { method: productId ? "PUT" : "POST", path: productId ? `/products/${productId}` : "/products", body };
+}
+
+/**
+ * Send product request from getProductRequest, caches of touched product and features are invalidated.
+ * @returns product_id of saved product
+ */
+async function saveProduct(request: WriteRequest): Promise<number> {
+  const result = await sendWriteRequest<{ product_id?: number | string }>(request);
+  const savedId = Number(result.product_id ?? request.path.split("/")[2]);
+  if (!savedId) throw new Error(`CS-Cart did not return product_id: ${JSON.stringify(result)}`);
+
+  await invalidateFeatureVariants(Object.keys(request.body.product_features as Record<string, unknown> | undefined ?? {}));
+  await refreshCachedProduct(savedId);
+  return savedId;
+}
+
+async function getOrder(orderId: number): Promise<Order> {
+  return parseApiData(OrderSchema, await client.get(`/orders/${orderId}`), `order ${orderId}`);
+}
+
+/**
+ * Fetch full orders (with products and payment method) for orders from the list.
+ * Full orders are cached while order status, total and update time stay the same.
+ * @param orders Orders from searchOrders
+ */
+async function getOrdersDetails(orders: Order[]): Promise<Order[]> {
+  return Promise.all(orders.map(async (listOrder) => {
+    const id = listOrder.order_id;
+    const isFresh = (cached: Order) => cached.status === listOrder.status
+      && cached.total === listOrder.total
+      && cached.updated_at === listOrder.updated_at;
+    const cache = await getCache();
+    return cache.getOrLoad("orders", `${id}`, () => getOrder(id), { validate: isFresh });
+  }));
+}
+
+/**
+ * Fetch order statuses configured in the store (GET /statuses, type O), cached.
+ * @returns Array of statuses with `status` code and `description`
+ */
+async function getOrderStatuses(): Promise<OrderStatus[]> {
+  const cache = await getCache();
+  return cache.getOrLoad("order_statuses", "all", async () => {
+    const data = await client.get<{ statuses?: unknown }>("/statuses", { type: "O", items_per_page: 250 });
+    const statuses = parseApiData(z.array(OrderStatusSchema), Object.values(data.statuses || {}), "order statuses");
+    return statuses.filter(s => !s.type || s.type === "O");
   });
-  if (!response.ok) {
-    throw new Error(`Failed to fetch order ${orderId}: ${response.status} ${response.statusText}`);
+}
+
+/**
+ * Request updating order fields with PUT /orders/:id.
+ * @param data CS-Cart order fields: status, notify_user, notify_department, notify_vendor, details, etc.
+ */
+function getOrderUpdateRequest(orderId: number, data: Record<string, unknown>): WriteRequest {
+  return { method: "PUT", path: `/orders/${orderId}`, body: data };
+}
+
+async function getOrderShipments(orderId: number): Promise<Shipment[]> {
+  const data = await client.get<{ shipments?: unknown }>("/shipments", { order_id: orderId });
+  return parseApiData(z.array(ShipmentSchema), Object.values(data.shipments || {}), `order ${orderId} shipments`);
+}
+
+/**
+ * Request setting tracking info of the order: updates the first shipment or creates one with all order products.
+ */
+async function getOrderTrackingRequest(order: Order, tracking: { trackingNumber: string; carrier?: string }): Promise<WriteRequest> {
+  const shipments = await getOrderShipments(order.order_id);
+  const shipment = shipments[0];
+  const body: Record<string, unknown> = { tracking_number: tracking.trackingNumber };
+  if (tracking.carrier) body.carrier = tracking.carrier;
+  if (shipment) return { method: "PUT", path: `/shipments/${shipment.shipment_id}`, body };
+  body.order_id = order.order_id;
+  const shipping = order.shipping as { shipping_id?: string }[] | undefined;
+  body.shipping_id = shipping?.[0]?.shipping_id ?? order.shipping_ids;
+  body.products = Object.fromEntries(
+    Object.entries(order.products || {}).map(([itemId, p]) => [p.item_id ?? itemId, p.amount])
+  );
+  return { method: "POST", path: "/shipments", body };
+}
+
+interface OrderSearchParams {
+  status?: string | string[];
+  createdFrom?: number;
+  createdTo?: number;
+  updatedFrom?: number;
+  updatedTo?: number;
+  email?: string;
+  phone?: string;
+  customerName?: string;
+  userId?: number;
+  totalFrom?: number;
+  totalTo?: number;
+  productId?: number;
+  limit?: number;
+}
+
+/**
+ * Search orders with CS-Cart /orders filters, walking pages until limit is reached.
+ * Timestamps are unix seconds. Updated range is applied to `updated_at` when the store returns it.
+ * @returns Array of orders as returned by the orders list (without products)
+ */
+async function searchOrders(params: OrderSearchParams = {}): Promise<Order[]> {
+  const limit = params.limit ?? 100;
+  const query = new URLSearchParams();
+  const statuses = Array.isArray(params.status) ? params.status : params.status ? [params.status] : [];
+  statuses.forEach(status => query.append("status[]", status.toUpperCase()));
+  if (params.createdFrom || params.createdTo) {
+    query.set("period", "C");
+    query.set("time_from", String(params.createdFrom ?? 0));
+    query.set("time_to", String(params.createdTo ?? Math.floor(Date.now() / 1000)));
   }
-  const data = await response.json();
-  return data;
-}
-
-function getOrderInfo(order: any) {
-  if (!order) return null;
-  // console.log(`order: ${JSON.stringify(order)}`);
-  const order_id = order.order_id;
-  const total = order.total;
-  const phone = order.phone || order.payment_info?.customer_phone || '';
-  const email = order.email || '';
-  const telegram = TELEGRAM_FIELD ? order.fields[TELEGRAM_FIELD] || '' : '';
-  const name = `${order.firstname} ${order.lastname}`;
-  const company = order.company || '';
-  const notes = order.notes || '';
-  const order_url = `${ADMIN_URL}?dispatch=orders.details&order_id=${order_id}`;
-  const payment_method = order.payment_method?.payment || '';
-  const products = order.products
-    ? Object.values(order.products).map((p: any) => ({
-        product_id: p.product_id,
-        product_code: p.product_code,
-        subtotal: p.subtotal,
-        product: p.product,
-        amount: p.amount,
-        base_price: p.base_price,
-      })).map((p) => {
-        const productExternalId = p.product_code.replace('px-', '');
-        const productLink = PRODUCT_LINK_TEMPLATE.replace('{id}', productExternalId);
-        return [
-          `- ${p.subtotal} USD`,
-          (p.amount > 1 ? ` (${p.base_price} x ${p.amount})` : ''),
-          ` - <a href="${productLink}">${p.product}</a>`,
-        ].join('');
-      }).join('\n')
-    : '';
-  return {
-    order_id,
-    total,
-    name,
-    phone,
-    email,
-    telegram,
-    company,
-    order_url,
-    notes,
-    payment_method,
-    products,
+  if (params.email) query.set("email", params.email);
+  if (params.phone) query.set("phone", params.phone);
+  if (params.customerName) query.set("cname", params.customerName);
+  if (params.userId) query.set("user_id", String(params.userId));
+  if (params.totalFrom !== undefined) query.set("total_from", String(params.totalFrom));
+  if (params.totalTo !== undefined) query.set("total_to", String(params.totalTo));
+  if (params.productId) query.set("p_ids", String(params.productId));
+  query.set("sort_by", "date");
+  query.set("sort_order", "desc");
+
+  const isUpdatedInRange = (order: Order) => {
+    if (!params.updatedFrom && !params.updatedTo) return true;
+    const updated = Number(order.updated_at ?? order.timestamp);
+    if (params.updatedFrom && updated < params.updatedFrom) return false;
+    if (params.updatedTo && updated > params.updatedTo) return false;
+    return true;
   };
+
+  const allOrders: Order[] = [];
+  const perPage = 250;
+  let page = 1;
+  while (allOrders.length < limit) {
+    query.set("items_per_page", String(perPage));
+    query.set("page", String(page));
+    const data = await client.get<{ orders?: unknown }>("/orders", query);
+    const ordersOnPage = parseApiData(z.array(OrderSchema), Object.values(data.orders || {}), `orders page ${page}`);
+    if (ordersOnPage.length === 0) {
+      break;
+    }
+    allOrders.push(...ordersOnPage.filter(isUpdatedInRange));
+    if (ordersOnPage.length < perPage) {
+      break;
+    }
+    page += 1;
+  }
+
+  return allOrders.slice(0, limit);
 }
 
-function getOrderMessage(info: any) {
-  return `Заказ № ${info.order_id}  
-Сумма: ${info.total}  
-Способ оплаты: ${info.payment_method}
-Ссылка на заказ: ${info.order_url}
+interface UserSearchParams {
+  email?: string;
+  phone?: string;
+  name?: string;
+  userType?: string;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Search users with CS-Cart /users filters, one page per call.
+ * @returns Users of the requested page and total count of found users
+ */
+async function searchUsers(params: UserSearchParams = {}): Promise<{ users: User[]; total: number }> {
+  const page = params.page ?? 1;
+  const data = await client.get<{ users?: unknown; params?: { total_items?: number | string } }>("/users", {
+    email: params.email,
+    phone: params.phone,
+    name: params.name,
+    user_type: params.userType,
+    items_per_page: params.limit ?? 50,
+    page,
+  });
+  const users = parseApiData(z.array(UserSchema), Object.values(data.users || {}), `users page ${page}`);
+  return { users, total: Number(data.params?.total_items ?? users.length) };
+}
+
+async function getUser(userId: number): Promise<User> {
+  return parseApiData(UserSchema, await client.get(`/users/${userId}`), `user ${userId}`);
+}
+
+/**
+ * Primary currency code of the store from CSCART_CURRENCY or GET /currencies, cached.
+ * @returns Empty string when the store API has no currencies, order currency is used then
+ */
+async function getStoreCurrency(): Promise<string> {
+  const { currency } = currentStore().config;
+  if (currency) return currency;
+  const cache = await getCache();
+  return cache.getOrLoad("currencies", "primary", async () => {
+    try {
+      const data = await client.get<{ currencies?: unknown }>("/currencies", { items_per_page: 250 });
+      const currencies = Object.values(data.currencies || {}) as { currency_code?: string; is_primary?: string }[];
+      return currencies.find(c => c.is_primary === "Y")?.currency_code ?? "";
+    } catch (error) {
+      if (error instanceof CscartApiError && error.status === 404) return "";
+      throw error;
+    }
+  });
+}
 
-Клиент:
-- Имя: ${info.name}
-- Телефон: ${info.phone}
-- Email: ${info.email}
-- Telegram: ${info.telegram}
-- Компания: ${info.company}
+/**
+ * Order fields for order message templates: customer contacts, admin link, products with links and formatted prices.
+ */
+function getOrderInfo(order: Order, options: { currency?: string; statusName?: string } = {}): OrderInfo {
+  const { config } = currentStore();
+  return buildOrderInfo(order, {
+    adminUrl: config.adminUrl,
+    productLinkTemplate: config.productLinkTemplate,
+    telegramField: config.telegramField,
+    currency: options.currency || config.currency,
+    locale: config.locale,
+    statusName: options.statusName,
+  });
+}
 
-Примечания к заказу:
-${info.notes}
+// Custom order template from orderTemplateFile or orderTemplate of the store, HTML templates are escaped
+function getOrderTemplate() {
+  const store = currentStore();
+  if (!store.orderTemplatePromise) {
+    const { orderTemplate, orderTemplateFile } = store.config;
+    store.orderTemplatePromise = (async () => {
+      if (orderTemplateFile) {
+        const text = await fs.readFile(path.resolve(orderTemplateFile), "utf-8");
+        return { text, escape: /\.html?$/i.test(orderTemplateFile) ? "html" as const : undefined };
+      }
+      return orderTemplate ? { text: orderTemplate.replace(/\\n/g, "\n") } : undefined;
+    })();
+  }
+  return store.orderTemplatePromise;
+}
 
-Товары:
-${info.products}`;
+/**
+ * Render order message with store currency and status name.
+ * @param format Preset or `template`, default is the custom template when configured, markdown otherwise
+ */
+async function getOrderMessage(order: Order, format?: OrderMessageFormat): Promise<{ message: string; format: OrderMessageFormat }> {
+  const [currency, statuses, template] = await Promise.all([
+    getStoreCurrency(),
+    getOrderStatuses().catch(() => [] as OrderStatus[]),
+    getOrderTemplate(),
+  ]);
+  const statusName = statuses.find(s => s.status === order.status)?.description;
+  const messageFormat = format ?? (template ? "template" : "markdown");
+  const info = getOrderInfo(order, { currency, statusName });
+  return { message: formatOrderMessage(info, messageFormat, template), format: messageFormat };
 }
 
+export type { CacheResource, CacheRefreshParams, ProductSearchParams, FeatureFilter, FeatureCondition, OrderSearchParams, UserSearchParams, WriteRequest };
+
 export {
+  CACHE_RESOURCES,
+  getCacheStatus,
+  refreshCache,
+  onCacheChange,
   getProduct,
+  getProductWithFeatureValues,
+  getProductFeatureValues,
+  getProductCombinations,
+  getProductOptions,
+  getVariationGroupProducts,
   getProducts,
+  searchProducts,
   getFeatures,
   getFeaturesWithVariants,
+  getCategories,
+  getCategoriesTree,
+  getCategoryPath,
+  getCategory,
+  sendWriteRequest,
+  getProductRequest,
+  saveProduct,
+  resolveProductFeatures,
+  resolveFeatureFilters,
+  matchFeatureConditions,
+  listStores,
+  isWriteAllowed,
+  assertWriteAllowed,
   getOrder,
+  getOrdersDetails,
+  getOrderStatuses,
+  getOrderUpdateRequest,
+  getOrderShipments,
+  getOrderTrackingRequest,
+  searchOrders,
+  searchUsers,
+  getUser,
+  getStoreCurrency,
   getOrderInfo,
   getOrderMessage,
 };
\ No newline at end of file
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { CategorySchema, FeatureSchema, ProductFeatureValueSchema, ProductSchema } from './schemas.js';
+import {
+  AUDIT_CHECKS,
+  auditProductDetails,
+  countFindings,
+  findDuplicates,
+  formatAuditReport,
+  getRequiredFeatures,
+  loadAuditRules,
+} from './audit.js';
+
+const categories = [
+  CategorySchema.parse({ category_id: 1, category: 'Clothes', id_path: '1' }),
+  CategorySchema.parse({ category_id: 2, parent_id: 1, category: 'Shirts', id_path: '1/2' }),
+  CategorySchema.parse({ category_id: 3, category: 'Books', id_path: '3' }),
+];
+
+const features = [
+  FeatureSchema.parse({ feature_id: 1, description: 'Brand', feature_type: 'E', variants: [{ variant_id: 10, variant: 'Acme' }] }),
+  FeatureSchema.parse({ feature_id: 2, description: 'Size', feature_type: 'M', variants: [{ variant_id: 20, variant: 'S' }] }),
+  FeatureSchema.parse({ feature_id: 3, description: 'Material', feature_type: 'T' }),
+];
+
+describe('Products audit', () => {
+  it('should collect required features of categories, parents and all categories', () => {
+    const rules = { requiredFeatures: { '*': ['Brand'], '1': ['Size'], '2': ['Material', 'Size'], '3': ['Author'] } };
+    expect(getRequiredFeatures([2], rules, categories)).toEqual(['Brand', 'Size', 'Material']);
+    expect(getRequiredFeatures([], rules, categories)).toEqual(['Brand']);
+  });
+
+  it('should report missing features, empty descriptions, images and unknown variants', () => {
+    const product = { ...ProductSchema.parse({ product_id: 1, full_description: '<p> </p>' }), product_features: [] };
+    const values = [
+      ProductFeatureValueSchema.parse({ feature_id: 1, description: 'Brand', feature_type: 'E', variant_id: '11' }),
+      ProductFeatureValueSchema.parse({ feature_id: 2, description: 'Size', feature_type: 'M', variants: { 20: { variant_id: 20, selected: 'N' } } }),
+      ProductFeatureValueSchema.parse({ feature_id: 3, description: 'Material', feature_type: 'T', value: 'Cotton' }),
+    ];
+    const findings = auditProductDetails(product, values, {
+      checks: new Set(AUDIT_CHECKS),
+      features,
+      requiredFeatures: ['Brand', 'Size', 'Material', 'Color'],
+    });
+    expect(findings).toEqual([
+      { check: 'missing_features', message: 'Missing required features: Size, Color' },
+      { check: 'empty_description', message: 'Full and short descriptions are empty' },
+      { check: 'missing_image', message: 'No main image' },
+      { check: 'unknown_variant', message: 'Feature "Brand" has unknown variant 11' },
+    ]);
+    expect(auditProductDetails(product, values, { checks: new Set(['missing_image'] as const), features, requiredFeatures: [] })).toHaveLength(1);
+  });
+
+  it('should find duplicate codes and names ignoring case and empty values', () => {
+    const products = [
+      ProductSchema.parse({ product_id: 1, product: 'Cup', product_code: 'A' }),
+      ProductSchema.parse({ product_id: 2, product: 'cup ', product_code: '' }),
+      ProductSchema.parse({ product_id: 3, product: 'Tea', product_code: 'a' }),
+      ProductSchema.parse({ product_id: 4, product: 'Pot', product_code: '' }),
+    ];
+    expect(findDuplicates(products, 'product_code')).toEqual(new Map([[1, [3]], [3, [1]]]));
+    expect(findDuplicates(products, 'product')).toEqual(new Map([[1, [2]], [2, [1]]]));
+  });
+
+  it('should count products by check and format the report', () => {
+    const products = [
+      { product_id: 1, product_code: 'A', product: 'Cup', findings: [{ check: 'zero_price' as const, message: 'Price is zero' }] },
+    ];
+    const report = { scanned: 10, total: 12, counts: countFindings(products), products };
+    expect(report.counts).toMatchObject({ zero_price: 1, missing_image: 0 });
+    expect(formatAuditReport(report)).toContain('Scanned 10 of 12 products, 1 with findings.');
+    expect(formatAuditReport(report)).toContain('| 1 | A | Cup | Price is zero |');
+  });
+
+  it('should load and validate audit rules file', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cscart-audit-'));
+    try {
+      const file = path.join(dir, 'rules.json');
+      await fs.writeFile(file, JSON.stringify({ requiredFeatures: { '*': ['Brand'] } }));
+      expect(await loadAuditRules({ CSCART_AUDIT_RULES_FILE: file })).toEqual({ requiredFeatures: { '*': ['Brand'] } });
+      expect(await loadAuditRules({})).toEqual({ requiredFeatures: {} });
+      await fs.writeFile(file, JSON.stringify({ requiredFeatures: { '*': 'Brand' } }));
+      await expect(loadAuditRules({ CSCART_AUDIT_RULES_FILE: file })).rejects.toThrow('Invalid audit rules');
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
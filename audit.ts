@@ -0,0 +1,193 @@
+import { promises as fs } from "fs";
+import { z } from "zod";
+import type { Category, Feature, Product, ProductFeatureValue, ProductWithFeatures } from "./schemas.js";
+import { formatTable } from "./reports.js";
+import { VARIANT_FEATURE_TYPES, getSelectedVariantIds } from "./features.js";
+
+const AUDIT_CHECKS = [
+  "missing_features",
+  "empty_description",
+  "zero_price",
+  "missing_image",
+  "duplicate_code",
+  "duplicate_name",
+  "unknown_variant",
+] as const;
+type AuditCheck = typeof AUDIT_CHECKS[number];
+
+// Checks that need the product details and feature values, others use the products list
+const DETAIL_CHECKS: AuditCheck[] = ["missing_features", "empty_description", "missing_image", "unknown_variant"];
+const ALL_CATEGORIES = "*";
+
+const AuditRulesSchema = z.object({
+  requiredFeatures: z.record(z.array(z.string())).default({})
+    .describe("Required feature names by category ID, \"*\" for all categories. Subcategories inherit the rules"),
+});
+type AuditRules = z.infer<typeof AuditRulesSchema>;
+
+interface AuditFinding {
+  check: AuditCheck;
+  message: string;
+}
+
+interface AuditProductResult {
+  product_id: number;
+  product_code: string;
+  product: string;
+  findings: AuditFinding[];
+}
+
+interface AuditReport {
+  scanned: number;
+  total: number;
+  counts: Record<AuditCheck, number>;
+  products: AuditProductResult[];
+}
+
+/**
+ * Audit rules from the JSON file CSCART_AUDIT_RULES_FILE, no required features without it.
+ */
+async function loadAuditRules(env: NodeJS.ProcessEnv = process.env): Promise<AuditRules> {
+  const file = env["CSCART_AUDIT_RULES_FILE"];
+  if (!file) return { requiredFeatures: {} };
+  let data: unknown;
+  try {
+    data = JSON.parse(await fs.readFile(file, "utf-8"));
+  } catch (error) {
+    throw new Error(`Failed to read audit rules ${file}: ${(error as Error).message}`);
+  }
+  const result = AuditRulesSchema.safeParse(data);
+  if (!result.success) {
+    throw new Error(`Invalid audit rules ${file}: ${result.error.issues.map(issue => `${issue.path.join(".")}: ${issue.message}`).join("; ")}`);
+  }
+  return result.data;
+}
+
+/**
+ * Required features of the product categories, with the rules of parent categories and `*`.
+ */
+function getRequiredFeatures(categoryIds: number[], rules: AuditRules, categories: Category[]): string[] {
+  const byId = new Map(categories.map(c => [c.category_id, c]));
+  const ruleKeys = new Set([ALL_CATEGORIES]);
+  for (const id of categoryIds) {
+    const idPath = byId.get(id)?.id_path;
+    for (const pathId of idPath ? idPath.split("/") : [`${id}`]) ruleKeys.add(pathId);
+  }
+  return [...new Set([...ruleKeys].flatMap(key => rules.requiredFeatures[key] ?? []))];
+}
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || `${value}`.trim() === "";
+}
+
+function stripHtml(html: string): string {
+  return html.replace(/<[^>]*>/g, " ").replace(/&nbsp;/g, " ").trim();
+}
+
+// Select features have a value when a variant is selected
+function hasFeatureValue(value: ProductFeatureValue): boolean {
+  if (VARIANT_FEATURE_TYPES.includes(value.feature_type)) return getSelectedVariantIds(value).length > 0;
+  if (value.feature_type === "O" || value.feature_type === "D") return !isBlank(value.value_int) || !isBlank(value.value);
+  return !isBlank(value.value);
+}
+
+interface ProductAuditOptions {
+  checks: Set<AuditCheck>;
+  /** Features with variants from the features cache */
+  features: Feature[];
+  requiredFeatures: string[];
+}
+
+/**
+ * Findings of the product details and feature values. Zero prices and duplicates are checked with the products list.
+ */
+function auditProductDetails(product: ProductWithFeatures, values: ProductFeatureValue[], options: ProductAuditOptions): AuditFinding[] {
+  const findings: AuditFinding[] = [];
+  const { checks } = options;
+  if (checks.has("missing_features")) {
+    const missing = options.requiredFeatures.filter(name => {
+      const value = values.find(v => v.description.toLowerCase() === name.toLowerCase());
+      return !value || !hasFeatureValue(value);
+    });
+    if (missing.length > 0) findings.push({ check: "missing_features", message: `Missing required features: ${missing.join(", ")}` });
+  }
+  if (checks.has("empty_description") && !stripHtml(product.full_description ?? "") && !stripHtml(product.short_description ?? "")) {
+    findings.push({ check: "empty_description", message: "Full and short descriptions are empty" });
+  }
+  if (checks.has("missing_image")) {
+    const pair = product.main_pair as { detailed?: { image_path?: string } } | undefined;
+    if (!pair?.detailed?.image_path) findings.push({ check: "missing_image", message: "No main image" });
+  }
+  if (checks.has("unknown_variant")) {
+    const featuresById = new Map(options.features.map(f => [f.feature_id, f]));
+    for (const value of values.filter(v => VARIANT_FEATURE_TYPES.includes(v.feature_type))) {
+      const variants = featuresById.get(value.feature_id)?.variants ?? {};
+      const unknown = getSelectedVariantIds(value).filter(id => !variants[`${id}`]);
+      if (unknown.length > 0) {
+        findings.push({ check: "unknown_variant", message: `Feature "${value.description}" has unknown variant ${unknown.join(", ")}` });
+      }
+    }
+  }
+  return findings;
+}
+
+function auditListProduct(product: Product, checks: Set<AuditCheck>): AuditFinding[] {
+  return checks.has("zero_price") && !(product.price > 0) ? [{ check: "zero_price", message: "Price is zero" }] : [];
+}
+
+/**
+ * Products sharing the normalized product code or name.
+ * @returns Other product ids by product id
+ */
+function findDuplicates(products: Product[], field: "product_code" | "product"): Map<number, number[]> {
+  const groups = new Map<string, number[]>();
+  for (const product of products) {
+    const key = product[field].trim().toLowerCase();
+    if (key) groups.set(key, [...(groups.get(key) ?? []), product.product_id]);
+  }
+  const duplicates = new Map<number, number[]>();
+  for (const ids of groups.values()) {
+    if (ids.length < 2) continue;
+    for (const id of ids) duplicates.set(id, ids.filter(other => other !== id));
+  }
+  return duplicates;
+}
+
+function needsProductDetails(checks: Set<AuditCheck>): boolean {
+  return DETAIL_CHECKS.some(check => checks.has(check));
+}
+
+function countFindings(products: AuditProductResult[]): Record<AuditCheck, number> {
+  const counts = Object.fromEntries(AUDIT_CHECKS.map(check => [check, 0])) as Record<AuditCheck, number>;
+  for (const product of products) {
+    for (const check of new Set(product.findings.map(f => f.check))) counts[check]++;
+  }
+  return counts;
+}
+
+function formatAuditReport(report: AuditReport): string {
+  const counts = AUDIT_CHECKS.filter(check => report.counts[check] > 0).map(check => [check, report.counts[check]]);
+  const rows = report.products.map(p => [p.product_id, p.product_code, p.product, p.findings.map(f => f.message).join("; ")]);
+  return [
+    "## Products audit",
+    `Scanned ${report.scanned} of ${report.total} products, ${report.products.length} with findings.`,
+    formatTable(["Check", "Products"], counts),
+    report.products.length > 0 ? "### Findings" : "",
+    report.products.length > 0 ? formatTable(["ID", "Code", "Product", "Findings"], rows) : "",
+  ].filter(Boolean).join("\n\n");
+}
+
+export type { AuditCheck, AuditRules, AuditFinding, AuditProductResult, AuditReport, ProductAuditOptions };
+
+export {
+  AUDIT_CHECKS,
+  AuditRulesSchema,
+  loadAuditRules,
+  getRequiredFeatures,
+  auditProductDetails,
+  auditListProduct,
+  findDuplicates,
+  needsProductDetails,
+  countFindings,
+  formatAuditReport,
+};
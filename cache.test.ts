@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { createCache, createFileBackend, createMemoryBackend } from './cache.js';
+
+describe('Cache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should return fresh values and merge concurrent loads', async () => {
+    const cache = createCache({ backend: createMemoryBackend(), defaultTtl: 60 });
+    const loader = vi.fn(async () => 'value');
+    const [a, b] = await Promise.all([cache.getOrLoad('products', 'all', loader), cache.getOrLoad('products', 'all', loader)]);
+    expect([a, b]).toEqual(['value', 'value']);
+    expect(await cache.getOrLoad('products', 'all', loader)).toBe('value');
+    expect(loader).toHaveBeenCalledTimes(1);
+    const [status] = await cache.status(['products']);
+    expect(status).toMatchObject({ entries: 1, stale: 0, hits: 1, misses: 2 });
+  });
+
+  it('should serve stale value and refresh it in background with previous value', async () => {
+    vi.useFakeTimers({ now: 0 });
+    const cache = createCache({ backend: createMemoryBackend(), defaultTtl: 60, ttl: { products: 10 }, staleTime: 100 });
+    await cache.getOrLoad('products', 'all', async () => [1]);
+    vi.setSystemTime(20_000);
+    const loader = vi.fn(async (previous?: number[]) => [...(previous ?? []), 2]);
+    expect(await cache.getOrLoad('products', 'all', loader)).toEqual([1]);
+    await vi.waitFor(() => expect(loader).toHaveBeenCalledWith([1]));
+    await Promise.resolve();
+    expect((await cache.peek('products', 'all'))?.value).toEqual([1, 2]);
+
+    vi.setSystemTime(200_000);
+    expect(await cache.getOrLoad('products', 'all', async () => [3])).toEqual([3]);
+  });
+
+  it('should reload values failing validation and invalidated values', async () => {
+    const cache = createCache({ backend: createMemoryBackend(), defaultTtl: 60 });
+    await cache.set('orders', '1', { status: 'O' });
+    const loader = vi.fn(async () => ({ status: 'C' }));
+    expect(await cache.getOrLoad('orders', '1', loader, { validate: order => order.status === 'C' })).toEqual({ status: 'C' });
+    await cache.invalidate('orders');
+    expect(await cache.peek('orders', '1')).toBeUndefined();
+  });
+
+  it('should persist entries in files', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cscart-cache-'));
+    try {
+      const first = createCache({ backend: createFileBackend(dir), defaultTtl: 60 });
+      await first.getOrLoad('feature_variants', '5', async () => ({ 7: { variant_id: 7 } }));
+      const second = createCache({ backend: createFileBackend(dir), defaultTtl: 60 });
+      const loader = vi.fn(async () => ({}));
+      expect(await second.getOrLoad('feature_variants', '5', loader)).toEqual({ 7: { variant_id: 7 } });
+      expect(loader).not.toHaveBeenCalled();
+      await second.invalidate('feature_variants');
+      expect(await fs.readdir(path.join(dir, 'feature_variants'))).toEqual([]);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,332 @@
+import path from "path";
+import { promises as fs } from "fs";
+import { logger } from "./logger.js";
+
+interface CacheEntry<T = unknown> {
+  value: T;
+  updatedAt: number;
+}
+
+/**
+ * Storage of cache entries. Keys are `resource/key`.
+ */
+interface CacheBackend {
+  name: string;
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  keys(prefix: string): Promise<string[]>;
+}
+
+interface CacheOptions {
+  backend: CacheBackend;
+  /** Default time to live of entries, seconds */
+  defaultTtl: number;
+  /** Time to live by resource, seconds */
+  ttl?: Record<string, number>;
+  /** How long expired entries are served while refreshed in background, seconds. 0 disables stale-while-revalidate */
+  staleTime?: number;
+}
+
+interface LoadOptions<T> {
+  /** Load fresh value even when cached value is fresh */
+  force?: boolean;
+  /** Cached values failing the check are loaded again */
+  validate?: (value: T) => boolean;
+}
+
+interface CacheChange {
+  resource: string;
+  key: string;
+  /** Undefined when the entry is invalidated */
+  value?: unknown;
+  previous?: unknown;
+}
+
+type CacheChangeListener = (change: CacheChange) => void;
+
+interface CacheResourceStatus {
+  resource: string;
+  ttl: number;
+  entries: number;
+  stale: number;
+  oldest_update: string | null;
+  newest_update: string | null;
+  hits: number;
+  stale_hits: number;
+  misses: number;
+  refreshing: number;
+}
+
+function createMemoryBackend(): CacheBackend {
+  const entries = new Map<string, CacheEntry>();
+  return {
+    name: "memory",
+    get: async (key) => entries.get(key),
+    set: async (key, entry) => { entries.set(key, entry); },
+    delete: async (key) => { entries.delete(key); },
+    keys: async (prefix) => [...entries.keys()].filter(key => key.startsWith(prefix)),
+  };
+}
+
+/**
+ * Store entries as JSON files `{dir}/{resource}/{key}.json`.
+ */
+function createFileBackend(dir: string): CacheBackend {
+  const getFile = (key: string) => {
+    const [resource, ...rest] = key.split("/");
+    return path.join(dir, resource, `${encodeURIComponent(rest.join("/"))}.json`);
+  };
+  return {
+    name: "file",
+    async get(key) {
+      try {
+        return JSON.parse(await fs.readFile(getFile(key), "utf-8"));
+      } catch (err) {
+        return undefined;
+      }
+    },
+    async set(key, entry) {
+      const file = getFile(key);
+      try {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(file, JSON.stringify(entry), "utf-8");
+      } catch (err) {
+        logger.error("Failed to save cache", { key, error: err });
+      }
+    },
+    async delete(key) {
+      try {
+        await fs.unlink(getFile(key));
+      } catch (err) {
+        // File does not exist, nothing to delete
+      }
+    },
+    async keys(prefix) {
+      const resource = prefix.split("/")[0];
+      try {
+        const files = await fs.readdir(path.join(dir, resource));
+        return files
+          .filter(file => file.endsWith(".json"))
+          .map(file => `${resource}/${decodeURIComponent(file.slice(0, -5))}`)
+          .filter(key => key.startsWith(prefix));
+      } catch (err) {
+        return [];
+      }
+    },
+  };
+}
+
+/**
+ * Store entries in SQLite database, uses built-in node:sqlite (Node.js 22.5+).
+ */
+// Part of node:sqlite used by the backend
+interface SqliteStatement {
+  get(...params: unknown[]): Record<string, unknown> | undefined;
+  all(...params: unknown[]): Record<string, unknown>[];
+  run(...params: unknown[]): unknown;
+}
+
+interface SqliteModule {
+  DatabaseSync: new (file: string) => {
+    exec(sql: string): void;
+    prepare(sql: string): SqliteStatement;
+  };
+}
+
+async function createSqliteBackend(file: string): Promise<CacheBackend> {
+  // Module name in variable: node:sqlite is missing in older Node.js and its types
+  const moduleName = "node:sqlite";
+  let sqlite: SqliteModule;
+  try {
+    sqlite = await import(moduleName) as SqliteModule;
+  } catch (err) {
+    throw new Error(`SQLite cache backend requires Node.js 22.5+ with node:sqlite: ${(err as Error).message}`);
+  }
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const db = new sqlite.DatabaseSync(file);
+  db.exec("CREATE TABLE IF NOT EXISTS cache (key TEXT PRIMARY KEY, updated_at INTEGER NOT NULL, value TEXT NOT NULL)");
+  const select = db.prepare("SELECT updated_at, value FROM cache WHERE key = ?");
+  const upsert = db.prepare("INSERT OR REPLACE INTO cache (key, updated_at, value) VALUES (?, ?, ?)");
+  const remove = db.prepare("DELETE FROM cache WHERE key = ?");
+  const selectKeys = db.prepare("SELECT key FROM cache WHERE substr(key, 1, length(?)) = ?");
+  return {
+    name: "sqlite",
+    async get(key) {
+      const row = select.get(key);
+      return row ? { updatedAt: Number(row.updated_at), value: JSON.parse(String(row.value)) } : undefined;
+    },
+    set: async (key, entry) => { upsert.run(key, entry.updatedAt, JSON.stringify(entry.value)); },
+    delete: async (key) => { remove.run(key); },
+    keys: async (prefix) => selectKeys.all(prefix, prefix).map(row => String(row.key)),
+  };
+}
+
+/**
+ * Cache with per-resource TTL and stale-while-revalidate.
+ * Entries are kept in memory in front of the backend, concurrent loads of the same key are merged.
+ */
+function createCache(options: CacheOptions) {
+  const { backend, defaultTtl } = options;
+  const staleTime = options.staleTime ?? 0;
+  const memory = backend.name === "memory" ? backend : createMemoryBackend();
+  const loading = new Map<string, Promise<unknown>>();
+  const stats = new Map<string, { hits: number; stale_hits: number; misses: number }>();
+  const listeners = new Set<CacheChangeListener>();
+
+  function emitChange(change: CacheChange) {
+    for (const listener of listeners) {
+      try {
+        listener(change);
+      } catch (error) {
+        logger.error("Cache change listener failed", { resource: change.resource, key: change.key, error });
+      }
+    }
+  }
+
+  const getTtl = (resource: string) => options.ttl?.[resource] ?? defaultTtl;
+  const getStats = (resource: string) => {
+    if (!stats.has(resource)) stats.set(resource, { hits: 0, stale_hits: 0, misses: 0 });
+    return stats.get(resource)!;
+  };
+
+  async function peek<T>(resource: string, key: string): Promise<CacheEntry<T> | undefined> {
+    const fullKey = `${resource}/${key}`;
+    const cached = await memory.get(fullKey);
+    if (cached || memory === backend) return cached as CacheEntry<T> | undefined;
+    const stored = await backend.get(fullKey);
+    if (stored) await memory.set(fullKey, stored);
+    return stored as CacheEntry<T> | undefined;
+  }
+
+  /**
+   * Save value. Pass updatedAt of the replaced entry to change value without extending its lifetime.
+   */
+  async function set<T>(resource: string, key: string, value: T, updatedAt = Date.now()) {
+    const fullKey = `${resource}/${key}`;
+    const entry = { value, updatedAt };
+    const previous = await memory.get(fullKey);
+    await memory.set(fullKey, entry);
+    if (memory !== backend) await backend.set(fullKey, entry);
+    emitChange({ resource, key, value, previous: previous?.value });
+  }
+
+  function load<T>(resource: string, key: string, loader: (previous?: T) => Promise<T>, previous?: T): Promise<T> {
+    const fullKey = `${resource}/${key}`;
+    const running = loading.get(fullKey);
+    if (running) return running as Promise<T>;
+    const promise = (async () => {
+      try {
+        const value = await loader(previous);
+        await set(resource, key, value);
+        return value;
+      } finally {
+        loading.delete(fullKey);
+      }
+    })();
+    loading.set(fullKey, promise);
+    return promise;
+  }
+
+  /**
+   * Return cached value when fresh. Expired value within stale time is returned at once and refreshed in background.
+   * @param loader Loads the value, receives previous cached value for incremental refresh
+   */
+  async function getOrLoad<T>(resource: string, key: string, loader: (previous?: T) => Promise<T>, loadOptions: LoadOptions<T> = {}): Promise<T> {
+    const resourceStats = getStats(resource);
+    const entry = await peek<T>(resource, key);
+    const valid = entry && (!loadOptions.validate || loadOptions.validate(entry.value));
+    if (!entry || !valid || loadOptions.force) {
+      resourceStats.misses++;
+      logger.debug("Cache miss", { resource, key, force: loadOptions.force });
+      return load(resource, key, loader, valid ? entry?.value : undefined);
+    }
+    const age = (Date.now() - entry.updatedAt) / 1000;
+    const ttl = getTtl(resource);
+    if (age < ttl) {
+      resourceStats.hits++;
+      logger.debug("Cache hit", { resource, key });
+      return entry.value;
+    }
+    if (age < ttl + staleTime) {
+      resourceStats.stale_hits++;
+      logger.debug("Cache stale hit", { resource, key });
+      load(resource, key, loader, entry.value).catch(error => {
+        logger.error("Cache refresh failed", { resource, key, error });
+      });
+      return entry.value;
+    }
+    resourceStats.misses++;
+    logger.debug("Cache miss", { resource, key, expired: true });
+    return load(resource, key, loader, entry.value);
+  }
+
+  /**
+   * Delete one entry or all entries of the resource.
+   */
+  async function invalidate(resource: string, key?: string) {
+    const keys = key !== undefined
+      ? [`${resource}/${key}`]
+      : [...new Set([...await memory.keys(`${resource}/`), ...await backend.keys(`${resource}/`)])];
+    for (const fullKey of keys) {
+      const previous = await memory.get(fullKey);
+      await memory.delete(fullKey);
+      if (memory !== backend) await backend.delete(fullKey);
+      emitChange({ resource, key: fullKey.slice(resource.length + 1), previous: previous?.value });
+    }
+  }
+
+  async function status(resources: string[]): Promise<CacheResourceStatus[]> {
+    return Promise.all(resources.map(async resource => {
+      const keys = await backend.keys(`${resource}/`);
+      const ttl = getTtl(resource);
+      const updates: number[] = [];
+      for (const fullKey of keys) {
+        const entry = await peek(resource, fullKey.slice(resource.length + 1));
+        if (entry) updates.push(entry.updatedAt);
+      }
+      const now = Date.now();
+      const toIso = (time: number) => updates.length > 0 ? new Date(time).toISOString() : null;
+      return {
+        resource,
+        ttl,
+        entries: updates.length,
+        stale: updates.filter(time => (now - time) / 1000 >= ttl).length,
+        oldest_update: toIso(Math.min(...updates)),
+        newest_update: toIso(Math.max(...updates)),
+        ...getStats(resource),
+        refreshing: [...loading.keys()].filter(fullKey => fullKey.startsWith(`${resource}/`)).length,
+      };
+    }));
+  }
+
+  /**
+   * Listen to saved and invalidated entries.
+   * @returns Function that removes the listener
+   */
+  function onChange(listener: CacheChangeListener) {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+  }
+
+  return {
+    backend: backend.name,
+    onChange,
+    getOrLoad,
+    peek,
+    set,
+    invalidate,
+    status,
+  };
+}
+
+type Cache = ReturnType<typeof createCache>;
+
+export type { Cache, CacheBackend, CacheChange, CacheChangeListener, CacheEntry, CacheOptions, CacheResourceStatus, LoadOptions };
+
+export {
+  createCache,
+  createMemoryBackend,
+  createFileBackend,
+  createSqliteBackend,
+};
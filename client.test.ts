@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createClient, CscartApiError } from './client.js';
+
+function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+}
+
+describe('CS-Cart API client', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should send auth header and build query with arrays', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(200, { orders: [] }));
+    vi.stubGlobal('fetch', fetchMock);
+    const client = createClient({ shopUrl: 'https://shop.test/', email: 'a@b.c', apiKey: 'key' });
+    await client.get('/orders', { status: ['O', 'P'], page: 2, email: undefined });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://shop.test/api/2.0/orders?status%5B%5D=O&status%5B%5D=P&page=2');
+    expect(init.headers.Authorization).toBe(`Basic ${Buffer.from('a@b.c:key').toString('base64')}`);
+  });
+
+  it('should add vendor company_id to GET requests', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => jsonResponse(200, {}));
+    vi.stubGlobal('fetch', fetchMock);
+    const client = createClient({ shopUrl: 'https://shop.test', email: 'a', apiKey: 'k', companyId: 3 });
+    await client.get('/products', new URLSearchParams({ page: '1' }));
+    await client.put('/products/1', { price: 1 });
+    expect(fetchMock.mock.calls[0][0]).toBe('https://shop.test/api/2.0/products?page=1&company_id=3');
+    expect(fetchMock.mock.calls[1][0]).toBe('https://shop.test/api/2.0/products/1');
+  });
+
+  it('should retry on 429 and 5xx', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse(429, { message: 'Too many requests' }, { 'Retry-After': '0' }))
+      .mockResolvedValueOnce(jsonResponse(503, { message: 'Unavailable' }))
+      .mockResolvedValueOnce(jsonResponse(200, { product_id: 1 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const client = createClient({ shopUrl: 'https://shop.test', email: 'a', apiKey: 'k', retries: 2 });
+    const product = await client.get('/products/1');
+    expect(product).toEqual({ product_id: 1 });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not repeat POST and PUT after 5xx or network errors', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse(500, { message: 'Internal error' }))
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(jsonResponse(429, { message: 'Too many requests' }, { 'Retry-After': '0' }))
+      .mockResolvedValueOnce(jsonResponse(201, { product_id: 2 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const client = createClient({ shopUrl: 'https://shop.test', email: 'a', apiKey: 'k', retries: 2 });
+    expect((await client.post('/products', { product: 'A' }).catch(e => e)).status).toBe(500);
+    expect((await client.put('/products/1', { price: 1 }).catch(e => e)).status).toBe(0);
+    expect(await client.post('/products', { product: 'B' })).toEqual({ product_id: 2 });
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it('should throw CscartApiError with endpoint, status and body without retrying 404', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(404, { message: 'Product not found' }));
+    vi.stubGlobal('fetch', fetchMock);
+    const client = createClient({ shopUrl: 'https://shop.test', email: 'a', apiKey: 'k' });
+    const error = await client.get('/products/999').catch(e => e);
+    expect(error).toBeInstanceOf(CscartApiError);
+    expect(error.endpoint).toBe('/products/999');
+    expect(error.status).toBe(404);
+    expect(error.body).toEqual({ message: 'Product not found' });
+    expect(error.message).toContain('Product not found');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should cap concurrent requests', async () => {
+    let active = 0;
+    let maxActive = 0;
+    vi.stubGlobal('fetch', vi.fn(async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      active--;
+      return jsonResponse(200, {});
+    }));
+    const client = createClient({ shopUrl: 'https://shop.test', email: 'a', apiKey: 'k', concurrency: 2 });
+    await Promise.all(Array.from({ length: 10 }, (_, i) => client.get(`/features/${i}`)));
+    expect(maxActive).toBe(2);
+  });
+});
@@ -0,0 +1,192 @@
+import { logger } from "./logger.js";
+
+type QueryValue = string | number | boolean | undefined | null | (string | number)[];
+
+interface ClientConfig {
+  shopUrl: string;
+  email: string;
+  apiKey: string;
+  timeout?: number;
+  retries?: number;
+  concurrency?: number;
+  /** Vendor id, added as company_id to GET requests */
+  companyId?: number;
+}
+
+interface RequestOptions {
+  method?: "GET" | "POST" | "PUT" | "DELETE";
+  query?: Record<string, QueryValue> | URLSearchParams;
+  body?: unknown;
+}
+
+/**
+ * Error of the CS-Cart API request, carries endpoint, HTTP status and CS-Cart error body.
+ * Status is 0 for network errors and timeouts.
+ */
+class CscartApiError extends Error {
+  readonly method: string;
+  readonly endpoint: string;
+  readonly status: number;
+  readonly body: unknown;
+  readonly retryAfter: number;
+
+  constructor(method: string, endpoint: string, status: number, body: unknown, message: string, retryAfter = 0) {
+    super(`CS-Cart API ${method} ${endpoint} failed: ${status ? `${status} ` : ""}${message}`);
+    this.name = "CscartApiError";
+    this.method = method;
+    this.endpoint = endpoint;
+    this.status = status;
+    this.body = body;
+    this.retryAfter = retryAfter;
+  }
+}
+
+function toSearchParams(query: Record<string, QueryValue>): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === null || value === "") continue;
+    if (Array.isArray(value)) {
+      value.forEach(v => params.append(`${key}[]`, String(v)));
+    } else {
+      params.set(key, String(value));
+    }
+  }
+  return params;
+}
+
+// Defaults are added when the query has no such key
+function buildQuery(query?: Record<string, QueryValue> | URLSearchParams, defaults: Record<string, string> = {}): string {
+  const params = query instanceof URLSearchParams ? new URLSearchParams(query) : toSearchParams(query ?? {});
+  for (const [key, value] of Object.entries(defaults)) {
+    if (!params.has(key)) params.set(key, value);
+  }
+  return params.toString();
+}
+
+// CS-Cart returns errors as { message } or plain text
+function getErrorMessage(body: unknown, statusText: string): string {
+  if (body && typeof body === "object" && "message" in body) return String((body as { message?: unknown }).message);
+  if (typeof body === "string" && body.trim() !== "") return body.trim().slice(0, 500);
+  return statusText;
+}
+
+// 429 is rejected before processing, POST and PUT that failed later may be already applied and are not repeated
+function isRetryable(method: string, status: number): boolean {
+  if (status === 429) return true;
+  return (method === "GET" || method === "DELETE") && (status === 0 || status >= 500);
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Limit the number of simultaneously running tasks.
+ * @param concurrency Max running tasks
+ * @returns Function that runs a task when a slot is free
+ */
+function createLimiter(concurrency: number) {
+  let active = 0;
+  const queue: (() => void)[] = [];
+  return async function limit<T>(task: () => Promise<T>): Promise<T> {
+    if (active >= concurrency) {
+      // Slot is handed over by the finished task, active count stays the same
+      await new Promise<void>(resolve => queue.push(resolve));
+    } else {
+      active++;
+    }
+    try {
+      return await task();
+    } finally {
+      const next = queue.shift();
+      if (next) next();
+      else active--;
+    }
+  };
+}
+
+/**
+ * Create CS-Cart REST API v2.0 client with auth, timeouts, retries with backoff and concurrency cap.
+ * Requests are retried on 429, GET and DELETE also on network errors and 5xx.
+ * @param config Shop URL, credentials and request limits
+ */
+function createClient(config: ClientConfig) {
+  const token = Buffer.from(`${config.email}:${config.apiKey}`).toString("base64");
+  const baseUrl = `${config.shopUrl.replace(/\/+$/, "")}/api/2.0`;
+  const timeout = config.timeout ?? 30000;
+  const retries = config.retries ?? 3;
+  const limit = createLimiter(config.concurrency ?? 5);
+
+  async function send(method: string, endpoint: string, body: unknown): Promise<unknown> {
+    const started = Date.now();
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${endpoint}`, {
+        method,
+        headers: {
+          Authorization: `Basic ${token}`,
+          Accept: "application/json",
+          ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+        },
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+        signal: AbortSignal.timeout(timeout),
+      });
+    } catch (error) {
+      const err = error as Error;
+      const message = err.name === "TimeoutError" ? `timeout after ${timeout} ms` : err.message;
+      logger.warning("CS-Cart request failed", { method, endpoint, status: 0, duration_ms: Date.now() - started, error: message });
+      throw new CscartApiError(method, endpoint, 0, null, message);
+    }
+
+    const text = await response.text();
+    let data: unknown = text;
+    try {
+      data = text ? JSON.parse(text) : null;
+    } catch (err) {
+      // Not a JSON body, keep text
+    }
+    const fields = { method, endpoint, status: response.status, duration_ms: Date.now() - started };
+    if (response.ok) logger.debug("CS-Cart request", fields);
+    else logger.warning("CS-Cart request failed", fields);
+    if (!response.ok) {
+      const retryAfter = Number(response.headers.get("retry-after")) || 0;
+      throw new CscartApiError(method, endpoint, response.status, data, getErrorMessage(data, response.statusText), retryAfter);
+    }
+    return data;
+  }
+
+  async function request<T = any>(path: string, options: RequestOptions = {}): Promise<T> {
+    const method = options.method ?? "GET";
+    const query = buildQuery(options.query, method === "GET" && config.companyId ? { company_id: String(config.companyId) } : {});
+    const endpoint = query ? `${path}?${query}` : path;
+
+    return limit(async () => {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          return (await send(method, endpoint, options.body)) as T;
+        } catch (error) {
+          const apiError = error as CscartApiError;
+          if (attempt >= retries || !isRetryable(method, apiError.status)) throw apiError;
+          const backoff = apiError.retryAfter ? apiError.retryAfter * 1000 : 500 * 2 ** attempt;
+          await sleep(Math.min(backoff, 30000));
+        }
+      }
+    });
+  }
+
+  return {
+    request,
+    get: <T = any>(path: string, query?: RequestOptions["query"]) => request<T>(path, { query }),
+    post: <T = any>(path: string, body: unknown) => request<T>(path, { method: "POST", body }),
+    put: <T = any>(path: string, body: unknown) => request<T>(path, { method: "PUT", body }),
+  };
+}
+
+type CscartClient = ReturnType<typeof createClient>;
+
+export type { ClientConfig, CscartClient, RequestOptions };
+
+export {
+  createClient,
+  CscartApiError,
+};
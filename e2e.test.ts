@@ -0,0 +1,434 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { LoggingMessageNotificationSchema, ResourceListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { CallToolResult, LoggingMessageNotification } from '@modelcontextprotocol/sdk/types.js';
+import { startMockServer } from './mock-server.js';
+import type { MockServer } from './mock-server.js';
+
+// Every tool is called through the MCP protocol against the mock CS-Cart API, the client validates structured output by outputSchema
+let mock: MockServer;
+let client: Client;
+let dir: string;
+
+async function callTool(name: string, args: Record<string, unknown> = {}): Promise<CallToolResult> {
+  return await client.callTool({ name, arguments: args }) as CallToolResult;
+}
+
+function getText(result: CallToolResult): string {
+  return (result.content?.[0] as { text: string }).text;
+}
+
+// Structured content of the successful call
+async function call(name: string, args: Record<string, unknown> = {}): Promise<any> {
+  const result = await callTool(name, args);
+  if (result.isError) throw new Error(getText(result));
+  return result.structuredContent;
+}
+
+beforeAll(async () => {
+  mock = await startMockServer();
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cscart-e2e-'));
+  const storesFile = path.join(dir, 'stores.json');
+  await fs.writeFile(storesFile, JSON.stringify({
+    stores: [
+      { name: 'main', shopUrl: mock.url, email: mock.email, apiKey: mock.apiKey, allowWrites: true },
+      { name: 'wrong_key', shopUrl: mock.url, email: mock.email, apiKey: 'wrong' },
+      { name: 'second', shopUrl: mock.url, email: mock.email, apiKey: mock.apiKey },
+    ],
+  }));
+  await fs.mkdir(path.join(dir, 'imports'));
+  const policyFile = path.join(dir, 'write-policy.json');
+  await fs.writeFile(policyFile, JSON.stringify({ fields: { cscart_update_product: ['price', 'amount', 'status', 'feature:*'] } }));
+  // API settings are read on import
+  Object.assign(process.env, {
+    CSCART_STORES_FILE: storesFile,
+    CSCART_CACHE_BACKEND: 'memory',
+    CSCART_REQUEST_RETRIES: '1',
+    CSCART_EXPORT_DIR: path.join(dir, 'exports'),
+    CSCART_IMPORT_DIR: path.join(dir, 'imports'),
+    CSCART_LOG_LEVEL: 'critical',
+    CSCART_DATA_DIR: dir,
+    CSCART_WRITE_POLICY_FILE: policyFile,
+  });
+  const { createServer } = await import('./index.js');
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createServer().connect(serverTransport);
+  client = new Client({ name: 'cscart-e2e', version: '1.0.0' });
+  await client.connect(clientTransport);
+  // Output schemas are cached by the client for validation
+  await client.listTools();
+});
+
+afterAll(async () => {
+  await client?.close();
+  await mock?.close();
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('MCP server with mock CS-Cart API', () => {
+  it('should list read and write tools with the store argument', async () => {
+    const { tools } = await client.listTools();
+    expect(tools.map(t => t.name)).toHaveLength(24);
+    expect(tools.map(t => t.name)).toContain('cscart_update_order');
+    expect(tools.find(t => t.name === 'cscart_get_product')?.inputSchema.properties).toHaveProperty('store');
+    for (const tool of tools) {
+      expect(tool.annotations, tool.name).toEqual({ readOnlyHint: expect.any(Boolean), destructiveHint: expect.any(Boolean) });
+    }
+    expect(tools.find(t => t.name === 'cscart_get_order')?.annotations).toEqual({ readOnlyHint: true, destructiveHint: false });
+    expect(tools.find(t => t.name === 'cscart_update_order')?.annotations).toEqual({ readOnlyHint: false, destructiveHint: true });
+  });
+
+  it('cscart_list_stores should list stores without credentials', async () => {
+    const { stores } = await call('cscart_list_stores');
+    expect(stores.map((s: any) => [s.name, s.allow_writes, s.default])).toEqual([['main', true, true], ['wrong_key', false, false], ['second', false, false]]);
+    expect(JSON.stringify(stores)).not.toContain(mock.apiKey);
+  });
+
+  it('should notify resource list changes of the default store cache only', async () => {
+    let notified = 0;
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, () => { notified++; });
+    await call('cscart_get_products', { store: 'second' });
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(notified).toBe(0);
+    await call('cscart_get_products', {});
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(notified).toBe(1);
+  });
+
+  it('cscart_get_product should return product with feature names and category paths', async () => {
+    const product = await call('cscart_get_product', { productId: 1221 });
+    expect(product).toMatchObject({ product_id: 1221, product_code: '24SMI', price: 499 });
+    expect(product.product_features).toEqual(expect.arrayContaining([{ Brand: 'Acme' }, { Color: 'Black' }, { Warranty: '' }]));
+    expect(product.categories).toEqual([{ category_id: 2, category: 'Smartphones', path: 'Electronics / Smartphones' }]);
+    expect(product.options[0].variants.map((v: any) => [v.variant_name, v.price])).toEqual([['No', 499], ['Yes', 548.9]]);
+    expect(product.variation_group.products.map((p: any) => [p.product_id, p.features.Color, p.is_main, p.is_current])).toEqual([
+      [1221, 'Black', true, true],
+      [1222, 'White', false, false],
+    ]);
+  });
+
+  it('cscart_get_product should return product without options only when the options API is missing', async () => {
+    mock.fail({ status: 404, path: '/options' });
+    mock.fail({ status: 404, path: '/combinations' });
+    const product = await call('cscart_get_product', { productId: 1221 });
+    expect(product).toMatchObject({ product_id: 1221, options: [], combinations: [] });
+    expect(product.variation_group.products).toHaveLength(2);
+
+    mock.fail({ status: 500, path: '/options', times: 2 });
+    const result = await callTool('cscart_get_product', { productId: 1221 });
+    expect(result.isError).toBe(true);
+    expect(getText(result)).toContain('CS-Cart API GET /options?product_id=1221 failed: 500');
+  });
+
+  it('cscart_get_product_options should return combinations stock with option names and prices', async () => {
+    const result = await call('cscart_get_product_options', { productId: 1225 });
+    expect(result.options).toEqual([expect.objectContaining({ option_name: 'Color', required: true, inventory: true })]);
+    expect(result.combinations).toEqual([
+      { combination_hash: '3364229142', product_code: 'CASE-01-BLK', amount: 4, options: { Color: 'Black' }, price: 0 },
+      { combination_hash: '1828307487', product_code: 'CASE-01-RED', amount: 36, options: { Color: 'Red' }, price: 2.5 },
+    ]);
+    expect(result.variation_group).toBeNull();
+  });
+
+  it('cscart_get_products should page the cached products list', async () => {
+    const result = await call('cscart_get_products', { page: 2, limit: 2, fields: ['product_code'] });
+    expect(result).toEqual({ products: [{ product_id: 1223, product_code: 'MON-27' }, { product_id: 1224, product_code: 'CBL-USBC' }], total: 5, page: 2, limit: 2 });
+  });
+
+  it('cscart_get_features should return features with variants', async () => {
+    const { features } = await call('cscart_get_features');
+    expect(features.map((f: any) => f.description)).toEqual(['Brand', 'Color', 'Connectivity', 'Warranty', 'Waterproof']);
+    expect(Object.values(features[1].variants).map((v: any) => v.variant)).toEqual(['Black', 'White', 'Red']);
+  });
+
+  it('cscart_search_products should filter by name, category and features', async () => {
+    expect((await call('cscart_search_products', { name: '24SMI' })).products.map((p: any) => p.product_id)).toEqual([1221]);
+    const inCategory = await call('cscart_search_products', { categoryId: 1, sortBy: 'price', sortOrder: 'desc' });
+    expect(inCategory.products.map((p: any) => p.product_id)).toEqual([1221, 1223, 1222, 1225]);
+    const byFeature = await call('cscart_search_products', { features: [{ name: 'Color', value: 'Black' }, { name: 'Warranty', from: 30 }] });
+    expect(byFeature).toMatchObject({ total: 1, complete: true, scanned: 5 });
+    expect(byFeature.products[0].product_id).toBe(1223);
+  });
+
+  it('cscart_export_products should write CSV with feature columns', async () => {
+    const result = await call('cscart_export_products', { columns: ['product_code', 'price', 'feature:Brand'], filename: 'products.csv' });
+    expect(result).toMatchObject({ format: 'csv', count: 5, total: 5 });
+    const lines = (await fs.readFile(result.path, 'utf-8')).trim().split('\n');
+    expect(lines.slice(0, 2)).toEqual(['product_code,price,feature:Brand', '24SMI,499,Acme']);
+  });
+
+  it('cscart_audit_products should report zero prices and missing images', async () => {
+    mock.requests.length = 0;
+    const result = await callTool('cscart_audit_products', { checks: ['zero_price', 'missing_image'] });
+    expect(result.structuredContent).toMatchObject({ scanned: 5, counts: { zero_price: 1, missing_image: 1 } });
+    expect(mock.count('GET', '/products/*/features')).toBe(5);
+    expect(getText(result)).toContain('| 1225 | CASE-01 | Phone Case | Price is zero |');
+  });
+
+  it('cscart_get_inventory should flag low stock of products and option combinations', async () => {
+    const result = await call('cscart_get_inventory', { lowStockOnly: true, includeCombinations: true, salesDays: 0 });
+    expect(result).toMatchObject({ total: 5, low_stock: 3, orders_analyzed: 0 });
+    expect(result.items.map((i: any) => [i.product_id, i.amount])).toEqual([[1223, 0], [1222, 3], [1225, 40]]);
+
+    const cases = await call('cscart_get_inventory', { code: 'CASE', includeCombinations: true, salesDays: 0 });
+    expect(cases.items[0]).toMatchObject({ product_id: 1225, low_stock: true, combinations: [{ product_code: 'CASE-01-BLK', amount: 4, low_stock: true }, { product_code: 'CASE-01-RED', amount: 36, low_stock: false }] });
+  });
+
+  it('cscart_get_categories and cscart_get_category should build the tree and paths', async () => {
+    const { categories } = await call('cscart_get_categories');
+    expect(categories.map((c: any) => [c.category, c.children.length])).toEqual([['Electronics', 2], ['Accessories', 0]]);
+    const category = await call('cscart_get_category', { categoryId: 1 });
+    expect(category).toMatchObject({ category: 'Electronics', path: 'Electronics', children: [{ category_id: 2 }, { category_id: 3 }] });
+  });
+
+  it('cscart_get_order should render the order message', async () => {
+    const result = await callTool('cscart_get_order', { orderId: 100 });
+    expect(result.structuredContent).toMatchObject({ format: 'markdown', order: { order_id: 100, status: 'P' } });
+    expect(getText(result)).toContain('**Order #100** – $998.00');
+    expect(getText(result)).toContain('Status: Processed');
+  });
+
+  it('cscart_search_orders should filter orders and return summaries', async () => {
+    const { orders } = await call('cscart_search_orders', { email: 'ivan@example.com', status: ['P', 'O'] });
+    expect(orders.map((o: any) => [o.order_id, o.status, o.total])).toEqual([[102, 'O', 9.9], [100, 'P', 998]]);
+    const byDate = await call('cscart_search_orders', { createdFrom: '2025-10-17', createdTo: '2025-10-18', productId: 1224 });
+    expect(byDate.orders.map((o: any) => o.order_id)).toEqual([102, 101]);
+  });
+
+  it('cscart_search_users and cscart_get_user should find customers', async () => {
+    expect(await call('cscart_search_users', { email: 'anna@' })).toMatchObject({ total: 1, users: [{ user_id: 6, lastname: 'Smith' }] });
+    expect(await call('cscart_get_user', { userId: 5 })).toMatchObject({ user_id: 5, email: 'ivan@example.com' });
+  });
+
+  it('cscart_get_customer_history should skip canceled orders in lifetime value', async () => {
+    const history = await call('cscart_get_customer_history', { userId: 5 });
+    expect(history).toMatchObject({ order_count: 1, orders_analyzed: 2, lifetime_value: 998, statuses: { P: 1, I: 1 } });
+    expect(history.top_products[0]).toMatchObject({ product_id: 1221, quantity: 2 });
+  });
+
+  it('cscart_sales_report should aggregate revenue of the period', async () => {
+    const result = await callTool('cscart_sales_report', { from: '2025-10-01', to: '2025-10-31', period: 'month' });
+    expect(result.structuredContent).toMatchObject({ revenue: 1336.6, order_count: 3, orders_analyzed: 4, truncated: false });
+    expect((result.structuredContent as any).by_period).toEqual([{ key: '2025-10', orders: 3, revenue: 1336.6 }]);
+  });
+
+  it('cscart_refresh_cache and cscart_cache_status should report cached resources', async () => {
+    const refreshed = await call('cscart_refresh_cache', { resources: ['categories'] });
+    expect(refreshed.resources).toEqual([expect.objectContaining({ resource: 'categories', entries: 1 })]);
+    const status = await call('cscart_cache_status');
+    expect(status.backend).toBe('memory');
+    expect(status.resources.find((r: any) => r.resource === 'products')).toMatchObject({ entries: 1 });
+  });
+
+  it('should send log messages of the tool call after logging/setLevel', async () => {
+    const messages: LoggingMessageNotification['params'][] = [];
+    client.setNotificationHandler(LoggingMessageNotificationSchema, notification => { messages.push(notification.params); });
+    await call('cscart_get_order', { orderId: 100 });
+    expect(messages).toEqual([]);
+
+    await client.setLoggingLevel('debug');
+    await call('cscart_get_order', { orderId: 100 });
+    const entries = messages.map(m => m.data as any);
+    expect(entries.map(e => e.msg)).toEqual(expect.arrayContaining(['Tool call', 'CS-Cart request', 'Cache hit', 'Tool call finished']));
+    expect(new Set(entries.map(e => e.request_id)).size).toBe(1);
+    expect(entries.find(e => e.msg === 'CS-Cart request')).toMatchObject({ method: 'GET', status: 200, duration_ms: expect.any(Number) });
+    expect(JSON.stringify(entries)).not.toMatch(/@example\.com/);
+
+    await client.setLoggingLevel('warning');
+    messages.length = 0;
+    await call('cscart_get_order', { orderId: 100 });
+    expect(messages).toEqual([]);
+  });
+});
+
+describe('Cache with mock CS-Cart API', () => {
+  it('getFeatures should load features and variants once until refreshed', async () => {
+    await call('cscart_refresh_cache', { resources: ['features', 'feature_variants'] });
+    mock.requests.length = 0;
+    await call('cscart_get_features');
+    await call('cscart_get_features');
+    expect(mock.count('GET', '/features')).toBe(0);
+    expect(mock.count('GET', '/features/*')).toBe(0);
+
+    await call('cscart_refresh_cache', { resources: ['features'] });
+    expect(mock.count('GET', '/features')).toBe(1);
+    expect(mock.count('GET', '/features/*')).toBe(0);
+    await call('cscart_refresh_cache', { resources: ['feature_variants'] });
+    expect(mock.count('GET', '/features/*')).toBe(5);
+  });
+
+  it('getProducts should serve the list from the cache and refresh it incrementally', async () => {
+    mock.requests.length = 0;
+    await call('cscart_get_products');
+    await call('cscart_get_inventory', { salesDays: 0 });
+    expect(mock.count('GET', '/products')).toBe(0);
+
+    mock.fixtures.products[0].amount = '7';
+    mock.fixtures.products[0].updated_timestamp = '1760009999';
+    await call('cscart_refresh_cache', { resources: ['products'] });
+    const [request] = mock.requests.filter(r => r.path === '/products');
+    expect(request.query.get('sort_by')).toBe('updated_timestamp');
+    expect((await call('cscart_get_products', { fields: ['amount'] })).products.find((p: any) => p.product_id === 1221).amount).toBe(7);
+  });
+
+  it('getProducts should walk all pages on the full reload', async () => {
+    const generated = Array.from({ length: 300 }, (_, i) => ({ product_id: `${2000 + i}`, product: `Generated ${i}`, product_code: `GEN-${i}`, price: '1.00', amount: '1', status: 'A' }));
+    mock.fixtures.products.push(...generated);
+    try {
+      mock.requests.length = 0;
+      await call('cscart_refresh_cache', { resources: ['products'], full: true });
+      expect(mock.requests.filter(r => r.path === '/products').map(r => r.query.get('page'))).toEqual(['1', '2']);
+      expect((await call('cscart_get_products')).total).toBe(305);
+    } finally {
+      mock.fixtures.products.splice(-generated.length);
+      await call('cscart_refresh_cache', { resources: ['products'], full: true });
+    }
+  });
+});
+
+describe('Errors of mock CS-Cart API', () => {
+  it('should return 401 for wrong credentials', async () => {
+    const result = await callTool('cscart_get_order', { orderId: 100, store: 'wrong_key' });
+    expect(result.isError).toBe(true);
+    expect(getText(result)).toContain('failed: 401 Unauthorized');
+  });
+
+  it('should return 404 for unknown entities', async () => {
+    const result = await callTool('cscart_get_order', { orderId: 999 });
+    expect(result.isError).toBe(true);
+    expect(getText(result)).toContain('CS-Cart API GET /orders/999 failed: 404 Order not found');
+  });
+
+  it('should retry 429 and fail after retries on 500', async () => {
+    mock.requests.length = 0;
+    mock.fail({ status: 429, path: '/users/', retryAfter: 0 });
+    expect(await call('cscart_get_user', { userId: 6 })).toMatchObject({ user_id: 6 });
+    expect(mock.count('GET', '/users/6')).toBe(2);
+
+    mock.fail({ status: 500, path: '/users/', times: 2 });
+    const result = await callTool('cscart_get_user', { userId: 6 });
+    expect(result.isError).toBe(true);
+    expect(getText(result)).toContain('failed: 500 Internal Server Error');
+  });
+});
+
+describe('Write tools with mock CS-Cart API', () => {
+  it('cscart_update_product should save fields and features and refresh caches', async () => {
+    mock.requests.length = 0;
+    const product = await call('cscart_update_product', { productId: 1222, price: 279, features: { Color: 'Red', Connectivity: ['Wi-Fi', 'Bluetooth'] } });
+    expect(product).toMatchObject({ product_id: 1222, price: 279 });
+    expect(product.product_features).toContainEqual({ Color: 'Red' });
+    expect(mock.requests.find(r => r.method === 'PUT')?.body).toEqual({ price: 279, product_features: { 2: '22', 3: { 30: '30', 31: '31' } } });
+    // Products list entry is replaced without reloading the list
+    expect((await call('cscart_get_products', { fields: ['price'] })).products.find((p: any) => p.product_id === 1222).price).toBe(279);
+    expect(mock.count('GET', '/products')).toBe(0);
+  });
+
+  it('write tools should return the requests and changed fields on dry run', async () => {
+    mock.requests.length = 0;
+    const product = await call('cscart_update_product', { productId: 1221, price: 199, amount: 7, dryRun: true });
+    expect(product).toEqual({
+      dry_run: true,
+      requests: [{ method: 'PUT', path: '/products/1221', body: { price: 199, amount: 7 } }],
+      changes: [{ field: 'price', from: 499, to: 199 }],
+    });
+    const order = await call('cscart_update_order', { orderId: 101, status: 'I', trackingNumber: 'TRK2', dryRun: true });
+    expect(order.requests.map((r: any) => `${r.method} ${r.path}`)).toEqual(['PUT /orders/101', 'PUT /shipments/1']);
+    expect(order.changes).toEqual([{ field: 'status', from: 'C', to: 'I' }, { field: 'tracking_number', from: '1Z999AA10123456784', to: 'TRK2' }]);
+    expect(mock.requests.filter(r => r.method !== 'GET')).toEqual([]);
+  });
+
+  it('write policy should reject fields out of the allow-list', async () => {
+    const result = await callTool('cscart_update_product', { productId: 1221, name: 'Renamed', dryRun: true });
+    expect(result.isError).toBe(true);
+    expect(getText(result)).toContain('Fields are not allowed for cscart_update_product by the write policy: product');
+  });
+
+  it('cscart_create_product should create product in the categories', async () => {
+    const product = await call('cscart_create_product', { name: 'Screen Protector', price: 5, productCode: 'SP-1', categoryIds: [4], features: { Brand: 'Acme' } });
+    expect(product).toMatchObject({ product_id: 1226, product: 'Screen Protector', main_category: 4 });
+    expect(product.product_features).toEqual([{ Brand: 'Acme' }]);
+  });
+
+  it('cscart_import_products should apply the dry run with the token', async () => {
+    const dryRun = await call('cscart_import_products', { content: 'sku;price;stock\nCBL-USBC;8,50;150\nMON-27;329;0\nNOPE;1;1' });
+    expect(dryRun.summary).toEqual({ rows: 3, update: 2, not_found: 1 });
+    expect(dryRun.rows[0].changes).toEqual([{ field: 'price', from: 9.9, to: 8.5 }]);
+    const applied = await call('cscart_import_products', { confirm: dryRun.token });
+    expect(applied).toMatchObject({ dry_run: false, summary: { updated: 2 } });
+    expect(mock.fixtures.products.find(p => p.product_id === '1224')?.price).toBe(8.5);
+    // Rows saved in parallel keep each other's refreshed entries in the products cache
+    const { products } = await call('cscart_get_products', { fields: ['price'] });
+    expect([1223, 1224].map(id => products.find((p: any) => p.product_id === id).price)).toEqual([329, 8.5]);
+  });
+
+  it('cscart_update_order should change status, append notes and add tracking', async () => {
+    const result = await call('cscart_update_order', { orderId: 100, status: 'c', staffNote: 'Shipped', trackingNumber: 'TRK1', carrier: 'dhl' });
+    expect(result.before).toMatchObject({ status: 'P', status_description: 'Processed', tracking: [] });
+    expect(result.after).toMatchObject({ status: 'C', status_description: 'Complete', staff_notes: 'Shipped', tracking: [{ tracking_number: 'TRK1', carrier: 'dhl' }] });
+    expect(mock.fixtures.shipments.find(s => s.order_id === 100)).toMatchObject({ shipping_id: '1', products: { 3001: 2 } });
+  });
+
+  it('cscart_update_order should report applied requests when a later request fails', async () => {
+    mock.fail({ status: 500, path: '/shipments', method: 'POST' });
+    const result = await call('cscart_update_order', { orderId: 102, status: 'P', trackingNumber: 'TRK3' });
+    expect(result.applied.map((r: any) => `${r.method} ${r.path}`)).toEqual(['PUT /orders/102']);
+    expect(result.error).toContain('POST /shipments failed: 500');
+    expect(result.after).toMatchObject({ status: 'P', tracking: [] });
+    const { entries } = await call('cscart_audit_log', { entity: 'order', entityId: 102 });
+    expect(entries[0].changes.map((c: any) => c.field)).toEqual(['status']);
+  });
+
+  it('cscart_audit_log should list applied changes, newest first', async () => {
+    const { entries, total } = await call('cscart_audit_log', { entity: 'product' });
+    expect(total).toBe(4);
+    // Import rows are saved in parallel
+    expect(entries.slice(0, 2).map((e: any) => [e.tool, e.entity_id]).sort()).toEqual([
+      ['cscart_import_products', 1223],
+      ['cscart_import_products', 1224],
+    ]);
+    expect(entries.slice(2).map((e: any) => [e.tool, e.entity_id])).toEqual([
+      ['cscart_create_product', 1226],
+      ['cscart_update_product', 1222],
+    ]);
+    expect(entries[3]).toMatchObject({ store: 'main', user: null, request_id: expect.any(String), changes: [{ field: 'price', from: 299, to: 279 }, expect.anything(), expect.anything()] });
+    const orders = await call('cscart_audit_log', { entity: 'order', entityId: 100 });
+    expect(orders.entries[0].requests.map((r: any) => `${r.method} ${r.path}`)).toEqual(['PUT /orders/100', 'POST /shipments']);
+    expect((await call('cscart_audit_log', { from: '2000-01-01', to: '2000-12-31' })).total).toBe(0);
+  });
+});
+
+describe('Order watcher with mock CS-Cart API', () => {
+  it('should notify clients and sinks about new orders and status changes', async () => {
+    const { createOrderWatcher, createFileSink } = await import('./watcher.js');
+    const file = path.join(dir, 'orders.jsonl');
+    const watcher = createOrderWatcher({ interval: 60, stores: ['main'], sinks: [], stateFile: path.join(dir, 'order-watcher.json'), file }, [createFileSink(file)]);
+    const messages: LoggingMessageNotification['params'][] = [];
+    client.setNotificationHandler(LoggingMessageNotificationSchema, notification => { messages.push(notification.params); });
+    await client.setLoggingLevel('notice');
+
+    expect(await watcher.poll()).toBe(0);
+    const [first] = mock.fixtures.orders;
+    // Orders changed by the previous tests are updated now
+    const now = String(Math.floor(Date.now() / 1000) + 60);
+    mock.fixtures.orders.push({ ...first, order_id: '104', status: 'O', timestamp: now, updated_at: now });
+    const { updated_at } = mock.fixtures.orders[1];
+    Object.assign(mock.fixtures.orders[1], { status: 'P', updated_at: now });
+    try {
+      expect(await watcher.poll()).toBe(2);
+    } finally {
+      mock.fixtures.orders.pop();
+      Object.assign(mock.fixtures.orders[1], { status: 'C', updated_at });
+    }
+
+    const events = (await fs.readFile(file, 'utf-8')).trim().split('\n').map(line => JSON.parse(line));
+    expect(events.map(e => [e.type, e.order_id, e.status, e.previous_status])).toEqual([['status_changed', 101, 'P', 'C'], ['new', 104, 'O', undefined]]);
+    expect(events[1]).toMatchObject({ store: 'main', format: 'markdown', message: expect.stringContaining('104') });
+    const notified = messages.filter(m => m.logger === 'cscart.orders');
+    expect(notified.map(m => [m.level, (m.data as any).order_id])).toEqual([['notice', 101], ['notice', 104]]);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { CategorySchema, ProductSchema } from './schemas.js';
+import {
+  getExportPreview,
+  getFeatureColumns,
+  renderExport,
+  writeExportFile,
+} from './exports.js';
+import type { ExportOptions, ExportProduct } from './exports.js';
+
+const products: ExportProduct[] = [
+  {
+    ...ProductSchema.parse({
+      product_id: 1, product: 'Cup, "large"', product_code: 'CUP-1', price: 8, list_price: 10, amount: 3, main_category: 5,
+      full_description: '<p>White&nbsp;cup</p>',
+      main_pair: { detailed: { https_image_path: 'https://shop.test/images/cup.jpg' } },
+    }),
+    product_features: [{ Brand: 'Acme' }, { Color: ['White', 'Blue'] }],
+    categories: [{ category_id: 5, category: 'Cups', path: 'Kitchen / Cups' }],
+  },
+  {
+    ...ProductSchema.parse({ product_id: 2, product: 'Tea <green>', product_code: 'TEA', price: 4, amount: 0, main_category: 6 }),
+    product_features: [{ Weight: 100 }],
+  },
+];
+
+const options: ExportOptions = {
+  columns: ['product_id', 'product', 'price', 'url', 'categories', 'feature:Color'],
+  productUrl: product => `https://shop.test/p/${product.product_id}`,
+  title: 'shop.test',
+  shopUrl: 'https://shop.test',
+  currency: 'USD',
+  brandFeature: 'Brand',
+  categories: [
+    CategorySchema.parse({ category_id: 4, category: 'Kitchen' }),
+    CategorySchema.parse({ category_id: 5, parent_id: 4, category: 'Cups' }),
+  ],
+  date: new Date('2024-05-06T10:20:30Z'),
+};
+
+describe('Products export', () => {
+  it('should collect feature columns in order of appearance', () => {
+    expect(getFeatureColumns(products)).toEqual(['feature:Brand', 'feature:Color', 'feature:Weight']);
+  });
+
+  it('should render CSV with escaped values and flattened features', () => {
+    const csv = renderExport(products, 'csv', options);
+    expect(csv.split('\n')).toEqual([
+      'product_id,product,price,url,categories,feature:Color',
+      '1,"Cup, ""large""",8,https://shop.test/p/1,Kitchen / Cups,"White, Blue"',
+      '2,Tea <green>,4,https://shop.test/p/2,,',
+      '',
+    ]);
+  });
+
+  it('should render JSON lines keeping value types', () => {
+    const lines = renderExport(products, 'jsonl', options).trim().split('\n').map(line => JSON.parse(line));
+    expect(lines[0]).toEqual({
+      product_id: 1, product: 'Cup, "large"', price: 8, url: 'https://shop.test/p/1', categories: 'Kitchen / Cups', 'feature:Color': ['White', 'Blue'],
+    });
+  });
+
+  it('should render Google Merchant feed with sale price, availability and brand', () => {
+    const xml = renderExport(products, 'google_merchant', options);
+    expect(xml).toContain('<rss version="2.0" xmlns:g="http://base.google.com/ns/1.0">');
+    expect(xml).toContain('<g:id>CUP-1</g:id>');
+    expect(xml).toContain('<g:title>Cup, &quot;large&quot;</g:title>');
+    expect(xml).toContain('<g:description>White cup</g:description>');
+    expect(xml).toContain('<g:price>10.00 USD</g:price>');
+    expect(xml).toContain('<g:sale_price>8.00 USD</g:sale_price>');
+    expect(xml).toContain('<g:brand>Acme</g:brand>');
+    expect(xml).toContain('<g:product_type>Kitchen &gt; Cups</g:product_type>');
+    expect(xml).toContain('<g:image_link>https://shop.test/images/cup.jpg</g:image_link>');
+    expect(xml).toContain('<g:title>Tea &lt;green&gt;</g:title>');
+    expect(xml).toContain('<g:availability>out_of_stock</g:availability>');
+    expect(() => renderExport(products, 'google_merchant', { ...options, currency: '' })).toThrow('currency is unknown');
+  });
+
+  it('should render YML feed with categories, offers and feature params', () => {
+    const xml = renderExport(products, 'yml', options);
+    expect(xml).toContain('<yml_catalog date="2024-05-06T10:20">');
+    expect(xml).toContain('<category id="5" parentId="4">Cups</category>');
+    expect(xml).toContain('<offer id="1" available="true">');
+    expect(xml).toContain('<oldprice>10</oldprice>');
+    expect(xml).toContain('<vendor>Acme</vendor>');
+    expect(xml).toContain('<param name="Color">White, Blue</param>');
+    expect(xml).not.toContain('<param name="Brand">');
+    expect(xml).toContain('<offer id="2" available="false">');
+  });
+
+  it('should write files only into the export directory and preview first lines', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cscart-export-'));
+    try {
+      const content = Array.from({ length: 20 }, (_, i) => `line ${i}`).join('\n');
+      const file = await writeExportFile(dir, 'products.csv', content);
+      expect(file).toBe(path.join(dir, 'products.csv'));
+      expect(await fs.readFile(file, 'utf-8')).toBe(content);
+      await expect(writeExportFile(dir, '../products.csv', content)).rejects.toThrow('Invalid export file name');
+      expect(getExportPreview(content).split('\n')).toHaveLength(11);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,291 @@
+import path from "path";
+import { promises as fs } from "fs";
+import type { Category, Product, ProductWithFeatures } from "./schemas.js";
+import { getDataDir } from "./stores.js";
+
+const EXPORT_FORMATS = ["csv", "jsonl", "google_merchant", "yml"] as const;
+type ExportFormat = typeof EXPORT_FORMATS[number];
+
+const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  csv: "csv",
+  jsonl: "jsonl",
+  google_merchant: "xml",
+  yml: "xml",
+};
+
+const DEFAULT_EXPORT_COLUMNS = ["product_id", "product_code", "product", "price", "list_price", "amount", "status", "url"];
+const FEATURE_COLUMN_PREFIX = "feature:";
+const PREVIEW_LINES = 10;
+const PREVIEW_MAX_LENGTH = 3000;
+// Google Merchant limit of the description length
+const FEED_DESCRIPTION_MAX_LENGTH = 5000;
+
+/** Product from the search, with feature values and categories when loaded by getProduct */
+type ExportProduct = Product & Partial<Pick<ProductWithFeatures, "product_features" | "categories">>;
+
+interface ExportOptions {
+  /** CSV and JSONL columns: product fields, `url`, `image_url`, `categories` and `feature:<name>` */
+  columns: string[];
+  productUrl: (product: Product) => string;
+  /** Feed title, shop name in YML */
+  title: string;
+  shopUrl: string;
+  /** Currency code of feed prices */
+  currency: string;
+  /** Feature with the product brand, `g:brand` and `vendor` of feeds */
+  brandFeature?: string;
+  /** Categories of the YML feed */
+  categories?: Category[];
+  date?: Date;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (Array.isArray(value)) return value.map(formatValue).join(", ");
+  if (typeof value === "object") return JSON.stringify(value);
+  return `${value}`;
+}
+
+/**
+ * Feature values of the product by feature name, from `product_features` of getProduct.
+ */
+function flattenFeatures(product: ExportProduct): Record<string, unknown> {
+  return Object.assign({}, ...(product.product_features ?? []));
+}
+
+/**
+ * `feature:<name>` columns of all features of the products, in order of appearance.
+ */
+function getFeatureColumns(products: ExportProduct[]): string[] {
+  const names = new Set(products.flatMap(product => Object.keys(flattenFeatures(product))));
+  return [...names].map(name => `${FEATURE_COLUMN_PREFIX}${name}`);
+}
+
+function getImageUrl(product: Product): string {
+  const pair = product.main_pair as { detailed?: { https_image_path?: string; image_path?: string } } | undefined;
+  return pair?.detailed?.https_image_path || pair?.detailed?.image_path || "";
+}
+
+function getCategoryPaths(product: ExportProduct): string[] {
+  return (product.categories ?? []).map(category => category.path || category.category);
+}
+
+function getExportRow(product: ExportProduct, options: Pick<ExportOptions, "columns" | "productUrl">): Record<string, unknown> {
+  const features = flattenFeatures(product);
+  return Object.fromEntries(options.columns.map(column => {
+    if (column.startsWith(FEATURE_COLUMN_PREFIX)) return [column, features[column.slice(FEATURE_COLUMN_PREFIX.length)] ?? ""];
+    if (column === "url") return [column, options.productUrl(product)];
+    if (column === "image_url") return [column, getImageUrl(product)];
+    if (column === "categories") return [column, getCategoryPaths(product).join("; ")];
+    return [column, product[column] ?? ""];
+  }));
+}
+
+function escapeCsv(value: unknown): string {
+  const text = formatValue(value);
+  return /[",\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(rows: Record<string, unknown>[], columns: string[]): string {
+  const lines = [columns, ...rows.map(row => columns.map(column => row[column]))];
+  return lines.map(values => values.map(escapeCsv).join(",")).join("\n") + "\n";
+}
+
+function toJsonl(rows: Record<string, unknown>[]): string {
+  return rows.map(row => JSON.stringify(row)).join("\n") + "\n";
+}
+
+function escapeXml(value: unknown): string {
+  return formatValue(value)
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+// Empty values are skipped
+function xmlElement(name: string, value: unknown, attributes: Record<string, unknown> = {}): string {
+  const text = formatValue(value);
+  if (!text) return "";
+  const attrs = Object.entries(attributes).map(([key, attr]) => ` ${key}="${escapeXml(attr)}"`).join("");
+  return `<${name}${attrs}>${escapeXml(text)}</${name}>`;
+}
+
+function indentElements(elements: string[], indent: string): string[] {
+  return elements.filter(Boolean).map(element => `${indent}${element}`);
+}
+
+// Feeds get plain text descriptions
+function getDescription(product: Product): string {
+  const html = product.full_description || product.short_description || "";
+  const text = html.replace(/<[^>]*>/g, " ").replace(/&nbsp;/g, " ").replace(/\s+/g, " ").trim();
+  return text.slice(0, FEED_DESCRIPTION_MAX_LENGTH);
+}
+
+function assertCurrency(currency: string) {
+  if (!currency) throw new Error("Store currency is unknown, set CSCART_CURRENCY or currency of the store");
+}
+
+/**
+ * Google Merchant Center RSS 2.0 feed. Price is the list price and sale_price is the price when the product is discounted.
+ */
+function toGoogleMerchantFeed(products: ExportProduct[], options: ExportOptions): string {
+  assertCurrency(options.currency);
+  const money = (value: number) => `${value.toFixed(2)} ${options.currency}`;
+  const items = products.map(product => {
+    const features = flattenFeatures(product);
+    const discounted = product.list_price !== undefined && product.list_price > product.price;
+    const elements = [
+      xmlElement("g:id", product.product_code || product.product_id),
+      xmlElement("g:title", product.product),
+      xmlElement("g:description", getDescription(product)),
+      xmlElement("g:link", options.productUrl(product)),
+      xmlElement("g:image_link", getImageUrl(product)),
+      xmlElement("g:availability", (product.amount ?? 0) > 0 ? "in_stock" : "out_of_stock"),
+      xmlElement("g:price", money(discounted ? product.list_price! : product.price)),
+      discounted ? xmlElement("g:sale_price", money(product.price)) : "",
+      xmlElement("g:condition", "new"),
+      options.brandFeature ? xmlElement("g:brand", features[options.brandFeature]) : "",
+      xmlElement("g:mpn", product.product_code),
+      xmlElement("g:product_type", getCategoryPaths(product)[0]?.replace(/ \/ /g, " > ")),
+    ];
+    return ["    <item>", ...indentElements(elements, "      "), "    </item>"].join("\n");
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:g="http://base.google.com/ns/1.0">',
+    "  <channel>",
+    ...indentElements([
+      xmlElement("title", options.title),
+      xmlElement("link", options.shopUrl),
+      xmlElement("description", `${options.title} products`),
+    ], "    "),
+    ...items,
+    "  </channel>",
+    "</rss>",
+  ].join("\n") + "\n";
+}
+
+/**
+ * Yandex Market Language feed, features are exported as offer params.
+ */
+function toYmlFeed(products: ExportProduct[], options: ExportOptions): string {
+  assertCurrency(options.currency);
+  const date = (options.date ?? new Date()).toISOString().slice(0, 16);
+  const categories = (options.categories ?? []).map(category => xmlElement(
+    "category",
+    category.category || category.category_id,
+    { id: category.category_id, ...(category.parent_id ? { parentId: category.parent_id } : {}) },
+  ));
+  const offers = products.map(product => {
+    const features = flattenFeatures(product);
+    const discounted = product.list_price !== undefined && product.list_price > product.price;
+    const elements = [
+      xmlElement("url", options.productUrl(product)),
+      xmlElement("price", product.price),
+      discounted ? xmlElement("oldprice", product.list_price) : "",
+      xmlElement("currencyId", options.currency),
+      xmlElement("categoryId", product.main_category ?? product.category_ids?.[0]),
+      xmlElement("picture", getImageUrl(product)),
+      xmlElement("name", product.product),
+      options.brandFeature ? xmlElement("vendor", features[options.brandFeature]) : "",
+      xmlElement("vendorCode", product.product_code),
+      xmlElement("description", getDescription(product)),
+      ...Object.entries(features)
+        .filter(([name]) => name !== options.brandFeature)
+        .map(([name, value]) => xmlElement("param", value, { name })),
+    ];
+    const available = (product.amount ?? 0) > 0;
+    return [`      <offer id="${product.product_id}" available="${available}">`, ...indentElements(elements, "        "), "      </offer>"].join("\n");
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<yml_catalog date="${date}">`,
+    "  <shop>",
+    ...indentElements([
+      xmlElement("name", options.title),
+      xmlElement("company", options.title),
+      xmlElement("url", options.shopUrl),
+    ], "    "),
+    "    <currencies>",
+    `      <currency id="${escapeXml(options.currency)}" rate="1"/>`,
+    "    </currencies>",
+    "    <categories>",
+    ...indentElements(categories, "      "),
+    "    </categories>",
+    "    <offers>",
+    ...offers,
+    "    </offers>",
+    "  </shop>",
+    "</yml_catalog>",
+  ].join("\n") + "\n";
+}
+
+/**
+ * Render products to the export file content.
+ */
+function renderExport(products: ExportProduct[], format: ExportFormat, options: ExportOptions): string {
+  if (format === "google_merchant") return toGoogleMerchantFeed(products, options);
+  if (format === "yml") return toYmlFeed(products, options);
+  const rows = products.map(product => getExportRow(product, options));
+  return format === "csv" ? toCsv(rows, options.columns) : toJsonl(rows);
+}
+
+/**
+ * First lines of the export file.
+ */
+function getExportPreview(content: string): string {
+  const lines = content.split("\n");
+  const preview = lines.slice(0, PREVIEW_LINES).join("\n");
+  const truncated = lines.length > PREVIEW_LINES + 1 || preview.length > PREVIEW_MAX_LENGTH;
+  return preview.slice(0, PREVIEW_MAX_LENGTH) + (truncated ? "\n..." : "");
+}
+
+/**
+ * Export directory from CSCART_EXPORT_DIR, default `exports` in the data dir.
+ */
+function getExportDir(env: NodeJS.ProcessEnv = process.env): string {
+  return path.resolve(env["CSCART_EXPORT_DIR"] ?? path.join(getDataDir(env), "exports"));
+}
+
+function getExportFilename(format: ExportFormat, store: string, date = new Date()): string {
+  const stamp = date.toISOString().slice(0, 19).replace(/[:T]/g, "-");
+  return `products-${store}-${stamp}.${EXPORT_EXTENSIONS[format]}`;
+}
+
+/**
+ * Write the export file to the directory.
+ * @throws Error for file names with directories
+ */
+async function writeExportFile(dir: string, filename: string, content: string): Promise<string> {
+  if (!filename || path.basename(filename) !== filename || filename.startsWith(".")) {
+    throw new Error(`Invalid export file name: ${filename}`);
+  }
+  await fs.mkdir(dir, { recursive: true });
+  const file = path.join(dir, filename);
+  await fs.writeFile(file, content, "utf-8");
+  return file;
+}
+
+export type { ExportFormat, ExportProduct, ExportOptions };
+
+export {
+  EXPORT_FORMATS,
+  DEFAULT_EXPORT_COLUMNS,
+  FEATURE_COLUMN_PREFIX,
+  flattenFeatures,
+  getFeatureColumns,
+  getExportRow,
+  toCsv,
+  toJsonl,
+  toGoogleMerchantFeed,
+  toYmlFeed,
+  renderExport,
+  getExportPreview,
+  getExportDir,
+  getExportFilename,
+  writeExportFile,
+};
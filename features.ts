@@ -0,0 +1,21 @@
+import type { ProductFeatureValue } from "./schemas.js";
+
+// Types with variants: select text (S), select number (N), brand (E), multiple checkboxes (M)
+const VARIANT_FEATURE_TYPES = ["S", "N", "E", "M"];
+
+// Selected variants of multiple checkboxes feature are marked with `selected` when all variants are returned
+function getSelectedVariantIds(feature: ProductFeatureValue): number[] {
+  if (feature.feature_type === "M") {
+    const variants = Object.entries(feature.variants ?? {});
+    const hasSelected = variants.some(([, v]) => "selected" in v);
+    return variants
+      .filter(([, v]) => !hasSelected || (Boolean(v.selected) && !["N", "0"].includes(`${v.selected}`)))
+      .map(([id, v]) => Number(v.variant_id ?? id));
+  }
+  return feature.variant_id ? [Number(feature.variant_id)] : [];
+}
+
+export {
+  VARIANT_FEATURE_TYPES,
+  getSelectedVariantIds,
+};
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import type { AddressInfo } from 'net';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { authenticate, getHttpConfig, parseTokens, parseTokensFile, startHttpServer } from './http.js';
+
+// MCP server with one tool that returns the user of the call
+function createEchoServer(): Server {
+  const server = new Server({ name: 'echo', version: '1.0.0' }, { capabilities: { tools: {} } });
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: [{ name: 'whoami', inputSchema: { type: 'object' } }] }));
+  server.setRequestHandler(CallToolRequestSchema, async (_request, extra) => ({ content: [{ type: 'text', text: extra.authInfo?.clientId ?? '' }] }));
+  return server;
+}
+
+describe('HTTP transport', () => {
+  it('should select HTTP mode by flag or env and require tokens', async () => {
+    expect(await getHttpConfig([], {})).toBeNull();
+    await expect(getHttpConfig(['--http'], {})).rejects.toThrow('HTTP mode requires tokens');
+    const config = await getHttpConfig(['--http', '--port', '4000'], { CSCART_HTTP_TOKENS: 'alice:t1, bob:t2' });
+    expect(config).toMatchObject({ host: '127.0.0.1', port: 4000 });
+    expect(config?.tokens.get('t2')).toBe('bob');
+    const fromEnv = await getHttpConfig([], { CSCART_TRANSPORT: 'http', CSCART_HTTP_PORT: '5000', CSCART_HTTP_TOKENS: 'alice:t1' });
+    expect(fromEnv?.port).toBe(5000);
+    await expect(getHttpConfig(['--http', '--port', 'abc'], { CSCART_HTTP_TOKENS: 'alice:t1' })).rejects.toThrow('Invalid HTTP port "abc"');
+    await expect(getHttpConfig(['--http', '--port=70000'], { CSCART_HTTP_TOKENS: 'alice:t1' })).rejects.toThrow('expected 1-65535');
+  });
+
+  it('should reject malformed tokens', () => {
+    expect(() => parseTokens('alice')).toThrow('expected user:token');
+    expect(parseTokens('alice:a:b').get('a:b')).toBe('alice');
+    expect(parseTokensFile('{ "alice": "t1", "bob": "t2" }', 'tokens.json').get('t2')).toBe('bob');
+    expect(() => parseTokensFile('["t1"]', 'tokens.json')).toThrow('expected { "user": "token" }');
+    expect(() => parseTokensFile('{ "alice": 1 }', 'tokens.json')).toThrow('Invalid token of user "alice"');
+    expect(() => parseTokensFile('{ "alice": " " }', 'tokens.json')).toThrow('expected a non-empty string');
+    expect(() => parseTokensFile('{ "alice": "t1", "bob": "t1" }', 'tokens.json')).toThrow('is also used by "alice"');
+    expect(() => parseTokensFile('{', 'tokens.json')).toThrow('Invalid tokens file tokens.json');
+  });
+
+  it('should authenticate bearer tokens', () => {
+    const tokens = parseTokens('alice:t1,bob:t2');
+    expect(authenticate('Bearer t2', tokens)).toMatchObject({ clientId: 'bob', token: 't2' });
+    expect(authenticate('Bearer wrong', tokens)).toBeNull();
+    expect(authenticate('Basic t1', tokens)).toBeNull();
+    expect(authenticate(undefined, tokens)).toBeNull();
+  });
+
+  it('should serve MCP sessions to authenticated users only', async () => {
+    let created = 0;
+    const httpServer = await startHttpServer({
+      host: '127.0.0.1',
+      port: 0,
+      tokens: parseTokens('alice:t1'),
+      createServer: () => { created++; return createEchoServer(); },
+    });
+    const url = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/mcp`;
+    try {
+      expect((await fetch(url, { method: 'POST', body: '{}' })).status).toBe(401);
+      // Requests without a session other than initialize don't create servers
+      const listTools = await fetch(url, {
+        method: 'POST',
+        headers: { Authorization: 'Bearer t1', 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+      });
+      expect(listTools.status).toBe(400);
+      expect(created).toBe(0);
+
+      const client = new Client({ name: 'test', version: '1.0.0' });
+      await client.connect(new StreamableHTTPClientTransport(new URL(url), { requestInit: { headers: { Authorization: 'Bearer t1' } } }));
+      const result = await client.callTool({ name: 'whoami', arguments: {} });
+      expect(result.content).toEqual([{ type: 'text', text: 'alice' }]);
+      expect(created).toBe(1);
+      await client.close();
+    } finally {
+      httpServer.close();
+    }
+  });
+});
@@ -0,0 +1,241 @@
+import http from "http";
+import { createHash, randomUUID, timingSafeEqual } from "crypto";
+import { promises as fs } from "fs";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "./logger.js";
+
+// Same as the body limit of the SDK transport
+const MAX_BODY_SIZE = 4 * 1024 * 1024;
+
+interface HttpConfig {
+  host: string;
+  port: number;
+  /** Bearer token to user name */
+  tokens: Map<string, string>;
+}
+
+interface HttpServerOptions extends HttpConfig {
+  createServer: () => Server;
+}
+
+interface Session<T> {
+  transport: T;
+  user: string;
+}
+
+function getArgValue(argv: string[], name: string): string | undefined {
+  const arg = argv.find(a => a.startsWith(`${name}=`));
+  if (arg) return arg.slice(name.length + 1);
+  const index = argv.indexOf(name);
+  return index >= 0 && argv[index + 1] && !argv[index + 1].startsWith("--") ? argv[index + 1] : undefined;
+}
+
+/**
+ * Parse tokens given as `user:token` pairs separated by commas.
+ */
+function parseTokens(value: string): Map<string, string> {
+  const tokens = new Map<string, string>();
+  for (const pair of value.split(",").map(p => p.trim()).filter(Boolean)) {
+    const index = pair.indexOf(":");
+    if (index <= 0 || index === pair.length - 1) throw new Error(`Invalid token "${pair.slice(0, 20)}", expected user:token`);
+    tokens.set(pair.slice(index + 1), pair.slice(0, index));
+  }
+  return tokens;
+}
+
+/**
+ * Parse tokens file content, a JSON object of user names to tokens.
+ */
+function parseTokensFile(content: string, file: string): Map<string, string> {
+  let users: unknown;
+  try {
+    users = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid tokens file ${file}: ${(error as Error).message}`);
+  }
+  if (!users || typeof users !== "object" || Array.isArray(users)) {
+    throw new Error(`Invalid tokens file ${file}, expected { "user": "token" }`);
+  }
+  const tokens = new Map<string, string>();
+  for (const [user, token] of Object.entries(users)) {
+    if (typeof token !== "string" || token.trim() === "") throw new Error(`Invalid token of user "${user}" in ${file}, expected a non-empty string`);
+    if (tokens.has(token)) throw new Error(`Token of user "${user}" in ${file} is also used by "${tokens.get(token)}"`);
+    tokens.set(token, user);
+  }
+  return tokens;
+}
+
+function getPort(value: string): number {
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) throw new Error(`Invalid HTTP port "${value}", expected 1-65535`);
+  return port;
+}
+
+/**
+ * HTTP mode config from `--http`, `--port`, `--host` or CSCART_TRANSPORT=http, CSCART_HTTP_PORT, CSCART_HTTP_HOST.
+ * Tokens are read from CSCART_HTTP_TOKENS_FILE (JSON `{ "user": "token" }`) or CSCART_HTTP_TOKENS (`user:token,user2:token2`).
+ * @returns null for stdio mode
+ * @throws Error when no tokens are configured, tokens or port are invalid
+ */
+async function getHttpConfig(argv: string[], env: NodeJS.ProcessEnv): Promise<HttpConfig | null> {
+  if (!argv.includes("--http") && env["CSCART_TRANSPORT"] !== "http") return null;
+  let tokens = new Map<string, string>();
+  if (env["CSCART_HTTP_TOKENS_FILE"]) {
+    const file = env["CSCART_HTTP_TOKENS_FILE"];
+    tokens = parseTokensFile(await fs.readFile(file, "utf-8"), file);
+  } else if (env["CSCART_HTTP_TOKENS"]) {
+    tokens = parseTokens(env["CSCART_HTTP_TOKENS"]);
+  }
+  if (tokens.size === 0) {
+    throw new Error("HTTP mode requires tokens, set CSCART_HTTP_TOKENS or CSCART_HTTP_TOKENS_FILE");
+  }
+  return {
+    host: getArgValue(argv, "--host") ?? env["CSCART_HTTP_HOST"] ?? "127.0.0.1",
+    port: getPort(getArgValue(argv, "--port") ?? env["CSCART_HTTP_PORT"] ?? "3000"),
+    tokens,
+  };
+}
+
+// Compare hashes of equal length in constant time
+function hashToken(token: string): Buffer {
+  return createHash("sha256").update(token).digest();
+}
+
+/**
+ * Find the user of `Authorization: Bearer <token>` header.
+ */
+function authenticate(header: string | undefined, tokens: Map<string, string>): AuthInfo | null {
+  const token = header?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim();
+  if (!token) return null;
+  const hash = hashToken(token);
+  let user: string | null = null;
+  for (const [knownToken, knownUser] of tokens) {
+    if (timingSafeEqual(hash, hashToken(knownToken))) user = knownUser;
+  }
+  return user ? { token, clientId: user, scopes: [] } : null;
+}
+
+function sendJson(res: http.ServerResponse, status: number, data: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers }).end(JSON.stringify(data));
+}
+
+function sendRpcError(res: http.ServerResponse, status: number, message: string) {
+  sendJson(res, status, { jsonrpc: "2.0", error: { code: -32000, message }, id: null });
+}
+
+/**
+ * Read JSON body of the request.
+ * @returns undefined for empty, invalid or too large body
+ */
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_SIZE) return undefined;
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+  } catch {
+    return undefined;
+  }
+}
+
+function isInitializeBody(body: unknown): boolean {
+  return Array.isArray(body) ? body.some(isInitializeRequest) : isInitializeRequest(body);
+}
+
+/**
+ * Serve MCP over Streamable HTTP at /mcp and over SSE at /sse + /messages (older clients).
+ * Every request needs a bearer token, sessions are available only to the user who started them.
+ */
+async function startHttpServer(options: HttpServerOptions): Promise<http.Server> {
+  const streamableSessions = new Map<string, Session<StreamableHTTPServerTransport>>();
+  const sseSessions = new Map<string, Session<SSEServerTransport>>();
+
+  async function handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (url.pathname === "/health") {
+      sendJson(res, 200, { status: "ok" });
+      return;
+    }
+    const auth = authenticate(req.headers.authorization, options.tokens);
+    if (!auth) {
+      sendJson(res, 401, { error: "Unauthorized" }, { "WWW-Authenticate": 'Bearer realm="cscart-mcp"' });
+      return;
+    }
+    const request = Object.assign(req, { auth });
+
+    if (url.pathname === "/mcp") {
+      const sessionId = req.headers["mcp-session-id"];
+      if (typeof sessionId === "string") {
+        const session = streamableSessions.get(sessionId);
+        if (!session) return sendRpcError(res, 404, "Session not found");
+        if (session.user !== auth.clientId) return sendRpcError(res, 403, "Session belongs to another user");
+        await session.transport.handleRequest(request, res);
+        return;
+      }
+      // New session, the server is created only for initialize requests
+      const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+      if (!isInitializeBody(body)) return sendRpcError(res, 400, "Bad Request: No valid session ID provided");
+      const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: id => { streamableSessions.set(id, { transport, user: auth.clientId }); },
+      });
+      transport.onclose = () => {
+        if (transport.sessionId) streamableSessions.delete(transport.sessionId);
+      };
+      const server = options.createServer();
+      await server.connect(transport);
+      await transport.handleRequest(request, res, body);
+      // Rejected initialize, nothing can reach the server
+      if (!transport.sessionId || !streamableSessions.has(transport.sessionId)) await server.close();
+      return;
+    }
+
+    if (url.pathname === "/sse" && req.method === "GET") {
+      const transport = new SSEServerTransport("/messages", res);
+      sseSessions.set(transport.sessionId, { transport, user: auth.clientId });
+      transport.onclose = () => { sseSessions.delete(transport.sessionId); };
+      await options.createServer().connect(transport);
+      return;
+    }
+
+    if (url.pathname === "/messages" && req.method === "POST") {
+      const session = sseSessions.get(url.searchParams.get("sessionId") ?? "");
+      if (!session) return sendRpcError(res, 404, "Session not found");
+      if (session.user !== auth.clientId) return sendRpcError(res, 403, "Session belongs to another user");
+      await session.transport.handlePostMessage(request, res);
+      return;
+    }
+
+    sendJson(res, 404, { error: "Not found" });
+  }
+
+  const server = http.createServer((req, res) => {
+    handle(req, res).catch(error => {
+      logger.error("HTTP request failed", { method: req.method, url: req.url, error });
+      if (!res.headersSent) sendRpcError(res, 500, "Internal server error");
+    });
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port, options.host, () => resolve());
+  });
+  return server;
+}
+
+export type { HttpConfig, HttpServerOptions };
+
+export {
+  parseTokens,
+  parseTokensFile,
+  getHttpConfig,
+  authenticate,
+  startHttpServer,
+};
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { FeatureSchema, ProductSchema } from './schemas.js';
+import {
+  createProductMatcher,
+  diffProductFields,
+  getColumnMapping,
+  mapImportRow,
+  parseCsv,
+  parseImportRecords,
+  readImportFile,
+  saveImportPlan,
+  takeImportPlan,
+} from './imports.js';
+
+const features = [
+  FeatureSchema.parse({ feature_id: 1, description: 'Color', feature_type: 'S', variants: [{ variant_id: 10, variant: 'Red' }, { variant_id: 11, variant: 'Blue' }] }),
+  FeatureSchema.parse({ feature_id: 2, description: 'Size', feature_type: 'M', variants: [{ variant_id: 20, variant: 'S' }, { variant_id: 21, variant: 'M' }] }),
+  FeatureSchema.parse({ feature_id: 3, description: 'Gift', feature_type: 'C' }),
+];
+
+describe('Products import', () => {
+  it('should parse CSV with quotes, line breaks and detected delimiter', () => {
+    expect(parseCsv('\uFEFFcode;price\r\n"A;1";"1 234,50"\r\n\r\nB;"say ""hi""\nthere"\n')).toEqual([
+      ['code', 'price'],
+      ['A;1', '1 234,50'],
+      ['B', 'say "hi"\nthere'],
+    ]);
+    expect(parseImportRecords('sku,price\nA,10', 'csv')).toEqual([{ sku: 'A', price: '10' }]);
+    expect(parseImportRecords('{"products": [{"id": 1}]}', 'json')).toEqual([{ id: 1 }]);
+    expect(() => parseImportRecords('[1]', 'json')).toThrow('array of objects');
+  });
+
+  it('should map columns by field names, aliases, feature names and explicit mapping', () => {
+    const { mapping, ignored } = getColumnMapping(['SKU', 'Price', 'stock', 'color', 'feature:size', 'Comment', 'Old'], features, { Old: 'list_price' });
+    expect(mapping).toEqual({ SKU: 'product_code', Price: 'price', stock: 'amount', color: 'feature:Color', 'feature:size': 'feature:Size', Old: 'list_price' });
+    expect(ignored).toEqual(['Comment']);
+    expect(() => getColumnMapping(['a'], features, { a: 'weight' })).toThrow('Unknown field "weight"');
+    expect(() => getColumnMapping(['a'], features, { a: 'feature:Weight' })).toThrow('Unknown feature "Weight"');
+    expect(() => getColumnMapping(['code', 'sku'], features)).toThrow('both mapped to product_code');
+  });
+
+  it('should convert values and collect row errors', () => {
+    const mapping = { sku: 'product_code', price: 'price', stock: 'amount', status: 'status', color: 'feature:Color', size: 'feature:Size', gift: 'feature:Gift' };
+    const row = mapImportRow({ sku: ' A1 ', price: '1 234,50', stock: '', status: 'hidden', color: 'red', size: 'm, s', gift: 'yes' }, mapping, features);
+    expect(row).toEqual({
+      keys: { product_code: 'A1' },
+      data: { price: 1234.5, status: 'H' },
+      features: { Color: 'Red', Size: ['M', 'S'], Gift: 'Y' },
+      errors: [],
+    });
+    const invalid = mapImportRow({ sku: 'A1', price: 'free', stock: '1.5', color: 'Green' }, mapping, features);
+    expect(invalid.errors).toEqual([
+      'price: "free" is not a number',
+      'stock: "1.5" is not an integer',
+      'color: Unknown variant "Green" of feature "Color"',
+    ]);
+    const prices = ['1,234.50', '1.234,50', '12,5', '1,234', '1,234,567'].map(price => mapImportRow({ sku: 'A1', price }, mapping, features));
+    expect(prices.map(row => row.data.price)).toEqual([1234.5, 1234.5, 12.5, undefined, undefined]);
+    expect(prices.slice(3).map(row => row.errors)).toEqual([
+      ['price: "1,234" is ambiguous, use a point for decimals and no thousands separators'],
+      ['price: "1,234,567" is ambiguous, use a point for decimals and no thousands separators'],
+    ]);
+  });
+
+  it('should match products by code and id and report ambiguous codes', () => {
+    const products = [
+      ProductSchema.parse({ product_id: 1, product_code: 'A1' }),
+      ProductSchema.parse({ product_id: 2, product_code: 'B' }),
+      ProductSchema.parse({ product_id: 3, product_code: 'b' }),
+    ];
+    expect(createProductMatcher(products, 'product_code')({ product_code: 'a1' })).toEqual({ product: products[0] });
+    expect(createProductMatcher(products, 'product_code')({ product_code: 'B' })).toEqual({ error: 'Product code B is used by products 2, 3' });
+    expect(createProductMatcher(products, 'product_id')({ product_id: 9 })).toEqual({ error: 'Product 9 not found', notFound: true });
+  });
+
+  it('should diff only changed fields and features', () => {
+    const row = { keys: {}, data: { price: 10, amount: 5 }, features: { Color: 'Red', Size: ['S', 'M'] }, errors: [] };
+    const changes = diffProductFields({ price: '10.00', amount: 3 }, { Color: 'Blue', Size: ['M', 'S'] }, row);
+    expect(changes).toEqual([
+      { field: 'amount', from: 3, to: 5 },
+      { field: 'feature:Color', from: 'Blue', to: 'Red' },
+    ]);
+  });
+
+  it('should keep plans until confirmed once, in the same store and before expiration', () => {
+    const plan = saveImportPlan('main', [], 1000);
+    expect(() => takeImportPlan(plan.token, 'other', 1000)).toThrow('belongs to store "main"');
+    expect(takeImportPlan(plan.token, 'main', 1000)).toBe(plan);
+    expect(() => takeImportPlan(plan.token, 'main', 1000)).toThrow('unknown or expired');
+    const expired = saveImportPlan('main', [], 1000);
+    expect(() => takeImportPlan(expired.token, 'main', expired.expiresAt)).toThrow('unknown or expired');
+  });
+
+  it('should read files only from the import directory', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cscart-import-'));
+    try {
+      await fs.writeFile(path.join(dir, 'prices.csv'), 'sku,price');
+      expect(await readImportFile(dir, 'prices.csv')).toBe('sku,price');
+      await expect(readImportFile(dir, '../prices.csv')).rejects.toThrow('should be in the import directory');
+      await expect(readImportFile(dir, '/etc/passwd')).rejects.toThrow('should be in the import directory');
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
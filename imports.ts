@@ -0,0 +1,357 @@
+import path from "path";
+import { promises as fs } from "fs";
+import { randomUUID } from "crypto";
+import type { Feature, Product } from "./schemas.js";
+import { getDataDir } from "./stores.js";
+
+const IMPORT_FORMATS = ["csv", "json"] as const;
+type ImportFormat = typeof IMPORT_FORMATS[number];
+type ImportKey = "product_id" | "product_code";
+
+const FEATURE_TARGET_PREFIX = "feature:";
+const IMPORT_PLAN_TTL = 15 * 60 * 1000;
+const CSV_DELIMITERS = [",", ";", "\t"];
+
+/** Product fields accepted in imports with column name aliases. product_id and product_code are used for matching only */
+const IMPORT_FIELDS: Record<string, { type: "integer" | "number" | "string" | "status"; aliases: string[] }> = {
+  product_id: { type: "integer", aliases: ["id"] },
+  product_code: { type: "string", aliases: ["code", "sku"] },
+  product: { type: "string", aliases: ["name", "title"] },
+  price: { type: "number", aliases: [] },
+  list_price: { type: "number", aliases: ["old_price"] },
+  amount: { type: "integer", aliases: ["stock", "quantity", "qty"] },
+  status: { type: "status", aliases: [] },
+  short_description: { type: "string", aliases: [] },
+  full_description: { type: "string", aliases: ["description"] },
+};
+
+const STATUS_NAMES: Record<string, string> = { active: "A", disabled: "D", hidden: "H" };
+
+type ImportRecord = Record<string, unknown>;
+
+interface MappedImportRow {
+  keys: Partial<{ product_id: number; product_code: string }>;
+  data: Record<string, unknown>;
+  /** Values by feature name */
+  features: Record<string, unknown>;
+  errors: string[];
+}
+
+interface ImportChange {
+  /** Product field or feature:<name> */
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+interface ImportPlanItem {
+  row: number;
+  productId: number;
+  productCode: string;
+  data: Record<string, unknown>;
+  features: Record<string, unknown>;
+  changes: ImportChange[];
+}
+
+interface ImportPlan {
+  token: string;
+  store: string;
+  items: ImportPlanItem[];
+  expiresAt: number;
+}
+
+function detectDelimiter(header: string): string {
+  const counts = CSV_DELIMITERS.map(delimiter => header.split(delimiter).length);
+  return CSV_DELIMITERS[counts.indexOf(Math.max(...counts))];
+}
+
+/**
+ * Parse CSV with quoted values, the delimiter is detected by the header: comma, semicolon or tab.
+ */
+function parseCsv(text: string, delimiter?: string): string[][] {
+  const input = text.replace(/^\uFEFF/, "");
+  const separator = delimiter ?? detectDelimiter(input.split(/\r?\n/, 1)[0]);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char !== '"') field += char;
+      else if (input[i + 1] === '"') field += input[++i];
+      else quoted = false;
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) rows.push([...row, field]);
+  return rows.filter(values => values.some(value => value.trim() !== ""));
+}
+
+/**
+ * Records of CSV with the header row, or of JSON array (also `{ "products": [...] }`).
+ */
+function parseImportRecords(content: string, format: ImportFormat): ImportRecord[] {
+  if (format === "csv") {
+    const [header, ...rows] = parseCsv(content);
+    if (!header) throw new Error("Import file is empty");
+    const columns = header.map(column => column.trim());
+    return rows.map(values => Object.fromEntries(columns.map((column, i) => [column, values[i] ?? ""])));
+  }
+  const data = JSON.parse(content);
+  const records = Array.isArray(data) ? data : data?.products;
+  if (!Array.isArray(records) || records.some(record => !record || typeof record !== "object" || Array.isArray(record))) {
+    throw new Error("JSON import should be an array of objects or { \"products\": [...] }");
+  }
+  return records;
+}
+
+function findFeature(features: Feature[], name: string): Feature | undefined {
+  return features.find(f => f.description.toLowerCase() === name.trim().toLowerCase());
+}
+
+function getDefaultTarget(column: string, features: Feature[]): string {
+  const name = column.trim().toLowerCase();
+  if (name.startsWith(FEATURE_TARGET_PREFIX)) return column.trim();
+  const key = name.replace(/\s+/g, "_");
+  const field = Object.entries(IMPORT_FIELDS).find(([fieldName, { aliases }]) => fieldName === key || aliases.includes(key));
+  if (field) return field[0];
+  const feature = findFeature(features, column);
+  return feature ? `${FEATURE_TARGET_PREFIX}${feature.description}` : "";
+}
+
+/**
+ * Map columns to product fields and `feature:<name>` targets.
+ * Columns are mapped by field names, aliases and feature names unless set in `mapping`, empty target skips the column.
+ * @throws Error for unknown fields and features, and for columns mapped to the same target
+ */
+function getColumnMapping(columns: string[], features: Feature[], mapping: Record<string, string> = {}): { mapping: Record<string, string>; ignored: string[] } {
+  const result: Record<string, string> = {};
+  const ignored: string[] = [];
+  for (const column of columns) {
+    const target = column in mapping ? mapping[column].trim() : getDefaultTarget(column, features);
+    if (!target) {
+      ignored.push(column);
+      continue;
+    }
+    let canonical = target;
+    if (target.toLowerCase().startsWith(FEATURE_TARGET_PREFIX)) {
+      const feature = findFeature(features, target.slice(FEATURE_TARGET_PREFIX.length));
+      if (!feature) throw new Error(`Unknown feature "${target.slice(FEATURE_TARGET_PREFIX.length)}" for column "${column}"`);
+      canonical = `${FEATURE_TARGET_PREFIX}${feature.description}`;
+    } else if (!IMPORT_FIELDS[target]) {
+      throw new Error(`Unknown field "${target}" for column "${column}". Fields: ${Object.keys(IMPORT_FIELDS).join(", ")}, ${FEATURE_TARGET_PREFIX}<feature name>`);
+    }
+    const duplicate = Object.keys(result).find(other => result[other] === canonical);
+    if (duplicate) throw new Error(`Columns "${duplicate}" and "${column}" are both mapped to ${canonical}`);
+    result[column] = canonical;
+  }
+  return { mapping: result, ignored };
+}
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === "string" && value.trim() === "");
+}
+
+// Supplier price lists use "1 234,50" as well as "1234.50", the last of comma and point is the decimal separator.
+// Comma alone can be a decimal or a thousands separator, "1,234" and "1,234,567" are rejected instead of guessing
+function parseNumber(value: unknown): number {
+  if (typeof value === "number") return value;
+  let text = `${value}`.replace(/\s/g, "");
+  if (text.includes(".") && text.includes(",")) {
+    text = text.lastIndexOf(",") > text.lastIndexOf(".") ? text.replace(/\./g, "").replace(",", ".") : text.replace(/,/g, "");
+  } else if (text.includes(",")) {
+    if (/,.*,/.test(text) || /,\d{3}$/.test(text)) throw new Error(`"${value}" is ambiguous, use a point for decimals and no thousands separators`);
+    text = text.replace(",", ".");
+  }
+  const number = Number(text);
+  if (text === "" || isNaN(number)) throw new Error(`"${value}" is not a number`);
+  return number;
+}
+
+function parseFieldValue(field: string, value: unknown): unknown {
+  const { type } = IMPORT_FIELDS[field];
+  if (type === "number") return parseNumber(value);
+  if (type === "integer") {
+    const number = parseNumber(value);
+    if (!Number.isInteger(number)) throw new Error(`"${value}" is not an integer`);
+    return number;
+  }
+  if (type === "status") {
+    const text = `${value}`.trim();
+    const status = STATUS_NAMES[text.toLowerCase()] ?? text.toUpperCase();
+    if (!["A", "D", "H"].includes(status)) throw new Error(`Unknown status "${value}", expected A, D or H`);
+    return status;
+  }
+  return `${value}`.trim();
+}
+
+// Variant names are returned as in the features list, so the diff compares them exactly
+function parseFeatureValue(feature: Feature, value: unknown): unknown {
+  const findVariant = (name: string) => {
+    const variant = Object.values(feature.variants ?? {}).find(v => v.variant.toLowerCase() === name.trim().toLowerCase());
+    if (!variant) throw new Error(`Unknown variant "${name}" of feature "${feature.description}"`);
+    return variant.variant;
+  };
+  if (feature.feature_type === "M") {
+    const names = Array.isArray(value) ? value.map(v => `${v}`) : `${value}`.split(",");
+    return names.map(name => name.trim()).filter(Boolean).map(findVariant);
+  }
+  if (["S", "N", "E"].includes(feature.feature_type)) return findVariant(`${value}`);
+  if (feature.feature_type === "C") return ["y", "yes", "true", "1"].includes(`${value}`.trim().toLowerCase()) ? "Y" : "N";
+  if (feature.feature_type === "O") return parseNumber(value);
+  return `${value}`.trim();
+}
+
+/**
+ * Convert the record to match keys, product fields and feature values. Blank values are skipped, they don't clear fields.
+ */
+function mapImportRow(record: ImportRecord, mapping: Record<string, string>, features: Feature[]): MappedImportRow {
+  const row: MappedImportRow = { keys: {}, data: {}, features: {}, errors: [] };
+  for (const [column, target] of Object.entries(mapping)) {
+    const value = record[column];
+    if (isBlank(value)) continue;
+    try {
+      if (target.startsWith(FEATURE_TARGET_PREFIX)) {
+        const feature = findFeature(features, target.slice(FEATURE_TARGET_PREFIX.length))!;
+        row.features[feature.description] = parseFeatureValue(feature, value);
+      } else if (target === "product_id") {
+        row.keys.product_id = parseFieldValue(target, value) as number;
+      } else if (target === "product_code") {
+        row.keys.product_code = parseFieldValue(target, value) as string;
+      } else {
+        row.data[target] = parseFieldValue(target, value);
+      }
+    } catch (error) {
+      row.errors.push(`${column}: ${(error as Error).message}`);
+    }
+  }
+  return row;
+}
+
+/**
+ * Find products of rows by product_code or product_id.
+ * @returns Product or error message for not found and ambiguous codes
+ */
+function createProductMatcher(products: Product[], matchBy: ImportKey) {
+  const byId = new Map(products.map(p => [p.product_id, p]));
+  const byCode = new Map<string, Product[]>();
+  for (const product of products) {
+    const code = product.product_code.trim().toLowerCase();
+    if (code) byCode.set(code, [...(byCode.get(code) ?? []), product]);
+  }
+  return (keys: MappedImportRow["keys"]): { product: Product } | { error: string; notFound?: boolean } => {
+    if (matchBy === "product_id") {
+      if (keys.product_id === undefined) return { error: "product_id is empty" };
+      const product = byId.get(keys.product_id);
+      return product ? { product } : { error: `Product ${keys.product_id} not found`, notFound: true };
+    }
+    if (!keys.product_code) return { error: "product_code is empty" };
+    const found = byCode.get(keys.product_code.toLowerCase()) ?? [];
+    if (found.length > 1) return { error: `Product code ${keys.product_code} is used by products ${found.map(p => p.product_id).join(", ")}` };
+    return found[0] ? { product: found[0] } : { error: `Product with code ${keys.product_code} not found`, notFound: true };
+  };
+}
+
+function normalizeValue(value: unknown): string {
+  if (Array.isArray(value)) return value.map(normalizeValue).sort().join("\n");
+  return `${value ?? ""}`.trim().toLowerCase();
+}
+
+function isSameValue(current: unknown, value: unknown): boolean {
+  if (typeof value === "number") return current !== undefined && current !== null && current !== "" && Number(current) === value;
+  return normalizeValue(current) === normalizeValue(value);
+}
+
+/**
+ * Changes of the product fields and feature values against the current ones, used for import rows and product updates.
+ */
+function diffProductFields(current: Record<string, unknown>, currentFeatures: Record<string, unknown>, row: Pick<MappedImportRow, "data" | "features">): ImportChange[] {
+  const changes: ImportChange[] = [];
+  for (const [field, value] of Object.entries(row.data)) {
+    if (!isSameValue(current[field], value)) changes.push({ field, from: current[field] ?? null, to: value });
+  }
+  for (const [name, value] of Object.entries(row.features)) {
+    if (!isSameValue(currentFeatures[name], value)) changes.push({ field: `${FEATURE_TARGET_PREFIX}${name}`, from: currentFeatures[name] ?? null, to: value });
+  }
+  return changes;
+}
+
+const importPlans = new Map<string, ImportPlan>();
+
+/**
+ * Keep dry run changes until they are confirmed by the token.
+ */
+function saveImportPlan(store: string, items: ImportPlanItem[], now = Date.now()): ImportPlan {
+  for (const [token, plan] of importPlans) {
+    if (plan.expiresAt <= now) importPlans.delete(token);
+  }
+  const plan = { token: randomUUID(), store, items, expiresAt: now + IMPORT_PLAN_TTL };
+  importPlans.set(plan.token, plan);
+  return plan;
+}
+
+/**
+ * Take the dry run changes, the token is valid once.
+ * @throws Error for unknown or expired tokens and tokens of another store
+ */
+function takeImportPlan(token: string, store: string, now = Date.now()): ImportPlan {
+  const plan = importPlans.get(token);
+  if (!plan || plan.expiresAt <= now) {
+    importPlans.delete(token);
+    throw new Error("Import token is unknown or expired, run the import without confirm again");
+  }
+  if (plan.store !== store) throw new Error(`Import token belongs to store "${plan.store}"`);
+  importPlans.delete(token);
+  return plan;
+}
+
+/**
+ * Import directory from CSCART_IMPORT_DIR, default `imports` in the data dir.
+ */
+function getImportDir(env: NodeJS.ProcessEnv = process.env): string {
+  return path.resolve(env["CSCART_IMPORT_DIR"] ?? path.join(getDataDir(env), "imports"));
+}
+
+/**
+ * Read the file from the import directory.
+ * @throws Error for files outside of the directory
+ */
+async function readImportFile(dir: string, file: string): Promise<string> {
+  const resolved = path.resolve(dir, file);
+  const relative = path.relative(dir, resolved);
+  if (!relative || relative.startsWith("..") || path.isAbsolute(relative)) {
+    throw new Error(`Import file should be in the import directory ${dir}`);
+  }
+  return fs.readFile(resolved, "utf-8");
+}
+
+export type { ImportFormat, ImportKey, ImportRecord, MappedImportRow, ImportChange, ImportPlanItem, ImportPlan };
+
+export {
+  IMPORT_FORMATS,
+  IMPORT_FIELDS,
+  FEATURE_TARGET_PREFIX,
+  parseCsv,
+  parseImportRecords,
+  getColumnMapping,
+  mapImportRow,
+  createProductMatcher,
+  diffProductFields,
+  saveImportPlan,
+  takeImportPlan,
+  getImportDir,
+  readImportFile,
+};
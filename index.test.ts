@@ -1,12 +1,34 @@
-import { describe, it, expect, vi, beforeAll } from 'vitest';
+import { describe, it, expect, vi, afterAll } from 'vitest';
 import * as dotenv from 'dotenv';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { startMockServer } from './mock-server.js';
+import { OrderSchema, ProductSchema } from './schemas.js';
 dotenv.config();
 
+// Stores config is read from the environment on first use, API calls go to the mock CS-Cart API
+const mock = await startMockServer();
+const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'cscart-data-'));
+Object.assign(process.env, {
+  CSCART_SHOP_URL: mock.url,
+  CSCART_EMAIL: mock.email,
+  CSCART_API_KEY: mock.apiKey,
+  CSCART_STORES_FILE: '',
+  CSCART_DATA_DIR: dataDir,
+});
+
 // Import functions to test
-import { searchProducts } from './index.js';
-import * as api from './api.js';
+const { searchProducts, getProducts, searchOrders, updateProduct, updateOrder, getCustomerHistory, exportProducts, importProducts, auditProducts, getInventory } = await import('./index.js');
+const api = await import('./api.js');
+const writes = await import('./writes.js');
 
 describe('CS-Cart MCP Server', () => {
+  afterAll(async () => {
+    await mock.close();
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
   it('should load environment variables', () => {
     expect(process.env.CSCART_SHOP_URL).toBeDefined();
     expect(process.env.CSCART_EMAIL).toBeDefined();
@@ -20,23 +42,318 @@ describe('CS-Cart MCP Server', () => {
     expect(api.getFeaturesWithVariants).toBeInstanceOf(Function);
   });
 
-  it('searchProducts should filter products by name and code', async () => {
-    // Mock getProducts to return a controlled list
+  it('searchProducts should pass filters to API and return page with total', async () => {
     const mockProducts = [
-      { product: 'Test Product', product_code: 'ABC123' },
-      { product: 'Other', product_code: 'XYZ789' },
+      { product_id: 1, product: 'Test Product', product_code: 'ABC123', price: 10 },
+    ];
+    const searchProductsSpy = vi.spyOn(api, 'searchProducts').mockResolvedValue({ products: mockProducts, total: 31 });
+    const result = await searchProducts({ name: ' Test ', code: 'ABC', priceFrom: 5, page: 2, limit: 10 });
+    expect(searchProductsSpy).toHaveBeenCalledWith(expect.objectContaining({ name: 'Test', code: 'ABC', priceFrom: 5, page: 2, limit: 10 }));
+    expect(result).toEqual({ products: mockProducts, total: 31, page: 2, limit: 10 });
+    searchProductsSpy.mockRestore();
+  });
+
+  it('matchFeatureConditions should match variants, multiple variants and numeric ranges', () => {
+    const values = [
+      { feature_id: 1, description: 'Color', feature_type: 'S', variant_id: '10' },
+      { feature_id: 2, description: 'Size', feature_type: 'M', variants: { '20': { variant_id: 20, selected: '20' }, '21': { variant_id: 21, selected: null } } },
+      { feature_id: 3, description: 'Warranty', feature_type: 'O', value_int: '2.00' },
+    ];
+    expect(api.matchFeatureConditions(values, [{ featureId: 1, featureType: 'S', variantIds: [10, 11] }])).toBe(true);
+    expect(api.matchFeatureConditions(values, [{ featureId: 2, featureType: 'M', variantIds: [21] }])).toBe(false);
+    expect(api.matchFeatureConditions(values, [{ featureId: 2, featureType: 'M', variantIds: [20] }, { featureId: 3, featureType: 'O', from: 2 }])).toBe(true);
+    expect(api.matchFeatureConditions(values, [{ featureId: 3, featureType: 'O', from: 3 }])).toBe(false);
+    expect(api.matchFeatureConditions(values, [{ featureId: 4, featureType: 'S', variantIds: [1] }])).toBe(false);
+  });
+
+  it('searchProducts with features should check candidates feature values', async () => {
+    const candidates = [
+      { product_id: 1, product: 'Red', product_code: 'R', price: 1 },
+      { product_id: 2, product: 'Blue', product_code: 'B', price: 1 },
     ];
-    // Spy on getProducts
+    const conditions = [{ featureId: 1, featureType: 'S', variantIds: [10] }];
+    const resolveSpy = vi.spyOn(api, 'resolveFeatureFilters').mockResolvedValue(conditions);
+    const searchSpy = vi.spyOn(api, 'searchProducts').mockResolvedValue({ products: candidates, total: 2 });
+    const valuesSpy = vi.spyOn(api, 'getProductFeatureValues').mockImplementation(async (productId) => [
+      { feature_id: 1, description: 'Color', feature_type: 'S', variant_id: productId === 1 ? '10' : '11' },
+    ]);
+    const result = await searchProducts({ priceTo: 100, features: [{ name: 'Color', value: 'Red' }] });
+    expect(resolveSpy).toHaveBeenCalledWith([{ name: 'Color', value: 'Red' }]);
+    expect(searchSpy).toHaveBeenCalledWith(expect.objectContaining({ priceTo: 100, page: 1 }));
+    expect(result.products.map(p => p.product_id)).toEqual([1]);
+    expect(result).toMatchObject({ total: 1, scanned: 2, complete: true });
+    [resolveSpy, searchSpy, valuesSpy].forEach(spy => spy.mockRestore());
+  });
+
+  it('getProducts should paginate and project fields', async () => {
+    const mockProducts = Array.from({ length: 5 }, (_, i) => ({ product_id: i + 1, product: `P${i + 1}`, product_code: `C${i + 1}`, price: i }));
     const getProductsSpy = vi.spyOn(api, 'getProducts').mockResolvedValue(mockProducts);
-    const results = await searchProducts({ name: 'Test', code: 'ABC' });
-    expect(Array.isArray(results)).toBe(true);
-    expect(results.length).toBe(1);
-    expect(results[0].product).toBe('Test Product');
-    // Restore
+    const result = await getProducts({ page: 2, limit: 2, fields: ['price'] });
+    expect(result.total).toBe(5);
+    expect(result.products).toEqual([{ product_id: 3, price: 2 }, { product_id: 4, price: 3 }]);
     getProductsSpy.mockRestore();
   });
 
-  // Example test for getProduct (integration, requires real API and valid productId)
+  it('searchOrders should convert dates and return compact summaries', async () => {
+    const mockOrders = [
+      OrderSchema.parse({ order_id: '100', status: 'P', timestamp: '1700000000', total: '25.00', firstname: 'John', lastname: 'Doe', email: 'john@example.com', phone: '123' }),
+    ];
+    const searchOrdersSpy = vi.spyOn(api, 'searchOrders').mockResolvedValue(mockOrders);
+    const results = await searchOrders({ status: 'P', createdFrom: '2023-11-01', email: 'john@example.com' });
+    expect(searchOrdersSpy).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'P',
+      email: 'john@example.com',
+      createdFrom: Math.floor(new Date('2023-11-01T00:00:00').getTime() / 1000),
+    }));
+    expect(results).toEqual([expect.objectContaining({ order_id: 100, status: 'P', name: 'John Doe', total: 25 })]);
+    expect(results[0]).not.toHaveProperty('products');
+    searchOrdersSpy.mockRestore();
+  });
+
+  it('updateProduct should map only passed fields to CS-Cart product fields', async () => {
+    const request = { method: 'PUT' as const, path: '/products/10', body: { price: 5, status: 'D', product_features: { 3: '7' } } };
+    const requestSpy = vi.spyOn(api, 'getProductRequest').mockResolvedValue(request);
+    const saveProductSpy = vi.spyOn(api, 'saveProduct').mockResolvedValue(10);
+    const current = { ...ProductSchema.parse({ product_id: 10, price: 5 }), product_features: [] };
+    const getProductSpy = vi.spyOn(api, 'getProduct').mockResolvedValue(current);
+    const product = await updateProduct({ productId: 10, price: 5, status: 'D', features: { Color: 'Red' } });
+    expect(requestSpy).toHaveBeenCalledWith(10, { price: 5, status: 'D' }, { Color: 'Red' });
+    expect(saveProductSpy).toHaveBeenCalledWith(request);
+    expect(product).toEqual(current);
+
+    const dryRun = await updateProduct({ productId: 10, price: 7, dryRun: true });
+    expect(dryRun).toEqual({ dry_run: true, requests: [request], changes: [{ field: 'price', from: 5, to: 7 }] });
+    expect(await updateProduct({ productId: 10, price: 5 })).toEqual({ dry_run: false, requests: [], changes: [] });
+    expect(saveProductSpy).toHaveBeenCalledTimes(1);
+    await expect(updateProduct({ productId: 10 })).rejects.toThrow('Nothing to update');
+    [requestSpy, saveProductSpy, getProductSpy].forEach(spy => spy.mockRestore());
+  });
+
+  it('updateOrder should validate status and report before/after state', async () => {
+    const statuses = [{ status: 'O', description: 'Open' }, { status: 'C', description: 'Complete' }];
+    const getOrderSpy = vi.spyOn(api, 'getOrder').mockResolvedValue(OrderSchema.parse({ order_id: 5, status: 'O', details: 'old' }));
+    const shipmentsSpy = vi.spyOn(api, 'getOrderShipments').mockResolvedValue([]);
+    const statusesSpy = vi.spyOn(api, 'getOrderStatuses').mockResolvedValue(statuses);
+    const sendSpy = vi.spyOn(api, 'sendWriteRequest').mockResolvedValue({});
+
+    await expect(updateOrder({ orderId: 5, status: 'X' })).rejects.toThrow('Unknown order status');
+    expect(sendSpy).not.toHaveBeenCalled();
+
+    getOrderSpy
+      .mockResolvedValueOnce(OrderSchema.parse({ order_id: 5, status: 'O', details: 'old' }))
+      .mockResolvedValueOnce(OrderSchema.parse({ order_id: 5, status: 'C', details: 'old\nshipped' }));
+    const result = await updateOrder({ orderId: 5, status: 'c', notifyCustomer: true, staffNote: 'shipped' });
+    expect(sendSpy).toHaveBeenCalledWith({
+      method: 'PUT',
+      path: '/orders/5',
+      body: expect.objectContaining({ status: 'C', notify_user: 'Y', notify_department: 'N', details: 'old\nshipped' }),
+    });
+    expect(result).toMatchObject({ before: { status_description: 'Open' }, after: { status_description: 'Complete' } });
+
+    [getOrderSpy, shipmentsSpy, statusesSpy, sendSpy].forEach(spy => spy.mockRestore());
+  });
+
+  it('should build categories tree and category path', () => {
+    const categories = [
+      { category_id: 1, parent_id: 0, id_path: '1', category: 'Apparel' },
+      { category_id: 2, parent_id: 1, id_path: '1/2', category: 'Shirts' },
+      { category_id: 3, parent_id: 99, id_path: '99/3', category: 'Orphan' },
+    ];
+    const tree = api.getCategoriesTree(categories);
+    expect(tree.map(c => c.category_id)).toEqual([1, 3]);
+    expect(tree[0].children.map(c => c.category)).toEqual(['Shirts']);
+    expect(api.getCategoryPath(2, categories)).toBe('Apparel / Shirts');
+    expect(api.getCategoryPath(42, categories)).toBe('');
+  });
+
+  it('getCustomerHistory should aggregate orders into lifetime value and top products', async () => {
+    const order = (order_id: number, status: string, total: number, timestamp: number, products: Record<string, unknown>) =>
+      OrderSchema.parse({ order_id, status, total, timestamp, firstname: 'John', lastname: 'Doe', email: 'john@example.com', phone: '', products });
+    const orders = [
+      order(3, 'C', 30, 1700200000, { a: { product_id: 1, product: 'Shirt', product_code: 'S', amount: 3, subtotal: 30 } }),
+      order(2, 'I', 99, 1700100000, { b: { product_id: 2, product: 'Hat', product_code: 'H', amount: 5, subtotal: 99 } }),
+      order(1, 'P', 15, 1700000000, { c: { product_id: 1, product: 'Shirt', product_code: 'S', amount: 1, subtotal: 10 }, d: { product_id: 3, product: 'Socks', product_code: 'K', amount: 1, subtotal: 5 } }),
+    ];
+    const usersSpy = vi.spyOn(api, 'searchUsers').mockResolvedValue({ users: [], total: 0 });
+    const searchOrdersSpy = vi.spyOn(api, 'searchOrders').mockResolvedValue(orders);
+    const detailsSpy = vi.spyOn(api, 'getOrdersDetails').mockImplementation(async (list) => list);
+    const result = await getCustomerHistory({ email: 'john@example.com' });
+    expect(searchOrdersSpy).toHaveBeenCalledWith({ email: 'john@example.com', limit: 100 });
+    expect(result).toMatchObject({
+      customer: { name: 'John Doe', email: 'john@example.com' },
+      order_count: 2,
+      orders_analyzed: 3,
+      lifetime_value: 45,
+      average_order_value: 22.5,
+      statuses: { C: 1, I: 1, P: 1 },
+      last_order_date: new Date(1700200000 * 1000).toISOString(),
+    });
+    expect(result.top_products.map(p => [p.product_id, p.quantity, p.orders])).toEqual([[1, 4, 2], [3, 1, 1]]);
+    [usersSpy, searchOrdersSpy, detailsSpy].forEach(spy => spy.mockRestore());
+  });
+
+  it('exportProducts should page search results, load feature values and write the file', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cscart-export-'));
+    process.env.CSCART_EXPORT_DIR = dir;
+    const page = (from: number, count: number) => Array.from({ length: count }, (_, i) => (
+      { product_id: from + i, product: `P${from + i}`, product_code: `C${from + i}`, price: 1 }
+    ));
+    const searchSpy = vi.spyOn(api, 'searchProducts')
+      .mockResolvedValueOnce({ products: page(1, 250), total: 260 })
+      .mockResolvedValueOnce({ products: page(251, 10), total: 260 });
+    const productSpy = vi.spyOn(api, 'getProduct').mockImplementation(async (productId) => (
+      { product_id: productId, product: `P${productId}`, product_code: `C${productId}`, price: 1, product_features: [{ Color: 'Red' }] }
+    ));
+    try {
+      const result = await exportProducts({ status: 'A', columns: ['product_id'], featureColumns: true, maxProducts: 255, filename: 'export.csv' });
+      expect(searchSpy).toHaveBeenCalledWith(expect.objectContaining({ status: 'A', page: 2, limit: 250 }));
+      expect(productSpy).toHaveBeenCalledTimes(255);
+      expect(result).toMatchObject({ path: path.join(dir, 'export.csv'), format: 'csv', count: 255, total: 260, columns: ['product_id', 'feature:Color'] });
+      expect(result.preview.split('\n').slice(0, 2)).toEqual(['product_id,feature:Color', '1,Red']);
+      expect((await fs.readFile(result.path, 'utf-8')).trim().split('\n')).toHaveLength(256);
+    } finally {
+      searchSpy.mockRestore();
+      productSpy.mockRestore();
+      delete process.env.CSCART_EXPORT_DIR;
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('exportProducts should report truncated feature filters search', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cscart-export-'));
+    process.env.CSCART_EXPORT_DIR = dir;
+    const candidates = Array.from({ length: 100 }, (_, i) => ({ product_id: i + 1, product: `P${i + 1}`, product_code: `C${i + 1}`, price: 1 }));
+    const resolveSpy = vi.spyOn(api, 'resolveFeatureFilters').mockResolvedValue([{ featureId: 1, featureType: 'S', variantIds: [10] }]);
+    const searchSpy = vi.spyOn(api, 'searchProducts').mockResolvedValue({ products: candidates, total: 1000 });
+    const valuesSpy = vi.spyOn(api, 'getProductFeatureValues').mockImplementation(async (productId) => [
+      { feature_id: 1, description: 'Color', feature_type: 'S', variant_id: productId % 2 ? '10' : '11' },
+    ]);
+    try {
+      const result = await exportProducts({ columns: ['product_id'], features: [{ name: 'Color', value: 'Red' }], maxScan: 200, filename: 'export.csv' });
+      expect(searchSpy).toHaveBeenCalledTimes(2);
+      expect(result).toMatchObject({ count: 100, total: 100, truncated: true, scanned: 200 });
+
+      const complete = await exportProducts({ columns: ['product_id'], status: 'A', filename: 'export.csv' });
+      expect(complete).not.toHaveProperty('truncated');
+    } finally {
+      [resolveSpy, searchSpy, valuesSpy].forEach(spy => spy.mockRestore());
+      delete process.env.CSCART_EXPORT_DIR;
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('importProducts should return a dry run diff and apply it with the token', async () => {
+    const products = [
+      { product_id: 1, product: 'Cup', product_code: 'CUP', price: 10, amount: 5 },
+      { product_id: 2, product: 'Tea', product_code: 'TEA', price: 4, amount: 0 },
+    ];
+    const productsSpy = vi.spyOn(api, 'getProducts').mockResolvedValue(products);
+    const featuresSpy = vi.spyOn(api, 'getFeatures').mockResolvedValue([]);
+    const updateSpy = vi.spyOn(api, 'saveProduct').mockImplementation(async (request) => {
+      if (request.path === '/products/2') throw new Error('CS-Cart API PUT /products/2 failed: 500');
+      return Number(request.path.split('/')[2]);
+    });
+    const auditSpy = vi.spyOn(writes, 'appendAuditLog').mockRejectedValue(new Error('EACCES'));
+    try {
+      const content = 'sku,price,stock,note\nCUP,12,5,x\nTEA,4.5,10,\nPOT,1,1,\nCUP2,abc,,';
+      const dryRun = await importProducts({ content });
+      expect(productsSpy).toHaveBeenCalledWith(true);
+      expect(updateSpy).not.toHaveBeenCalled();
+      expect(dryRun).toMatchObject({
+        dry_run: true,
+        summary: { rows: 4, update: 2, not_found: 1, error: 1 },
+        ignored_columns: ['note'],
+      });
+      expect(dryRun.rows[0]).toEqual({ row: 1, product_id: 1, product_code: 'CUP', status: 'update', changes: [{ field: 'price', from: 10, to: 12 }] });
+      expect(dryRun.rows[3]).toMatchObject({ row: 4, status: 'error', error: 'price: "abc" is not a number' });
+
+      const applied = await importProducts({ confirm: dryRun.token! });
+      expect(updateSpy).toHaveBeenCalledWith({ method: 'PUT', path: '/products/1', body: { price: 12 } });
+      expect(updateSpy).toHaveBeenCalledWith({ method: 'PUT', path: '/products/2', body: { price: 4.5, amount: 10 } });
+      expect(auditSpy).toHaveBeenCalledTimes(1);
+      expect(applied.summary).toEqual({ rows: 2, updated: 1, failed: 1 });
+      expect(applied.rows[1]).toMatchObject({ row: 2, product_id: 2, status: 'failed', error: expect.stringContaining('500') });
+      await expect(importProducts({ confirm: dryRun.token! })).rejects.toThrow('unknown or expired');
+    } finally {
+      productsSpy.mockRestore();
+      featuresSpy.mockRestore();
+      updateSpy.mockRestore();
+      auditSpy.mockRestore();
+    }
+  });
+
+  it('auditProducts should check the catalog for duplicates and products details', async () => {
+    const products = [
+      { product_id: 1, product: 'Cup', product_code: 'A', price: 0 },
+      { product_id: 2, product: 'Tea', product_code: 'A', price: 4 },
+      { product_id: 3, product: 'Pot', product_code: 'P', price: 9 },
+    ];
+    const productsSpy = vi.spyOn(api, 'getProducts').mockResolvedValue(products);
+    const searchSpy = vi.spyOn(api, 'searchProducts').mockResolvedValue({ products: products.slice(0, 2), total: 2 });
+    const featuresSpy = vi.spyOn(api, 'getFeatures').mockResolvedValue([]);
+    const categoriesSpy = vi.spyOn(api, 'getCategories').mockResolvedValue([]);
+    const productSpy = vi.spyOn(api, 'getProductWithFeatureValues').mockImplementation(async (productId) => ({
+      product: {
+        ...products[productId - 1], product_features: [], main_category: 5, full_description: 'Text',
+        main_pair: productId === 1 ? undefined : { detailed: { image_path: 'https://shop.test/1.jpg' } },
+      },
+      values: [],
+    }));
+    try {
+      const report = await auditProducts({ categoryId: 5, requiredFeatures: { '5': ['Brand'] } });
+      expect(searchSpy).toHaveBeenCalledWith(expect.objectContaining({ categoryId: 5, page: 1 }));
+      expect(report).toMatchObject({ scanned: 2, total: 2, counts: { zero_price: 1, duplicate_code: 2, missing_features: 2, missing_image: 1 } });
+      expect(report.products[0].findings.map(f => f.check)).toEqual(['zero_price', 'duplicate_code', 'missing_features', 'missing_image']);
+
+      productSpy.mockClear();
+      const listReport = await auditProducts({ checks: ['duplicate_code'] });
+      expect(productSpy).not.toHaveBeenCalled();
+      expect(listReport).toMatchObject({ scanned: 3, total: 3, counts: { duplicate_code: 2 } });
+    } finally {
+      [productsSpy, searchSpy, featuresSpy, categoriesSpy, productSpy].forEach(spy => spy.mockRestore());
+    }
+  });
+
+  it('getInventory should compute days left from recent sales and load combinations of listed products', async () => {
+    const products = [
+      { product_id: 1, product: 'Cup', product_code: 'A', price: 5, amount: 100, category_ids: [5] },
+      { product_id: 2, product: 'Tea', product_code: 'B', price: 4, amount: 3 },
+      { product_id: 3, product: 'Pot', product_code: 'P', price: 9, amount: 20 },
+    ];
+    const orders = [
+      { order_id: 1, status: 'C', products: { a: { product_id: 1, amount: 60 }, b: { product_id: 3, amount: 1 } } },
+      { order_id: 2, status: 'I', products: { a: { product_id: 3, amount: 90 } } },
+    ];
+    const productsSpy = vi.spyOn(api, 'getProducts').mockResolvedValue(products as any);
+    const categoriesSpy = vi.spyOn(api, 'getCategories').mockResolvedValue([]);
+    const ordersSpy = vi.spyOn(api, 'searchOrders').mockResolvedValue(orders as any);
+    const detailsSpy = vi.spyOn(api, 'getOrdersDetails').mockImplementation(async (list) => list);
+    const combinationsSpy = vi.spyOn(api, 'getProductCombinations').mockResolvedValue([]);
+    try {
+      const result = await getInventory({ thresholds: { categories: { '5': 150 } }, includeCombinations: true, limit: 2 });
+      expect(ordersSpy).toHaveBeenCalledWith({ createdFrom: expect.any(Number), limit: 2001 });
+      expect(result).toMatchObject({ total: 3, low_stock: 2, sales_days: 30, orders_analyzed: 2, truncated: false });
+      expect(result.items.map(i => [i.product_id, i.threshold, i.low_stock, i.days_left])).toEqual([[1, 150, true, 50], [3, 5, false, 600]]);
+      expect(combinationsSpy.mock.calls.map(call => call[0])).toEqual([1, 3]);
+
+      ordersSpy.mockClear();
+      const lowStock = await getInventory({ lowStockOnly: true, salesDays: 0 });
+      expect(ordersSpy).not.toHaveBeenCalled();
+      expect(lowStock.items.map(i => i.product_id)).toEqual([2]);
+
+      combinationsSpy.mockImplementation(async (productId) => (productId === 3
+        ? [{ product_id: 3, combination_hash: '1', combination: { 7: 70 }, amount: 2, product_code: 'P-1' }]
+        : []));
+      const lowCombinations = await getInventory({ lowStockOnly: true, includeCombinations: true, salesDays: 0, limit: 1 });
+      expect(lowCombinations).toMatchObject({ total: 3, low_stock: 2 });
+      expect(lowCombinations.items.map(i => [i.product_id, i.combinations?.length ?? 0])).toEqual([[2, 0]]);
+      const lowCombinationsAll = await getInventory({ lowStockOnly: true, includeCombinations: true, salesDays: 0 });
+      expect(lowCombinationsAll.items.map(i => [i.product_id, i.combinations?.length ?? 0])).toEqual([[2, 0], [3, 1]]);
+    } finally {
+      [productsSpy, categoriesSpy, ordersSpy, detailsSpy, combinationsSpy].forEach(spy => spy.mockRestore());
+    }
+  });
+
   it('should fetch a product by ID', async () => {
     const product = await api.getProduct(1221);
     expect(product).toBeDefined();
@@ -3,174 +3,1802 @@
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { Tool, ToolSchema } from "@modelcontextprotocol/sdk/types.js";
-import { ListToolsRequestSchema, CallToolRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import {
+  ListToolsRequestSchema,
+  CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  SetLevelRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 import { zodToJsonSchema } from "zod-to-json-schema";
 import path from "path";
+import { realpathSync } from "fs";
 import { fileURLToPath } from "url";
+import { randomUUID } from "crypto";
 import dotenv from "dotenv";
 import * as api from "./api.js";
-import fs from "fs";
+import type { CacheChange } from "./cache.js";
+import { CscartApiError } from "./client.js";
+import {
+  CategorySchema,
+  CategoryTreeNodeSchema,
+  CscartValidationError,
+  FeatureSchema,
+  OrderSchema,
+  ProductSchema,
+  ProductWithFeaturesSchema,
+  UserSchema,
+} from "./schemas.js";
+import type { Category, CategoryTreeNode, Order, Product, ProductWithFeatures } from "./schemas.js";
+import { buildSalesReport, formatSalesReport } from "./reports.js";
+import { ORDER_MESSAGE_FORMATS, formatProductUrl } from "./messages.js";
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  EXPORT_FORMATS,
+  FEATURE_COLUMN_PREFIX,
+  flattenFeatures,
+  getExportDir,
+  getExportFilename,
+  getExportPreview,
+  getFeatureColumns,
+  renderExport,
+  writeExportFile,
+} from "./exports.js";
+import type { ExportProduct } from "./exports.js";
+import {
+  FEATURE_TARGET_PREFIX,
+  IMPORT_FORMATS,
+  createProductMatcher,
+  diffProductFields,
+  getColumnMapping,
+  getImportDir,
+  mapImportRow,
+  parseImportRecords,
+  readImportFile,
+  saveImportPlan,
+  takeImportPlan,
+} from "./imports.js";
+import { PROMPTS, getPrompt } from "./prompts.js";
+import { getHttpConfig, startHttpServer } from "./http.js";
+import { getDefaultStoreName, getStoreConfig, runWithStore } from "./stores.js";
+import {
+  AUDIT_CHECKS,
+  auditListProduct,
+  auditProductDetails,
+  countFindings,
+  findDuplicates,
+  formatAuditReport,
+  getRequiredFeatures,
+  loadAuditRules,
+  needsProductDetails,
+} from "./audit.js";
+import type { AuditProductResult, AuditReport } from "./audit.js";
+import {
+  StockThresholdsSchema,
+  compareInventoryItems,
+  formatInventory,
+  getInventoryItem,
+  getProductSales,
+  getSalesPeriodStart,
+  loadStockThresholds,
+} from "./inventory.js";
+import type { InventoryItem, InventoryOptions } from "./inventory.js";
+import { getProductOptionsInfo } from "./options.js";
+import type { ProductOptionsInfo } from "./options.js";
+import { RESOURCE_TEMPLATES, getResourceChanges, listResources, parseResourceUri, readResource } from "./resources.js";
+import { configureLogging, isLevelEnabled, logger, onLog, runWithLogContext } from "./logger.js";
+import type { LogLevel } from "./logger.js";
+import { AUDIT_ENTITIES, appendAuditLog, assertWritePolicy, getDeniedFields, isWriteToolAllowed, readAuditLog } from "./writes.js";
+import type { FieldChange } from "./writes.js";
+import { createOrderWatcher, getWatchConfig, onOrderEvent } from "./watcher.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
-process.chdir(__dirname);
-dotenv.config();
-
-// log(`CSCART_SHOP_URL: ${process.env.CSCART_SHOP_URL}`)
-
-function log(message: string) {
-  // write to data/mcp.log, format [date time] message
-  // const logPath = path.join(__dirname, 'data', 'mcp.log');
-  const logPath = path.join('d:/projects/expertizeme/cscart-mcp-server/data', 'mcp.log');
-  const logMessage = `[${new Date().toISOString()}] ${message}\n`;
-  fs.appendFileSync(logPath, logMessage);
-}
+dotenv.config({ path: path.join(__dirname, ".env") });
 
 const ToolInputSchema = ToolSchema.shape.inputSchema;
 type ToolInput = z.infer<typeof ToolInputSchema>;
+type ToolOutput = NonNullable<Tool["outputSchema"]>;
+
+// Failed, declined, canceled, incomplete orders
+const DEFAULT_EXCLUDED_STATUSES = ["F", "D", "I", "N"];
+const SALES_REPORT_MAX_ORDERS = 2000;
+const FEATURE_SEARCH_MAX_SCAN = 500;
+const FEATURE_SEARCH_BATCH = 100;
+const DEFAULT_PRODUCT_FIELDS = ["product_id", "product", "product_code", "price", "amount", "status"];
+const EXPORT_DEFAULT_PRODUCTS = 1000;
+const EXPORT_MAX_PRODUCTS = 10000;
+const EXPORT_PAGE_SIZE = 250;
+const EXPORT_DETAILS_BATCH = 50;
+const AUDIT_DEFAULT_PRODUCTS = 500;
+const AUDIT_MAX_PRODUCTS = 5000;
+const AUDIT_DETAILS_BATCH = 20;
+const INVENTORY_SALES_DAYS = 30;
+const INVENTORY_MAX_PRODUCTS = 10000;
+const INVENTORY_COMBINATIONS_BATCH = 20;
+const AUDIT_LOG_LIMIT = 50;
+const IMPORT_MAX_ROWS = 5000;
+const IMPORT_BATCH_SIZE = 20;
+// Columns missing in the products list, products are loaded one by one for them
+const EXPORT_DETAIL_COLUMNS = ["categories", "image_url", "short_description", "full_description", "product_features"];
 
 // --- Input Schemas ---
 const GetProductInputSchema = z.object({
   productId: z.number().int().positive().describe("ID of the product to retrieve"),
 });
+const GetProductOptionsInputSchema = z.object({
+  productId: z.number().int().positive().describe("ID of the product"),
+});
 const GetOrderInputSchema = z.object({
   orderId: z.number().int().positive().describe("ID of the order to retrieve"),
+  format: z.enum(ORDER_MESSAGE_FORMATS).optional().describe("Order message format: markdown, plain, telegram (HTML), json or template (configured custom template). Default: template when configured, markdown otherwise"),
+});
+const SearchOrdersInputSchema = z.object({
+  status: z.union([z.string(), z.array(z.string())]).optional().describe("Order status code(s), e.g. \"O\" (open), \"P\" (processed), \"C\" (complete)"),
+  createdFrom: z.string().optional().describe("Created at or after this date (YYYY-MM-DD or ISO datetime)"),
+  createdTo: z.string().optional().describe("Created at or before this date (YYYY-MM-DD or ISO datetime)"),
+  updatedFrom: z.string().optional().describe("Updated at or after this date (YYYY-MM-DD or ISO datetime)"),
+  updatedTo: z.string().optional().describe("Updated at or before this date (YYYY-MM-DD or ISO datetime)"),
+  email: z.string().optional().describe("Customer email"),
+  phone: z.string().optional().describe("Customer phone"),
+  customerName: z.string().optional().describe("Customer first and/or last name"),
+  totalFrom: z.number().optional().describe("Minimal order total"),
+  totalTo: z.number().optional().describe("Maximal order total"),
+  productId: z.number().int().positive().optional().describe("Only orders containing this product"),
+  limit: z.number().int().positive().max(1000).optional().describe("Maximum number of orders to return, default 100"),
+});
+const DryRunInputSchema = z.boolean().optional().describe("Return the CS-Cart requests and changed fields without saving");
+const ProductFeaturesInputSchema = z.record(z.union([z.string(), z.number(), z.boolean(), z.array(z.string())]))
+  .describe("Feature values by feature name, e.g. {\"Color\": \"Red\", \"Size\": [\"S\", \"M\"]}. Select features take variant names.");
+const ProductFieldsInputSchema = z.object({
+  name: z.string().optional().describe("Product name"),
+  price: z.number().nonnegative().optional().describe("Product price"),
+  amount: z.number().int().optional().describe("Stock amount"),
+  status: z.enum(["A", "D", "H"]).optional().describe("Status: A - active, D - disabled, H - hidden"),
+  shortDescription: z.string().optional().describe("Short description (HTML)"),
+  fullDescription: z.string().optional().describe("Full description (HTML)"),
+  features: ProductFeaturesInputSchema.optional(),
+});
+const UpdateProductInputSchema = ProductFieldsInputSchema.extend({
+  productId: z.number().int().positive().describe("ID of the product to update"),
+  dryRun: DryRunInputSchema,
+});
+const CreateProductInputSchema = ProductFieldsInputSchema.extend({
+  name: z.string().describe("Product name"),
+  price: z.number().nonnegative().describe("Product price"),
+  productCode: z.string().optional().describe("Product code (SKU)"),
+  categoryIds: z.array(z.number().int().positive()).min(1).describe("Category IDs, the first one is the main category"),
+  dryRun: DryRunInputSchema,
+});
+const UpdateOrderInputSchema = z.object({
+  orderId: z.number().int().positive().describe("ID of the order to update"),
+  status: z.string().optional().describe("New order status code, must be one of the store order statuses"),
+  notifyCustomer: z.boolean().optional().describe("Notify customer about the status change, default false"),
+  notifyDepartment: z.boolean().optional().describe("Notify orders department about the status change, default false"),
+  notifyVendor: z.boolean().optional().describe("Notify vendor about the status change, default false"),
+  staffNote: z.string().optional().describe("Text appended to the staff only notes of the order"),
+  trackingNumber: z.string().optional().describe("Shipment tracking number"),
+  carrier: z.string().optional().describe("Shipment carrier code, e.g. \"usps\", \"dhl\""),
+  dryRun: DryRunInputSchema,
+});
+const ImportProductsInputSchema = z.object({
+  file: z.string().optional().describe("CSV or JSON file name in the import directory"),
+  content: z.string().optional().describe("CSV or JSON content, used instead of file"),
+  format: z.enum(IMPORT_FORMATS).optional().describe("csv or json, default by the file extension, csv for content"),
+  matchBy: z.enum(["product_code", "product_id"]).optional().describe("Match rows to products by product_code (default when there is a product_code column) or product_id"),
+  mapping: z.record(z.string()).optional().describe(`Column to target: product field, ${FEATURE_TARGET_PREFIX}<feature name>, or "" to skip the column. Columns are mapped by field names, aliases (code, sku, name, stock, ...) and feature names by default`),
+  confirm: z.string().optional().describe("Token returned by the dry run, applies its changes"),
+  batchSize: z.number().int().positive().max(100).optional().describe(`Products updated at once when applying, default ${IMPORT_BATCH_SIZE}`),
+});
+const PageInputSchema = z.object({
+  page: z.number().int().positive().optional().describe("Page number, starting from 1"),
+  limit: z.number().int().positive().max(250).optional().describe("Products per page, default 50"),
+});
+const SearchUsersInputSchema = z.object({
+  email: z.string().optional().describe("User email"),
+  phone: z.string().optional().describe("User phone"),
+  name: z.string().optional().describe("User first and/or last name"),
+  userType: z.enum(["C", "A", "V"]).optional().describe("User type: C - customer, A - administrator, V - vendor administrator"),
+  page: z.number().int().positive().optional().describe("Page number, starting from 1"),
+  limit: z.number().int().positive().max(250).optional().describe("Users per page, default 50"),
+});
+const GetUserInputSchema = z.object({
+  userId: z.number().int().positive().describe("ID of the user to retrieve"),
+});
+const GetCustomerHistoryInputSchema = z.object({
+  userId: z.number().int().positive().optional().describe("Customer user ID"),
+  email: z.string().optional().describe("Customer email, used when userId is not passed, includes guest orders"),
+  maxOrders: z.number().int().positive().max(1000).optional().describe("Max latest orders to analyze, default 100"),
+  excludeStatuses: z.array(z.string()).optional().describe(`Order statuses not counted in lifetime value, default: ${DEFAULT_EXCLUDED_STATUSES.join(", ")}`),
+  topProducts: z.number().int().positive().max(100).optional().describe("Number of most bought products to return, default 10"),
+});
+const SalesReportInputSchema = z.object({
+  from: z.string().describe("Start date (YYYY-MM-DD or ISO datetime)"),
+  to: z.string().describe("End date, inclusive (YYYY-MM-DD or ISO datetime)"),
+  period: z.enum(["day", "week", "month"]).optional().describe("Revenue breakdown period, default day"),
+  status: z.union([z.string(), z.array(z.string())]).optional().describe("Only orders with these status codes"),
+  excludeStatuses: z.array(z.string()).optional().describe(`Order statuses not counted in revenue, default: ${DEFAULT_EXCLUDED_STATUSES.join(", ")}`),
+  topProducts: z.number().int().positive().max(100).optional().describe("Number of top products, default 10"),
+  maxOrders: z.number().int().positive().max(10000).optional().describe(`Max orders to analyze, default ${SALES_REPORT_MAX_ORDERS}`),
+});
+const GetProductsInputSchema = PageInputSchema.extend({
+  fields: z.array(z.string()).optional().describe(`Product fields to return, default: ${DEFAULT_PRODUCT_FIELDS.join(", ")}. product_id is always returned`),
 });
-const GetProductsInputSchema = z.object({});
 const GetFeaturesInputSchema = z.object({});
+const ListStoresInputSchema = z.object({});
+const AuditLogInputSchema = z.object({
+  tool: z.string().optional().describe("Only changes made by this tool, e.g. cscart_update_product"),
+  entity: z.enum(AUDIT_ENTITIES).optional().describe("Only changes of products or orders"),
+  entityId: z.number().int().positive().optional().describe("Only changes of this product or order ID"),
+  user: z.string().optional().describe("Only changes made by this HTTP user"),
+  from: z.string().optional().describe("Changes at or after this date (YYYY-MM-DD or ISO datetime)"),
+  to: z.string().optional().describe("Changes at or before this date, inclusive (YYYY-MM-DD or ISO datetime)"),
+  limit: z.number().int().positive().max(1000).optional().describe(`Maximum number of entries, newest first, default ${AUDIT_LOG_LIMIT}`),
+});
+const CacheResourceSchema = z.enum(api.CACHE_RESOURCES);
+const RefreshCacheInputSchema = z.object({
+  resources: z.array(CacheResourceSchema).optional().describe("Resources to reload, default all except orders"),
+  productIds: z.array(z.number()).optional().describe("Refresh only these products in the cached products list, e.g. after edits in the admin panel"),
+  full: z.boolean().optional().describe("Reload all products instead of the incremental refresh by updated_timestamp"),
+});
+const CacheStatusInputSchema = z.object({
+  resources: z.array(CacheResourceSchema).optional().describe("Resources to report, default all"),
+});
+const GetCategoriesInputSchema = z.object({
+  parentId: z.number().int().positive().optional().describe("Return only subtree of this category"),
+});
+const GetCategoryInputSchema = z.object({
+  categoryId: z.number().int().positive().describe("ID of the category to retrieve"),
+});
 
-const SearchProductsInputSchema = z.object({
-  name: z.string().optional().describe("Product name to search for"),
+const SearchProductsInputSchema = PageInputSchema.extend({
+  name: z.string().optional().describe("Product name to search for, all words should match"),
   code: z.string().optional().describe("Product code (product_code) to search for"),
+  categoryId: z.number().int().positive().optional().describe("Category ID"),
+  categoryIds: z.array(z.number().int().positive()).optional().describe("Category IDs, products from any of them are returned"),
+  includeSubcategories: z.boolean().optional().describe("Search in subcategories of categoryId/categoryIds, default true"),
+  priceFrom: z.number().nonnegative().optional().describe("Minimal price"),
+  priceTo: z.number().nonnegative().optional().describe("Maximal price"),
+  status: z.enum(["A", "D", "H"]).optional().describe("Status: A - active, D - disabled, H - hidden"),
+  amountFrom: z.number().int().optional().describe("Minimal stock amount"),
+  amountTo: z.number().int().optional().describe("Maximal stock amount"),
+  sortBy: z.enum(["product", "code", "price", "amount", "status", "timestamp", "updated_timestamp", "popularity", "position"]).optional().describe("Sort field"),
+  sortOrder: z.enum(["asc", "desc"]).optional().describe("Sort order"),
+  features: z.array(z.object({
+    name: z.string().describe("Feature name"),
+    value: z.union([z.string(), z.array(z.string())]).optional().describe("Variant name or list of variant names (any of) for select features, text for text features, Y/N for checkbox"),
+    from: z.number().optional().describe("Minimal value for numeric features"),
+    to: z.number().optional().describe("Maximal value for numeric features"),
+  })).optional().describe("Feature filters, all should match. E.g. [{\"name\": \"Color\", \"value\": \"Red\"}, {\"name\": \"Warranty\", \"from\": 2}]"),
+  maxScan: z.number().int().positive().max(5000).optional().describe(`Max products to check with feature filters, default ${FEATURE_SEARCH_MAX_SCAN}`),
+});
+const ExportProductsInputSchema = SearchProductsInputSchema.omit({ page: true, limit: true }).extend({
+  format: z.enum(EXPORT_FORMATS).optional().describe("csv (default), jsonl, google_merchant (Google Merchant Center RSS feed) or yml (Yandex Market Language feed)"),
+  columns: z.array(z.string()).optional().describe(`CSV and JSONL columns, default: ${DEFAULT_EXPORT_COLUMNS.join(", ")}. Product fields, url, image_url, categories and ${FEATURE_COLUMN_PREFIX}<feature name>`),
+  featureColumns: z.union([z.boolean(), z.array(z.string())]).optional().describe(`Add ${FEATURE_COLUMN_PREFIX}<name> columns for all product features (true) or for the listed feature names`),
+  brandFeature: z.string().optional().describe("Feature with the brand, used in feeds"),
+  maxProducts: z.number().int().positive().max(EXPORT_MAX_PRODUCTS).optional().describe(`Max products to export, default ${EXPORT_DEFAULT_PRODUCTS}`),
+  filename: z.string().optional().describe("File name in the export directory, default products-{store}-{date}.{csv|jsonl|xml}"),
+});
+const AuditProductsInputSchema = SearchProductsInputSchema.pick({ categoryId: true, categoryIds: true, includeSubcategories: true, status: true }).extend({
+  checks: z.array(z.enum(AUDIT_CHECKS)).optional().describe(`Checks to run, default all: ${AUDIT_CHECKS.join(", ")}`),
+  requiredFeatures: z.record(z.array(z.string())).optional().describe("Required feature names by category ID, \"*\" for all categories, subcategories inherit the rules. E.g. {\"*\": [\"Brand\"], \"12\": [\"Color\", \"Size\"]}. Default from CSCART_AUDIT_RULES_FILE"),
+  maxProducts: z.number().int().positive().max(AUDIT_MAX_PRODUCTS).optional().describe(`Max products to check, default ${AUDIT_DEFAULT_PRODUCTS}`),
+});
+const GetInventoryInputSchema = SearchProductsInputSchema.pick({ code: true, categoryId: true, categoryIds: true, includeSubcategories: true, status: true }).extend({
+  lowStockOnly: z.boolean().optional().describe("Only products with stock at or below the threshold"),
+  thresholds: StockThresholdsSchema.partial().optional().describe("Low stock thresholds, override the keys of CSCART_STOCK_THRESHOLDS_FILE. E.g. {\"default\": 3, \"categories\": {\"12\": 10}, \"products\": {\"1221\": 1}}"),
+  salesDays: z.number().int().nonnegative().max(365).optional().describe(`Sales period for the days of stock left, default ${INVENTORY_SALES_DAYS}, 0 to skip sales`),
+  excludeStatuses: z.array(z.string()).optional().describe(`Order statuses not counted in sales, default: ${DEFAULT_EXCLUDED_STATUSES.join(", ")}`),
+  maxOrders: z.number().int().positive().max(10000).optional().describe(`Max orders of the sales period to analyze, default ${SALES_REPORT_MAX_ORDERS}`),
+  includeCombinations: z.boolean().optional().describe("Load stock of option combinations of the listed products, CS-Cart versions before product variations. With lowStockOnly combinations of all matched products are checked"),
+  limit: z.number().int().positive().max(1000).optional().describe("Max products to return, default 100. Products running out first are returned"),
 });
 
+// --- Output Schemas ---
+// Structured content must be an object, arrays are wrapped
+const ProductsPageOutputSchema = z.object({
+  products: z.array(ProductSchema.partial().passthrough()).describe("Products with selected fields"),
+  total: z.number().describe("Total count of products"),
+  page: z.number(),
+  limit: z.number(),
+});
+const SearchProductsOutputSchema = z.object({
+  products: z.array(ProductSchema),
+  total: z.number().describe("Total count of found products. With feature filters and complete=false it's the count of matches found so far"),
+  page: z.number(),
+  limit: z.number(),
+  scanned: z.number().optional().describe("Products checked with feature filters"),
+  complete: z.boolean().optional().describe("False when feature filters search stopped before checking all products"),
+});
+const ExportProductsOutputSchema = z.object({
+  path: z.string().describe("Path of the written file"),
+  format: z.enum(EXPORT_FORMATS),
+  count: z.number().describe("Exported products"),
+  total: z.number().describe("Found products, more than count when limited by maxProducts"),
+  truncated: z.boolean().optional().describe("True when feature filters search stopped before checking all products"),
+  scanned: z.number().optional().describe("Products checked with feature filters when truncated"),
+  columns: z.array(z.string()).optional().describe("CSV and JSONL columns"),
+  preview: z.string().describe("First lines of the file"),
+});
+const AuditProductsOutputSchema = z.object({
+  scanned: z.number().describe("Checked products"),
+  total: z.number().describe("Products matching the filters"),
+  counts: z.record(z.number()).describe("Products with findings by check"),
+  products: z.array(z.object({
+    product_id: z.number(),
+    product_code: z.string(),
+    product: z.string(),
+    findings: z.array(z.object({ check: z.enum(AUDIT_CHECKS), message: z.string() })),
+  })).describe("Products with findings"),
+});
+const GetInventoryOutputSchema = z.object({
+  items: z.array(z.object({
+    product_id: z.number(),
+    product_code: z.string(),
+    product: z.string(),
+    status: z.string(),
+    amount: z.number(),
+    threshold: z.number(),
+    low_stock: z.boolean(),
+    sold: z.number().describe("Sold in the sales period"),
+    daily_sales: z.number(),
+    days_left: z.number().nullable().describe("Days of stock left at the sales rate, null without sales"),
+    combinations: z.array(z.object({
+      combination: z.record(z.number()).describe("Variant ID by option ID"),
+      product_code: z.string(),
+      amount: z.number(),
+      low_stock: z.boolean(),
+    })).optional(),
+  })).describe("Products sorted by days left, then by stock"),
+  total: z.number().describe("Checked products"),
+  low_stock: z.number().describe("Products with low stock"),
+  sales_days: z.number(),
+  orders_analyzed: z.number(),
+  truncated: z.boolean().describe("The period has more orders than maxOrders, sales are underestimated"),
+});
+const ProductOptionsInfoSchema = z.object({
+  options: z.array(z.object({
+    option_id: z.number(),
+    option_name: z.string(),
+    option_type: z.string().describe("S - select, R - radio, C - checkbox, I - input, T - text area, F - file"),
+    required: z.boolean(),
+    inventory: z.boolean().describe("Stock is tracked by combinations of the option"),
+    variants: z.array(z.object({
+      variant_id: z.number(),
+      variant_name: z.string(),
+      modifier: z.number(),
+      modifier_type: z.string().describe("A - absolute, P - percent of the product price"),
+      price: z.number().describe("Product price with the modifier"),
+    })),
+  })).describe("Product options with variants and price modifiers"),
+  combinations: z.array(z.object({
+    combination_hash: z.string(),
+    product_code: z.string(),
+    amount: z.number().describe("Stock of the combination"),
+    options: z.record(z.string()).describe("Variant name by option name"),
+    price: z.number().describe("Product price with modifiers of the variants"),
+  })).describe("Option combinations with own stock, CS-Cart before 4.10"),
+  variation_group: z.object({
+    id: z.number(),
+    code: z.string(),
+    features: z.array(z.object({
+      feature_id: z.number(),
+      feature: z.string(),
+      purpose: z.string().describe("group_catalog_item - separate catalog items, group_variation_catalog_item - variations of one item"),
+    })).describe("Features that distinguish the group products"),
+    products: z.array(z.object({
+      product_id: z.number(),
+      product_code: z.string(),
+      product: z.string(),
+      price: z.number(),
+      amount: z.number(),
+      status: z.string(),
+      is_main: z.boolean(),
+      is_current: z.boolean(),
+      features: z.record(z.string()).describe("Variant by feature name"),
+    })),
+  }).nullable().describe("Product variations group, CS-Cart 4.10+, null for products outside of groups"),
+});
+const ProductDetailsOutputSchema = ProductWithFeaturesSchema.extend(ProductOptionsInfoSchema.shape);
+const ProductOptionsOutputSchema = ProductOptionsInfoSchema.extend({
+  product_id: z.number(),
+  product: z.string(),
+  product_code: z.string(),
+  price: z.number().describe("Base price"),
+  amount: z.number().describe("Product stock"),
+});
+const ListStoresOutputSchema = z.object({
+  stores: z.array(z.object({
+    name: z.string(),
+    shop_url: z.string(),
+    admin_url: z.string(),
+    company_id: z.number().nullable().describe("Vendor id for vendor storefronts"),
+    allow_writes: z.boolean(),
+    default: z.boolean().describe("Used when the store argument is not passed"),
+  })),
+});
+const CacheStatusOutputSchema = z.object({
+  backend: z.string().describe("memory, file or sqlite"),
+  resources: z.array(z.object({
+    resource: CacheResourceSchema,
+    ttl: z.number().describe("Time to live, seconds"),
+    entries: z.number(),
+    stale: z.number().describe("Entries older than TTL, served while refreshed"),
+    oldest_update: z.string().nullable(),
+    newest_update: z.string().nullable(),
+    hits: z.number(),
+    stale_hits: z.number(),
+    misses: z.number(),
+    refreshing: z.number().describe("Loads in progress"),
+  })),
+});
+const FeaturesOutputSchema = z.object({
+  features: z.array(FeatureSchema),
+});
+const CategoriesOutputSchema = z.object({
+  categories: z.array(CategoryTreeNodeSchema).describe("Categories tree, each category has children"),
+});
+const GetCategoryOutputSchema = CategorySchema.extend({
+  path: z.string().describe("Category names from the root, separated by /"),
+  children: z.array(CategorySchema).describe("Direct subcategories"),
+});
+const SearchUsersOutputSchema = z.object({
+  users: z.array(UserSchema),
+  total: z.number().describe("Total count of found users"),
+  page: z.number(),
+  limit: z.number(),
+});
+const CustomerProductSchema = z.object({
+  product_id: z.number(),
+  product: z.string(),
+  product_code: z.string(),
+  quantity: z.number(),
+  subtotal: z.number(),
+  orders: z.number().describe("Number of orders with the product"),
+});
+const CustomerHistoryOutputSchema = z.object({
+  customer: z.object({
+    user_id: z.number().optional(),
+    name: z.string(),
+    email: z.string(),
+    phone: z.string(),
+  }),
+  order_count: z.number().describe("Orders counted in lifetime value"),
+  orders_analyzed: z.number().describe("All analyzed orders, including excluded statuses"),
+  lifetime_value: z.number(),
+  average_order_value: z.number(),
+  first_order_date: z.string(),
+  last_order_date: z.string(),
+  statuses: z.record(z.number()).describe("Orders count by status"),
+  top_products: z.array(CustomerProductSchema),
+});
+const SalesBucketSchema = z.object({
+  key: z.string(),
+  orders: z.number(),
+  revenue: z.number(),
+});
+const SalesReportOutputSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  period: z.enum(["day", "week", "month"]),
+  revenue: z.number(),
+  order_count: z.number(),
+  average_order_value: z.number(),
+  excluded_statuses: z.array(z.string()),
+  by_status: z.array(SalesBucketSchema),
+  by_payment_method: z.array(SalesBucketSchema),
+  by_period: z.array(SalesBucketSchema).describe("Key is YYYY-MM-DD for day, Monday date for week, YYYY-MM for month"),
+  top_products_by_quantity: z.array(CustomerProductSchema),
+  top_products_by_subtotal: z.array(CustomerProductSchema),
+  orders_analyzed: z.number(),
+  truncated: z.boolean().describe("True when the period has more orders than maxOrders"),
+});
+const GetOrderOutputSchema = z.object({
+  message: z.string().describe("Order summary text"),
+  format: z.enum(ORDER_MESSAGE_FORMATS),
+  order: OrderSchema,
+});
+const OrderSummarySchema = z.object({
+  order_id: z.number(),
+  status: z.string(),
+  date: z.string().describe("Order creation date, ISO format"),
+  total: z.number(),
+  name: z.string(),
+  phone: z.string(),
+  email: z.string(),
+  order_url: z.string(),
+});
+const SearchOrdersOutputSchema = z.object({
+  orders: z.array(OrderSummarySchema),
+});
+const OrderStateSchema = z.object({
+  status: z.string(),
+  status_description: z.string(),
+  staff_notes: z.string(),
+  tracking: z.array(z.object({
+    shipment_id: z.number(),
+    tracking_number: z.string(),
+    carrier: z.string(),
+  })),
+});
+const FieldChangeSchema = z.object({
+  field: z.string().describe(`CS-Cart field or ${FEATURE_TARGET_PREFIX}<feature name>`),
+  from: z.unknown(),
+  to: z.unknown(),
+});
+const WriteRequestSchema = z.object({
+  method: z.enum(["PUT", "POST"]),
+  path: z.string().describe("CS-Cart API path after /api/2.0"),
+  body: z.record(z.unknown()),
+});
+const DryRunOutputSchema = z.object({
+  dry_run: z.boolean().describe("False when the call has no changes and nothing is sent"),
+  requests: z.array(WriteRequestSchema).describe("Requests the call would send"),
+  changes: z.array(FieldChangeSchema).describe("Changed fields against the current data"),
+});
+const ImportRowOutputSchema = z.object({
+  row: z.number().describe("Row number, 1 is the first data row"),
+  product_id: z.number().nullable(),
+  product_code: z.string(),
+  status: z.enum(["update", "unchanged", "not_found", "error", "updated", "failed"]),
+  changes: z.array(FieldChangeSchema).optional(),
+  error: z.string().optional(),
+});
+const ImportProductsOutputSchema = z.object({
+  dry_run: z.boolean(),
+  token: z.string().nullable().describe("Pass as confirm to apply the changes, null when there is nothing to apply"),
+  expires_at: z.string().nullable(),
+  summary: z.record(z.number()).describe("Rows count by status"),
+  ignored_columns: z.array(z.string()).optional(),
+  rows: z.array(ImportRowOutputSchema).describe("Dry run lists all rows, apply lists updated and failed rows"),
+});
+const UpdateOrderOutputSchema = z.object({
+  order_id: z.number(),
+  before: OrderStateSchema,
+  after: OrderStateSchema,
+  applied: z.array(WriteRequestSchema).describe("Sent requests"),
+  error: z.string().optional().describe("Error of the failed request, the order is partly updated by the applied requests and the following ones are not sent"),
+});
+const AuditLogOutputSchema = z.object({
+  entries: z.array(z.object({
+    time: z.string(),
+    request_id: z.string().nullable(),
+    user: z.string().nullable(),
+    store: z.string(),
+    tool: z.string(),
+    entity: z.enum(AUDIT_ENTITIES),
+    entity_id: z.number(),
+    changes: z.array(FieldChangeSchema),
+    requests: z.array(WriteRequestSchema),
+  })),
+  total: z.number().describe("Count of all matching entries"),
+});
+
+// Write tools return the result or the dry run of the call
+function withDryRunOutput(schema: z.ZodTypeAny): ToolOutput {
+  return { type: "object", ...zodToJsonSchema(z.union([schema, DryRunOutputSchema])) } as ToolOutput;
+}
+
+// MCP tool annotations of tools that only read store data
+const READ_ONLY_ANNOTATIONS = { readOnlyHint: true, destructiveHint: false };
+
 const GET_PRODUCT_TOOL: Tool = {
   name: "cscart_get_product",
-  description: "Fetch a CS-Cart product by its ID. CS-Cart is a shop. Returns product with all features and variants. Product fields in cscart located at `product_features`, key should match with parser field.",
+  description: "Fetch a CS-Cart product by its ID. CS-Cart is a shop. Returns product with all features and variants. Product fields in cscart located at `product_features`, key should match with parser field. Options, combinations and the variation group are in `options`, `combinations` and `variation_group`: use them for prices and stock of sizes and colors.",
   inputSchema: zodToJsonSchema(GetProductInputSchema) as ToolInput,
-  func: api.getProduct,
+  outputSchema: zodToJsonSchema(ProductDetailsOutputSchema) as ToolOutput,
+  annotations: READ_ONLY_ANNOTATIONS,
+  func: getProductDetails,
+};
+
+const GET_PRODUCT_OPTIONS_TOOL: Tool = {
+  name: "cscart_get_product_options",
+  description: "Product options and their variants with price modifiers, option combinations with stock and the variation group: sibling products sold in other sizes/colors and the features that distinguish them. Prices are calculated with modifiers.",
+  inputSchema: zodToJsonSchema(GetProductOptionsInputSchema) as ToolInput,
+  outputSchema: zodToJsonSchema(ProductOptionsOutputSchema) as ToolOutput,
+  annotations: READ_ONLY_ANNOTATIONS,
+  func: getProductOptions,
 };
 
 const GET_PRODUCTS_TOOL: Tool = {
   name: "cscart_get_products",
-  description: "Fetch all CS-Cart products.",
+  description: "List CS-Cart products page by page with selected fields. Returns products and total count.",
   inputSchema: zodToJsonSchema(GetProductsInputSchema) as ToolInput,
-  func: api.getProducts,
+  outputSchema: zodToJsonSchema(ProductsPageOutputSchema) as ToolOutput,
+  annotations: READ_ONLY_ANNOTATIONS,
+  func: getProducts,
 };
 
 const GET_FEATURES_TOOL: Tool = {
   name: "cscart_get_features",
   description: "Fetch all CS-Cart product features. Returns array of features with variants (if present). Feature is a product attribute.",
   inputSchema: zodToJsonSchema(GetFeaturesInputSchema) as ToolInput,
+  outputSchema: zodToJsonSchema(FeaturesOutputSchema) as ToolOutput,
+  annotations: READ_ONLY_ANNOTATIONS,
   func: api.getFeatures,
 };
 
+const REFRESH_CACHE_TOOL: Tool = {
+  name: "cscart_refresh_cache",
+  description: "Reload cached CS-Cart data: features, feature variants, categories, products list, order statuses, full orders. Use after editing products, features or categories outside of this server. Returns cache status of refreshed resources.",
+  inputSchema: zodToJsonSchema(RefreshCacheInputSchema) as ToolInput,
+  outputSchema: zodToJsonSchema(CacheStatusOutputSchema) as ToolOutput,
+  annotations: READ_ONLY_ANNOTATIONS,
+  func: api.refreshCache,
+};
+
+const CACHE_STATUS_TOOL: Tool = {
+  name: "cscart_cache_status",
+  description: "Show cache backend and state of cached resources: entries count, stale entries, update times, hits and misses.",
+  inputSchema: zodToJsonSchema(CacheStatusInputSchema) as ToolInput,
+  outputSchema: zodToJsonSchema(CacheStatusOutputSchema) as ToolOutput,
+  annotations: READ_ONLY_ANNOTATIONS,
+  func: api.getCacheStatus,
+};
+
 const SEARCH_PRODUCTS_TOOL: Tool = {
   name: "cscart_search_products",
-  description: "Search CS-Cart products by name (product) and code (product_code). Returns array of products, without features. Use cscart_get_product to get full product data with features.",
+  description: "Search CS-Cart products by name (product), code (product_code), category, price, stock amount and status, page by page. Returns products without features and total count. Use cscart_get_product to get full product data with features.",
   inputSchema: zodToJsonSchema(SearchProductsInputSchema) as ToolInput,
+  outputSchema: zodToJsonSchema(SearchProductsOutputSchema) as ToolOutput,
+  annotations: READ_ONLY_ANNOTATIONS,
   func: searchProducts,
 };
 
+const EXPORT_PRODUCTS_TOOL: Tool = {
+  name: "cscart_export_products",
+  description: "Export products found by cscart_search_products filters to a CSV, JSON Lines, Google Merchant or YML feed file. Columns may include feature values. Returns the file path and a preview.",
+  inputSchema: zodToJsonSchema(ExportProductsInputSchema) as ToolInput,
+  outputSchema: zodToJsonSchema(ExportProductsOutputSchema) as ToolOutput,
+  annotations: { readOnlyHint: false, destructiveHint: false },
+  func: exportProducts,
+};
+
+const AUDIT_PRODUCTS_TOOL: Tool = {
+  name: "cscart_audit_products",
+  description: "Audit product data quality: missing required features by category, empty descriptions, zero prices, missing images, duplicate product codes and names, feature values with unknown variants. Returns counts and findings per product.",
+  inputSchema: zodToJsonSchema(AuditProductsInputSchema) as ToolInput,
+  outputSchema: zodToJsonSchema(AuditProductsOutputSchema) as ToolOutput,
+  annotations: READ_ONLY_ANNOTATIONS,
+  func: auditProducts,
+};
+
+const GET_INVENTORY_TOOL: Tool = {
+  name: "cscart_get_inventory",
+  description: "Stock levels with low stock flags by per-product and per-category thresholds, sales in the recent period and days of stock left. Optionally with option combinations stock. Returns Markdown table and structured JSON.",
+  inputSchema: zodToJsonSchema(GetInventoryInputSchema) as ToolInput,
+  outputSchema: zodToJsonSchema(GetInventoryOutputSchema) as ToolOutput,
+  annotations: READ_ONLY_ANNOTATIONS,
+  func: getInventory,
+};
+
+const GET_CATEGORIES_TOOL: Tool = {
+  name: "cscart_get_categories",
+  description: "Fetch CS-Cart categories tree with parent/child relations, position and product counts.",
+  inputSchema: zodToJsonSchema(GetCategoriesInputSchema) as ToolInput,
+  outputSchema: zodToJsonSchema(CategoriesOutputSchema) as ToolOutput,
+  annotations: READ_ONLY_ANNOTATIONS,
+  func: getCategories,
+};
+
+const GET_CATEGORY_TOOL: Tool = {
+  name: "cscart_get_category",
+  description: "Fetch a CS-Cart category by its ID with path from the root and direct subcategories. Use cscart_search_products with categoryId to list its products.",
+  inputSchema: zodToJsonSchema(GetCategoryInputSchema) as ToolInput,
+  outputSchema: zodToJsonSchema(GetCategoryOutputSchema) as ToolOutput,
+  annotations: READ_ONLY_ANNOTATIONS,
+  func: getCategory,
+};
+
 const GET_ORDER_TOOL: Tool = {
   name: "cscart_get_order",
-  description: "Fetch a CS-Cart order by its ID. Returns the order object as provided by CS-Cart API.",
+  description: "Fetch a CS-Cart order by its ID. Returns the order summary text and the order object as provided by CS-Cart API.",
   inputSchema: zodToJsonSchema(GetOrderInputSchema) as ToolInput,
+  outputSchema: zodToJsonSchema(GetOrderOutputSchema) as ToolOutput,
+  annotations: READ_ONLY_ANNOTATIONS,
   func: api.getOrder,
 };
 
-const TOOLS: Tool[] = [GET_PRODUCT_TOOL, GET_PRODUCTS_TOOL, GET_FEATURES_TOOL, SEARCH_PRODUCTS_TOOL, GET_ORDER_TOOL];
+const SEARCH_ORDERS_TOOL: Tool = {
+  name: "cscart_search_orders",
+  description: "Search CS-Cart orders by status, created/updated period, customer email/phone/name, total range and product. Returns compact order summaries, newest first. Use cscart_get_order to get full order details.",
+  inputSchema: zodToJsonSchema(SearchOrdersInputSchema) as ToolInput,
+  outputSchema: zodToJsonSchema(SearchOrdersOutputSchema) as ToolOutput,
+  annotations: READ_ONLY_ANNOTATIONS,
+  func: searchOrders,
+};
+
+const UPDATE_PRODUCT_TOOL: Tool = {
+  name: "cscart_update_product",
+  description: "Update a CS-Cart product: name, price, amount (stock), status, descriptions and feature values by feature name. Only passed fields are changed. Returns the updated product.",
+  inputSchema: zodToJsonSchema(UpdateProductInputSchema) as ToolInput,
+  outputSchema: withDryRunOutput(ProductWithFeaturesSchema),
+  annotations: { readOnlyHint: false, destructiveHint: true },
+  func: updateProduct,
+};
+
+const CREATE_PRODUCT_TOOL: Tool = {
+  name: "cscart_create_product",
+  description: "Create a CS-Cart product with name, price, categories, stock, status, descriptions and feature values by feature name. Returns the created product.",
+  inputSchema: zodToJsonSchema(CreateProductInputSchema) as ToolInput,
+  outputSchema: withDryRunOutput(ProductWithFeaturesSchema),
+  annotations: { readOnlyHint: false, destructiveHint: false },
+  func: createProduct,
+};
+
+const UPDATE_ORDER_TOOL: Tool = {
+  name: "cscart_update_order",
+  description: "Update a CS-Cart order: change status (optionally notifying customer/department/vendor), append staff notes, set shipment tracking number. Returns order state before and after the update.",
+  inputSchema: zodToJsonSchema(UpdateOrderInputSchema) as ToolInput,
+  outputSchema: withDryRunOutput(UpdateOrderOutputSchema),
+  annotations: { readOnlyHint: false, destructiveHint: true },
+  func: updateOrder,
+};
+
+const IMPORT_PRODUCTS_TOOL: Tool = {
+  name: "cscart_import_products",
+  description: "Bulk update products from a CSV or JSON file, e.g. supplier price lists. Rows are matched by product_code or product_id, columns are mapped to product fields and features. The first call returns a dry run diff and a token, the call with confirm=token applies the changes in batches and reports every row.",
+  inputSchema: zodToJsonSchema(ImportProductsInputSchema) as ToolInput,
+  outputSchema: zodToJsonSchema(ImportProductsOutputSchema) as ToolOutput,
+  annotations: { readOnlyHint: false, destructiveHint: true },
+  func: importProducts,
+};
 
-export async function searchProducts({ name, code }: { name?: string | null; code?: string | null }): Promise<any[]> {
-  const products = await api.getProducts();
-  return products.filter(product => {
-    let match = true;
-    if (name && typeof name === 'string' && name.trim() !== '') {
-      match = match && typeof product.product === 'string' && product.product.toLowerCase().includes(name.toLowerCase());
+const SEARCH_USERS_TOOL: Tool = {
+  name: "cscart_search_users",
+  description: "Search CS-Cart users (customers, administrators, vendors) by email, phone, name and user type, page by page.",
+  inputSchema: zodToJsonSchema(SearchUsersInputSchema) as ToolInput,
+  outputSchema: zodToJsonSchema(SearchUsersOutputSchema) as ToolOutput,
+  annotations: READ_ONLY_ANNOTATIONS,
+  func: searchUsers,
+};
+
+const GET_USER_TOOL: Tool = {
+  name: "cscart_get_user",
+  description: "Fetch a CS-Cart user profile by its ID.",
+  inputSchema: zodToJsonSchema(GetUserInputSchema) as ToolInput,
+  outputSchema: zodToJsonSchema(UserSchema) as ToolOutput,
+  annotations: READ_ONLY_ANNOTATIONS,
+  func: api.getUser,
+};
+
+const GET_CUSTOMER_HISTORY_TOOL: Tool = {
+  name: "cscart_get_customer_history",
+  description: "Aggregate customer orders by user ID or email: lifetime value, order count, average order value, first/last order date, orders by status and most bought products.",
+  inputSchema: zodToJsonSchema(GetCustomerHistoryInputSchema) as ToolInput,
+  outputSchema: zodToJsonSchema(CustomerHistoryOutputSchema) as ToolOutput,
+  annotations: READ_ONLY_ANNOTATIONS,
+  func: getCustomerHistory,
+};
+
+const SALES_REPORT_TOOL: Tool = {
+  name: "cscart_sales_report",
+  description: "Sales report for a date range: revenue, order count, average order value, breakdown by status, payment method and day/week/month, top products by quantity and subtotal. Returns Markdown tables and structured JSON.",
+  inputSchema: zodToJsonSchema(SalesReportInputSchema) as ToolInput,
+  outputSchema: zodToJsonSchema(SalesReportOutputSchema) as ToolOutput,
+  annotations: READ_ONLY_ANNOTATIONS,
+  func: getSalesReport,
+};
+
+const AUDIT_LOG_TOOL: Tool = {
+  name: "cscart_audit_log",
+  description: "Query the audit log of changes applied by write tools: who, when, which product or order, changed fields and sent CS-Cart requests. Newest first, filtered by tool, entity, user and date range.",
+  inputSchema: zodToJsonSchema(AuditLogInputSchema) as ToolInput,
+  outputSchema: zodToJsonSchema(AuditLogOutputSchema) as ToolOutput,
+  annotations: READ_ONLY_ANNOTATIONS,
+  func: getAuditLog,
+};
+
+const LIST_STORES_TOOL: Tool = {
+  name: "cscart_list_stores",
+  description: "List configured CS-Cart stores. Pass the store name as `store` argument of other tools, the default store is used without it.",
+  inputSchema: zodToJsonSchema(ListStoresInputSchema) as ToolInput,
+  outputSchema: zodToJsonSchema(ListStoresOutputSchema) as ToolOutput,
+  annotations: READ_ONLY_ANNOTATIONS,
+  func: api.listStores,
+};
+
+// Write tools are exposed only when writes are enabled for any store and allowed by the write policy
+const WRITE_TOOLS: Tool[] = [UPDATE_PRODUCT_TOOL, CREATE_PRODUCT_TOOL, IMPORT_PRODUCTS_TOOL, UPDATE_ORDER_TOOL];
+
+const TOOLS: Tool[] = [
+  GET_PRODUCT_TOOL, GET_PRODUCT_OPTIONS_TOOL, GET_PRODUCTS_TOOL, GET_FEATURES_TOOL, SEARCH_PRODUCTS_TOOL, EXPORT_PRODUCTS_TOOL, AUDIT_PRODUCTS_TOOL, GET_INVENTORY_TOOL, GET_CATEGORIES_TOOL, GET_CATEGORY_TOOL,
+  GET_ORDER_TOOL, SEARCH_ORDERS_TOOL, SEARCH_USERS_TOOL, GET_USER_TOOL, GET_CUSTOMER_HISTORY_TOOL,
+  SALES_REPORT_TOOL, REFRESH_CACHE_TOOL, CACHE_STATUS_TOOL, AUDIT_LOG_TOOL,
+];
+
+// Every store tool accepts optional store name
+function withStoreArgument(tool: Tool): Tool {
+  const store = { type: "string", description: "Store name from cscart_list_stores, default store when not passed" };
+  return { ...tool, inputSchema: { ...tool.inputSchema, properties: { ...tool.inputSchema.properties, store } } };
+}
+
+/**
+ * Tools list, stores config and write policy are read on the first call.
+ */
+function getTools(): Tool[] {
+  const writeTools = api.isWriteAllowed(true) ? WRITE_TOOLS.filter(tool => isWriteToolAllowed(tool.name)) : [];
+  const tools = [...TOOLS, ...writeTools];
+  return [LIST_STORES_TOOL, ...tools.map(withStoreArgument)];
+}
+
+export async function searchProducts(params: z.infer<typeof SearchProductsInputSchema>): Promise<z.infer<typeof SearchProductsOutputSchema>> {
+  const page = params.page ?? 1;
+  const limit = params.limit ?? 50;
+  const { features, maxScan, ...filters } = params;
+  const searchParams = {
+    ...filters,
+    name: params.name?.trim() || undefined,
+    code: params.code?.trim() || undefined,
+  };
+  if (!features?.length) {
+    const { products, total } = await api.searchProducts({ ...searchParams, page, limit });
+    return { products, total, page, limit };
+  }
+
+  // Feature values are not searchable with CS-Cart API, products found by other filters are checked one by one
+  const conditions = await api.resolveFeatureFilters(features);
+  const needed = page * limit;
+  const matches: Product[] = [];
+  let scanned = 0;
+  let complete = false;
+  for (let candidatesPage = 1; matches.length < needed && scanned < (maxScan ?? FEATURE_SEARCH_MAX_SCAN); candidatesPage++) {
+    const { products, total } = await api.searchProducts({ ...searchParams, page: candidatesPage, limit: FEATURE_SEARCH_BATCH });
+    const values = await Promise.all(products.map(product => api.getProductFeatureValues(product.product_id)));
+    products.forEach((product, i) => {
+      if (api.matchFeatureConditions(values[i], conditions)) matches.push(product);
+    });
+    scanned += products.length;
+    if (products.length < FEATURE_SEARCH_BATCH || scanned >= total) {
+      complete = true;
+      break;
     }
-    if (code && typeof code === 'string' && code.trim() !== '') {
-      match = match && typeof product.product_code === 'string' && product.product_code.toLowerCase().includes(code.toLowerCase());
+  }
+  return {
+    products: matches.slice((page - 1) * limit, needed),
+    total: matches.length,
+    page,
+    limit,
+    scanned,
+    complete,
+  };
+}
+
+// Run the function for items in batches, results keep the items order
+async function inBatches<T, R>(items: T[], size: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = [];
+  for (let i = 0; i < items.length; i += size) {
+    results.push(...await Promise.all(items.slice(i, i + size).map(fn)));
+  }
+  return results;
+}
+
+// Search pages until maxProducts, feature filters are checked in one search to not rescan candidates
+async function searchAllProducts(
+  params: z.infer<typeof SearchProductsInputSchema>,
+  maxProducts: number,
+): Promise<{ products: Product[]; total: number; scanned?: number; complete?: boolean }> {
+  if (params.features?.length) {
+    const { products, total, scanned, complete } = await searchProducts({ ...params, page: 1, limit: maxProducts });
+    return { products, total, scanned, complete };
+  }
+  const products: Product[] = [];
+  let total = 0;
+  for (let page = 1; products.length < maxProducts; page++) {
+    const result = await searchProducts({ ...params, page, limit: EXPORT_PAGE_SIZE });
+    products.push(...result.products);
+    total = result.total;
+    if (result.products.length < EXPORT_PAGE_SIZE || products.length >= total) break;
+  }
+  return { products: products.slice(0, maxProducts), total };
+}
+
+export async function exportProducts(params: z.infer<typeof ExportProductsInputSchema>): Promise<z.infer<typeof ExportProductsOutputSchema>> {
+  const { format = "csv", columns, featureColumns, brandFeature, maxProducts = EXPORT_DEFAULT_PRODUCTS, filename, ...search } = params;
+  const store = getStoreConfig();
+  const baseColumns = columns?.length ? columns : DEFAULT_EXPORT_COLUMNS;
+  const needDetails = format === "google_merchant" || format === "yml" || Boolean(featureColumns)
+    || baseColumns.some(column => column.startsWith(FEATURE_COLUMN_PREFIX) || EXPORT_DETAIL_COLUMNS.includes(column));
+
+  const found = await searchAllProducts(search, maxProducts);
+  const products: ExportProduct[] = needDetails
+    ? await inBatches(found.products, EXPORT_DETAILS_BATCH, product => api.getProduct(product.product_id))
+    : found.products;
+  const extraColumns = featureColumns === true
+    ? getFeatureColumns(products)
+    : (featureColumns || []).map(name => `${FEATURE_COLUMN_PREFIX}${name}`);
+  const exportColumns = [...new Set([...baseColumns, ...extraColumns])];
+  const isFeed = format === "google_merchant" || format === "yml";
+
+  const content = renderExport(products, format, {
+    columns: exportColumns,
+    productUrl: product => formatProductUrl(store.productLinkTemplate, product),
+    title: new URL(store.shopUrl).hostname,
+    shopUrl: store.shopUrl,
+    currency: isFeed ? await api.getStoreCurrency() : "",
+    brandFeature,
+    categories: format === "yml" ? await api.getCategories() : [],
+  });
+  const file = await writeExportFile(getExportDir(), filename ?? getExportFilename(format, store.name), content);
+  return {
+    path: file,
+    format,
+    count: products.length,
+    total: found.total,
+    // Feature filters search stopped at maxScan, more products may match
+    ...(found.complete === false ? { truncated: true, scanned: found.scanned } : {}),
+    ...(isFeed ? {} : { columns: exportColumns }),
+    preview: getExportPreview(content),
+  };
+}
+
+/**
+ * Duplicates are searched in the whole catalog, other checks in products matching the filters.
+ */
+export async function auditProducts(params: z.infer<typeof AuditProductsInputSchema>): Promise<AuditReport> {
+  const { checks, requiredFeatures, maxProducts = AUDIT_DEFAULT_PRODUCTS, ...filters } = params;
+  const enabled = new Set(checks?.length ? checks : AUDIT_CHECKS);
+  const allProducts = await api.getProducts();
+  const { products, total } = Object.values(filters).some(value => value !== undefined)
+    ? await searchAllProducts(filters, maxProducts)
+    : { products: allProducts.slice(0, maxProducts), total: allProducts.length };
+  const duplicateCodes = enabled.has("duplicate_code") ? findDuplicates(allProducts, "product_code") : new Map<number, number[]>();
+  const duplicateNames = enabled.has("duplicate_name") ? findDuplicates(allProducts, "product") : new Map<number, number[]>();
+  const withDetails = needsProductDetails(enabled);
+  const [features, categories, rules] = withDetails
+    ? await Promise.all([api.getFeatures(), api.getCategories(), requiredFeatures ? { requiredFeatures } : loadAuditRules()])
+    : [[], [], { requiredFeatures: {} }];
+
+  const results = await inBatches(products, AUDIT_DETAILS_BATCH, async (product): Promise<AuditProductResult> => {
+    const findings = auditListProduct(product, enabled);
+    const sameCode = duplicateCodes.get(product.product_id);
+    if (sameCode) findings.push({ check: "duplicate_code", message: `Product code ${product.product_code} is also used by products ${sameCode.join(", ")}` });
+    const sameName = duplicateNames.get(product.product_id);
+    if (sameName) findings.push({ check: "duplicate_name", message: `Name is also used by products ${sameName.join(", ")}` });
+    if (withDetails) {
+      const { product: details, values } = await api.getProductWithFeatureValues(product.product_id);
+      const categoryIds = details.category_ids ?? (details.main_category ? [details.main_category] : []);
+      findings.push(...auditProductDetails(details, values, {
+        checks: enabled,
+        features,
+        requiredFeatures: getRequiredFeatures(categoryIds, rules, categories),
+      }));
     }
-    return match;
+    return { product_id: product.product_id, product_code: product.product_code, product: product.product, findings };
   });
+
+  const withFindings = results.filter(result => result.findings.length > 0);
+  return { scanned: products.length, total, counts: countFindings(withFindings), products: withFindings };
 }
 
-async function getOrder({orderId}: {orderId: number}): Promise<string> {
+// Options, combinations and variation group products are loaded in parallel
+async function loadProductOptionsInfo(product: Product): Promise<ProductOptionsInfo> {
+  const [options, combinations, variationProducts] = await Promise.all([
+    api.getProductOptions(product.product_id),
+    api.getProductCombinations(product.product_id),
+    product.variation_group_id ? api.getVariationGroupProducts(product.variation_group_id) : Promise.resolve([]),
+  ]);
+  return getProductOptionsInfo(product, options, combinations, variationProducts);
+}
+
+/**
+ * Product with features, options, combinations and variation group.
+ */
+export async function getProductDetails(params: z.infer<typeof GetProductInputSchema>): Promise<ProductWithFeatures & ProductOptionsInfo> {
+  const product = await api.getProduct(params.productId);
+  return { ...product, ...await loadProductOptionsInfo(product) };
+}
+
+export async function getProductOptions(params: z.infer<typeof GetProductOptionsInputSchema>): Promise<z.infer<typeof ProductOptionsOutputSchema>> {
+  const product = await api.getProduct(params.productId);
+  return {
+    product_id: product.product_id,
+    product: product.product,
+    product_code: product.product_code,
+    price: product.price,
+    amount: product.amount ?? 0,
+    ...await loadProductOptionsInfo(product),
+  };
+}
+
+export async function getInventory(params: z.infer<typeof GetInventoryInputSchema>): Promise<z.infer<typeof GetInventoryOutputSchema>> {
+  const {
+    lowStockOnly, thresholds, salesDays = INVENTORY_SALES_DAYS, excludeStatuses, maxOrders = SALES_REPORT_MAX_ORDERS,
+    includeCombinations, limit = 100, ...filters
+  } = params;
+  const products = Object.values(filters).some(value => value !== undefined)
+    ? (await searchAllProducts(filters, INVENTORY_MAX_PRODUCTS)).products
+    : await api.getProducts();
+  const [categories, configured] = await Promise.all([api.getCategories(), loadStockThresholds()]);
+
+  let orders: Order[] = [];
+  let truncated = false;
+  if (salesDays > 0) {
+    // One more order is requested to detect truncation
+    const orderList = await api.searchOrders({ createdFrom: getSalesPeriodStart(salesDays), limit: maxOrders + 1 });
+    truncated = orderList.length > maxOrders;
+    orders = await api.getOrdersDetails(orderList.slice(0, maxOrders));
+  }
+  const overrides = Object.fromEntries(Object.entries(thresholds ?? {}).filter(([, value]) => value !== undefined));
+  const options: InventoryOptions = {
+    thresholds: { ...configured, ...overrides },
+    categories,
+    sales: getProductSales(orders, excludeStatuses ?? DEFAULT_EXCLUDED_STATUSES),
+    salesDays,
+  };
+
+  const byId = new Map(products.map(p => [p.product_id, p]));
+  const withCombinations = (list: InventoryItem[]) => inBatches(list, INVENTORY_COMBINATIONS_BATCH, async item => (
+    getInventoryItem(byId.get(item.product_id)!, options, await api.getProductCombinations(item.product_id))
+  ));
+  let all = products.map(product => getInventoryItem(product, options)).sort(compareInventoryItems);
+  // Low stock of a combination makes the product low on stock, so the filter needs combinations of all products
+  if (includeCombinations && lowStockOnly) all = await withCombinations(all);
+  let items = (lowStockOnly ? all.filter(item => item.low_stock) : all).slice(0, limit);
+  if (includeCombinations && !lowStockOnly) items = await withCombinations(items);
+  return {
+    items,
+    total: all.length,
+    low_stock: all.filter(item => item.low_stock).length,
+    sales_days: salesDays,
+    orders_analyzed: orders.length,
+    truncated,
+  };
+}
+
+export async function getProducts(params: z.infer<typeof GetProductsInputSchema>): Promise<z.infer<typeof ProductsPageOutputSchema>> {
+  const page = params.page ?? 1;
+  const limit = params.limit ?? 50;
+  const fields = new Set(['product_id', ...(params.fields?.length ? params.fields : DEFAULT_PRODUCT_FIELDS)]);
+  const allProducts = await api.getProducts();
+  const products = allProducts
+    .slice((page - 1) * limit, page * limit)
+    .map(product => Object.fromEntries(Object.entries(product).filter(([key]) => fields.has(key))) as Partial<Product>);
+  return { products, total: allProducts.length, page, limit };
+}
+
+export async function getCategories({ parentId }: z.infer<typeof GetCategoriesInputSchema>): Promise<CategoryTreeNode[]> {
+  const tree = api.getCategoriesTree(await api.getCategories());
+  if (!parentId) return tree;
+  const findNode = (nodes: CategoryTreeNode[]): CategoryTreeNode | undefined => {
+    for (const node of nodes) {
+      if (node.category_id === parentId) return node;
+      const found = findNode(node.children);
+      if (found) return found;
+    }
+  };
+  const parent = findNode(tree);
+  if (!parent) throw new Error(`Category ${parentId} not found`);
+  return [parent];
+}
+
+export async function getCategory({ categoryId }: z.infer<typeof GetCategoryInputSchema>): Promise<z.infer<typeof GetCategoryOutputSchema>> {
+  const [category, allCategories] = await Promise.all([api.getCategory(categoryId), api.getCategories()]);
+  const children: Category[] = allCategories.filter(c => c.parent_id === categoryId);
+  return {
+    ...allCategories.find(c => c.category_id === categoryId),
+    ...category,
+    path: api.getCategoryPath(categoryId, allCategories) || category.category,
+    children,
+  };
+}
+
+async function getOrder({ orderId, format }: z.infer<typeof GetOrderInputSchema>): Promise<z.infer<typeof GetOrderOutputSchema>> {
   const order = await api.getOrder(orderId);
-  const orderInfo = api.getOrderInfo(order);
-  const message = api.getOrderMessage(orderInfo) || 'Не удалось получить данные заказа';
-  return message;
-}
-
-const server = new Server(
-  {
-    name: "cscart-server",
-    version: "1.0.0",
-  },
-  {
-    capabilities: {
-      tools: {},
+  const { message, format: messageFormat } = await api.getOrderMessage(order, format);
+  return { message, format: messageFormat, order };
+}
+
+// Date-only values are expanded to the start or the end of the day
+function toTimestamp(value: string | undefined, endOfDay = false): number | undefined {
+  if (!value) return undefined;
+  const isDateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const date = new Date(isDateOnly ? `${value}T${endOfDay ? '23:59:59' : '00:00:00'}` : value);
+  if (isNaN(date.getTime())) throw new Error(`Invalid date: ${value}`);
+  return Math.floor(date.getTime() / 1000);
+}
+
+export async function searchOrders(params: z.infer<typeof SearchOrdersInputSchema>): Promise<z.infer<typeof OrderSummarySchema>[]> {
+  const orders = await api.searchOrders({
+    ...params,
+    createdFrom: toTimestamp(params.createdFrom),
+    createdTo: toTimestamp(params.createdTo, true),
+    updatedFrom: toTimestamp(params.updatedFrom),
+    updatedTo: toTimestamp(params.updatedTo, true),
+  });
+  return orders.map(order => {
+    const info = api.getOrderInfo(order);
+    return {
+      order_id: order.order_id,
+      status: order.status,
+      date: toDate(order.timestamp),
+      total: order.total,
+      name: info.name,
+      phone: info.phone,
+      email: info.email,
+      order_url: info.order_url,
+    };
+  });
+}
+
+// Map tool input fields to CS-Cart product fields, skipping not passed ones
+function getProductData(params: z.infer<typeof ProductFieldsInputSchema> & { productCode?: string; categoryIds?: number[] }): Record<string, unknown> {
+  const data: Record<string, unknown> = {
+    product: params.name,
+    price: params.price,
+    amount: params.amount,
+    status: params.status,
+    short_description: params.shortDescription,
+    full_description: params.fullDescription,
+    product_code: params.productCode,
+    category_ids: params.categoryIds,
+    main_category: params.categoryIds?.[0],
+  };
+  return Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+}
+
+type DryRun = z.infer<typeof DryRunOutputSchema>;
+
+/**
+ * Changed fields are checked by the write policy, dry run returns the request without sending it.
+ */
+export async function updateProduct(params: z.infer<typeof UpdateProductInputSchema>): Promise<ProductWithFeatures | DryRun> {
+  const { productId, features } = params;
+  const data = getProductData(params);
+  if (Object.keys(data).length === 0 && !features) {
+    throw new Error("Nothing to update, pass at least one field");
+  }
+  const current = await api.getProduct(productId);
+  const changes = diffProductFields(current, flattenFeatures(current), { data, features: features ?? {} });
+  assertWritePolicy(UPDATE_PRODUCT_TOOL.name, changes.map(c => c.field));
+  const request = await api.getProductRequest(productId, data, features);
+  if (params.dryRun) return { dry_run: true, requests: [request], changes };
+  // The product already has the values
+  if (changes.length === 0) return { dry_run: false, requests: [], changes };
+
+  await api.saveProduct(request);
+  await appendAuditLog({ tool: UPDATE_PRODUCT_TOOL.name, entity: "product", entity_id: productId, changes, requests: [request] });
+  return api.getProduct(productId);
+}
+
+export async function createProduct(params: z.infer<typeof CreateProductInputSchema>): Promise<ProductWithFeatures | DryRun> {
+  const data = getProductData(params);
+  const changes = diffProductFields({}, {}, { data, features: params.features ?? {} });
+  assertWritePolicy(CREATE_PRODUCT_TOOL.name, changes.map(c => c.field));
+  const request = await api.getProductRequest(null, data, params.features);
+  if (params.dryRun) return { dry_run: true, requests: [request], changes };
+
+  const productId = await api.saveProduct(request);
+  await appendAuditLog({ tool: CREATE_PRODUCT_TOOL.name, entity: "product", entity_id: productId, changes, requests: [request] });
+  return api.getProduct(productId);
+}
+
+async function getOrderState(orderId: number) {
+  const [order, shipments, statuses] = await Promise.all([
+    api.getOrder(orderId),
+    api.getOrderShipments(orderId),
+    api.getOrderStatuses(),
+  ]);
+  return {
+    order,
+    state: {
+      status: order.status,
+      status_description: statuses.find(s => s.status === order.status)?.description || '',
+      staff_notes: order.details || '',
+      tracking: shipments.map(s => ({ shipment_id: s.shipment_id, tracking_number: s.tracking_number, carrier: s.carrier })),
     },
-  },
-);
+  };
+}
 
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return { tools: TOOLS };
-});
+type ImportRowOutput = z.infer<typeof ImportRowOutputSchema>;
+
+function countByStatus(rows: ImportRowOutput[]): Record<string, number> {
+  const summary: Record<string, number> = { rows: rows.length };
+  for (const row of rows) summary[row.status] = (summary[row.status] ?? 0) + 1;
+  return summary;
+}
+
+async function applyImport(token: string, batchSize: number): Promise<z.infer<typeof ImportProductsOutputSchema>> {
+  const plan = takeImportPlan(token, getStoreConfig().name);
+  const rows = await inBatches(plan.items, batchSize, async (item): Promise<ImportRowOutput> => {
+    const row = { row: item.row, product_id: item.productId, product_code: item.productCode };
+    let request: api.WriteRequest;
+    try {
+      const features = Object.keys(item.features).length > 0 ? item.features : undefined;
+      request = await api.getProductRequest(item.productId, item.data, features);
+      await api.saveProduct(request);
+    } catch (error) {
+      return { ...row, status: "failed", error: (error as Error).message };
+    }
+    // The product is saved, so the row is updated even when the audit log fails
+    await appendAuditLog({ tool: IMPORT_PRODUCTS_TOOL.name, entity: "product", entity_id: item.productId, changes: item.changes, requests: [request] })
+      .catch(error => logger.error("Failed to append audit log", { tool: IMPORT_PRODUCTS_TOOL.name, entity_id: item.productId, error }));
+    return { ...row, status: "updated" };
+  });
+  return { dry_run: false, token: null, expires_at: null, summary: countByStatus(rows), rows };
+}
+
+/**
+ * Dry run compares rows with the current products and saves the changes for the confirm call.
+ */
+export async function importProducts(params: z.infer<typeof ImportProductsInputSchema>): Promise<z.infer<typeof ImportProductsOutputSchema>> {
+  const batchSize = params.batchSize ?? IMPORT_BATCH_SIZE;
+  if (params.confirm) return applyImport(params.confirm, batchSize);
+  if (!params.file === !params.content) throw new Error("Pass file or content to import, or confirm to apply a dry run");
+
+  const content = params.content ?? await readImportFile(getImportDir(), params.file!);
+  const format = params.format ?? (params.file?.toLowerCase().endsWith(".json") ? "json" : "csv");
+  const records = parseImportRecords(content, format);
+  if (records.length === 0) throw new Error("No rows to import");
+  if (records.length > IMPORT_MAX_ROWS) throw new Error(`Too many rows: ${records.length}, max ${IMPORT_MAX_ROWS}`);
+
+  // Fresh products list, changes made since the last cache refresh are compared too
+  const [products, features] = await Promise.all([api.getProducts(true), api.getFeatures()]);
+  const columns = [...new Set(records.flatMap(record => Object.keys(record)))];
+  const { mapping, ignored } = getColumnMapping(columns, features, params.mapping);
+  const targets = Object.values(mapping);
+  const matchBy = params.matchBy ?? (targets.includes("product_code") ? "product_code" : "product_id");
+  if (!targets.includes(matchBy)) throw new Error(`No column is mapped to ${matchBy}, it's needed to match products`);
+  const match = createProductMatcher(products, matchBy);
+
+  const items: Parameters<typeof saveImportPlan>[1] = [];
+  const rows = await inBatches(records.map((record, i) => ({ record, row: i + 1 })), batchSize, async ({ record, row }): Promise<ImportRowOutput> => {
+    const mapped = mapImportRow(record, mapping, features);
+    const result = { row, product_id: mapped.keys.product_id ?? null, product_code: mapped.keys.product_code ?? "" };
+    if (mapped.errors.length > 0) return { ...result, status: "error", error: mapped.errors.join("; ") };
+    const found = match(mapped.keys);
+    if ("error" in found) return { ...result, status: found.notFound ? "not_found" : "error", error: found.error };
+
+    let current: ExportProduct = found.product;
+    // Descriptions and feature values are not in the products list
+    if (Object.keys(mapped.features).length > 0 || Object.keys(mapped.data).some(field => !(field in current))) {
+      current = await api.getProduct(found.product.product_id);
+    }
+    const changes = diffProductFields(current, flattenFeatures(current), mapped);
+    const product = { ...result, product_id: current.product_id, product_code: current.product_code };
+    if (changes.length === 0) return { ...product, status: "unchanged" };
+    const denied = getDeniedFields(IMPORT_PRODUCTS_TOOL.name, changes.map(c => c.field));
+    if (denied.length > 0) return { ...product, status: "error", changes, error: `Fields are not allowed by the write policy: ${denied.join(", ")}` };
+    items.push({
+      row,
+      productId: current.product_id,
+      productCode: current.product_code,
+      data: Object.fromEntries(changes.filter(c => !c.field.startsWith(FEATURE_TARGET_PREFIX)).map(c => [c.field, c.to])),
+      features: Object.fromEntries(changes.filter(c => c.field.startsWith(FEATURE_TARGET_PREFIX)).map(c => [c.field.slice(FEATURE_TARGET_PREFIX.length), c.to])),
+      changes,
+    });
+    return { ...product, status: "update", changes };
+  });
+
+  items.sort((a, b) => a.row - b.row);
+  const plan = items.length > 0 ? saveImportPlan(getStoreConfig().name, items) : null;
+  return {
+    dry_run: true,
+    token: plan?.token ?? null,
+    expires_at: plan ? new Date(plan.expiresAt).toISOString() : null,
+    summary: countByStatus(rows),
+    ignored_columns: ignored,
+    rows,
+  };
+}
+
+export async function updateOrder(params: z.infer<typeof UpdateOrderInputSchema>): Promise<z.infer<typeof UpdateOrderOutputSchema> | DryRun> {
+  const { orderId, status, staffNote, trackingNumber, carrier } = params;
+  if (!status && !staffNote && !trackingNumber && !carrier) {
+    throw new Error("Nothing to update, pass status, staffNote or trackingNumber");
+  }
+  if (carrier && !trackingNumber) {
+    throw new Error("carrier requires trackingNumber");
+  }
+
+  const { order, state: before } = await getOrderState(orderId);
+  const data: Record<string, unknown> = {};
+  if (status) {
+    const statuses = await api.getOrderStatuses();
+    const code = status.toUpperCase();
+    if (!statuses.some(s => s.status === code)) {
+      const available = statuses.map(s => `${s.status} (${s.description})`).join(', ');
+      throw new Error(`Unknown order status "${status}". Available: ${available}`);
+    }
+    data.status = code;
+    data.notify_user = params.notifyCustomer ? 'Y' : 'N';
+    data.notify_department = params.notifyDepartment ? 'Y' : 'N';
+    data.notify_vendor = params.notifyVendor ? 'Y' : 'N';
+  }
+  if (staffNote) {
+    data.details = [before.staff_notes, staffNote].filter(Boolean).join('\n');
+  }
+
+  // Order fields and shipments are saved by different requests, changes are kept by request for partial updates
+  const steps: { request: api.WriteRequest; changes: FieldChange[] }[] = [];
+  if (Object.keys(data).length > 0) {
+    const changes: FieldChange[] = [];
+    if (data.status) changes.push({ field: 'status', from: before.status, to: data.status });
+    if (staffNote) changes.push({ field: 'details', from: before.staff_notes, to: data.details });
+    steps.push({ request: api.getOrderUpdateRequest(orderId, data), changes });
+  }
+  if (trackingNumber) {
+    const changes: FieldChange[] = [{ field: 'tracking_number', from: before.tracking[0]?.tracking_number ?? null, to: trackingNumber }];
+    if (carrier) changes.push({ field: 'carrier', from: before.tracking[0]?.carrier ?? null, to: carrier });
+    steps.push({ request: await api.getOrderTrackingRequest(order, { trackingNumber, carrier }), changes });
+  }
+  const changes = steps.flatMap(step => step.changes);
+  assertWritePolicy(UPDATE_ORDER_TOOL.name, changes.map(c => c.field));
+  if (params.dryRun) return { dry_run: true, requests: steps.map(step => step.request), changes };
+
+  const applied: typeof steps = [];
+  let error: string | undefined;
+  for (const step of steps) {
+    try {
+      await api.sendWriteRequest(step.request);
+    } catch (err) {
+      // Nothing is changed yet, the error is reported as is
+      if (applied.length === 0) throw err;
+      error = err instanceof Error ? err.message : String(err);
+      break;
+    }
+    applied.push(step);
+  }
+  const requests = applied.map(step => step.request);
+  await appendAuditLog({ tool: UPDATE_ORDER_TOOL.name, entity: "order", entity_id: orderId, changes: applied.flatMap(step => step.changes), requests });
+  const { state: after } = await getOrderState(orderId);
+  return { order_id: orderId, before, after, applied: requests, ...(error ? { error } : {}) };
+}
 
-function getAnswerJson(data: any): { content: { type: string; text: string }[] } {
-  return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+export async function getAuditLog(params: z.infer<typeof AuditLogInputSchema>): Promise<z.infer<typeof AuditLogOutputSchema>> {
+  return readAuditLog({
+    ...params,
+    store: getStoreConfig().name,
+    from: toTimestamp(params.from),
+    to: toTimestamp(params.to, true),
+    limit: params.limit ?? AUDIT_LOG_LIMIT,
+  });
+}
+
+export async function searchUsers(params: z.infer<typeof SearchUsersInputSchema>): Promise<z.infer<typeof SearchUsersOutputSchema>> {
+  const page = params.page ?? 1;
+  const limit = params.limit ?? 50;
+  const { users, total } = await api.searchUsers({ ...params, page, limit });
+  return { users, total, page, limit };
+}
+
+function toDate(timestamp?: number): string {
+  return timestamp ? new Date(timestamp * 1000).toISOString() : '';
+}
+
+export async function getCustomerHistory(params: z.infer<typeof GetCustomerHistoryInputSchema>): Promise<z.infer<typeof CustomerHistoryOutputSchema>> {
+  const { userId, email } = params;
+  if (!userId && !email) {
+    throw new Error("Pass userId or email");
+  }
+  const limit = params.maxOrders ?? 100;
+  const excluded = (params.excludeStatuses ?? DEFAULT_EXCLUDED_STATUSES).map(s => s.toUpperCase());
+
+  const user = userId ? await api.getUser(userId) : (await api.searchUsers({ email, limit: 1 })).users[0];
+  const orderList = userId ? await api.searchOrders({ userId, limit }) : await api.searchOrders({ email, limit });
+  // Orders list has no products, full orders are fetched
+  const orders = await api.getOrdersDetails(orderList);
+
+  const statuses: Record<string, number> = {};
+  const products = new Map<number, z.infer<typeof CustomerProductSchema>>();
+  let lifetimeValue = 0;
+  let orderCount = 0;
+  for (const order of orders) {
+    statuses[order.status] = (statuses[order.status] ?? 0) + 1;
+    if (excluded.includes(order.status)) continue;
+    orderCount++;
+    lifetimeValue += order.total;
+    for (const p of Object.values(order.products ?? {})) {
+      const item = products.get(p.product_id) ?? { product_id: p.product_id, product: p.product, product_code: p.product_code, quantity: 0, subtotal: 0, orders: 0 };
+      item.quantity += p.amount;
+      item.subtotal += p.subtotal;
+      item.orders++;
+      products.set(p.product_id, item);
+    }
+  }
+
+  const timestamps = orders.map(o => o.timestamp ?? 0).filter(Boolean);
+  const lastOrder = orders[0];
+  return {
+    customer: {
+      user_id: user?.user_id ?? (userId || undefined),
+      name: [user?.firstname || lastOrder?.firstname, user?.lastname || lastOrder?.lastname].filter(Boolean).join(' '),
+      email: user?.email || lastOrder?.email || email || '',
+      phone: user?.phone || lastOrder?.phone || '',
+    },
+    order_count: orderCount,
+    orders_analyzed: orders.length,
+    lifetime_value: Math.round(lifetimeValue * 100) / 100,
+    average_order_value: orderCount ? Math.round(lifetimeValue / orderCount * 100) / 100 : 0,
+    first_order_date: toDate(timestamps.length ? Math.min(...timestamps) : undefined),
+    last_order_date: toDate(timestamps.length ? Math.max(...timestamps) : undefined),
+    statuses,
+    top_products: [...products.values()]
+      .sort((a, b) => b.quantity - a.quantity || b.subtotal - a.subtotal)
+      .slice(0, params.topProducts ?? 10),
+  };
+}
+
+export async function getSalesReport(params: z.infer<typeof SalesReportInputSchema>): Promise<z.infer<typeof SalesReportOutputSchema>> {
+  const maxOrders = params.maxOrders ?? SALES_REPORT_MAX_ORDERS;
+  // One more order is requested to detect truncation
+  const orderList = await api.searchOrders({
+    status: params.status,
+    createdFrom: toTimestamp(params.from),
+    createdTo: toTimestamp(params.to, true),
+    limit: maxOrders + 1,
+  });
+  const orders = await api.getOrdersDetails(orderList.slice(0, maxOrders));
+  const report = buildSalesReport(orders, {
+    from: params.from,
+    to: params.to,
+    period: params.period,
+    excludeStatuses: params.excludeStatuses ?? DEFAULT_EXCLUDED_STATUSES,
+    topProducts: params.topProducts,
+  });
+  return { ...report, orders_analyzed: orders.length, truncated: orderList.length > maxOrders };
+}
+
+function getAnswerJson(data: any, structuredContent?: Record<string, unknown>): { content: { type: string; text: string }[]; structuredContent?: Record<string, unknown> } {
+  const answer = { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+  return structuredContent ? { ...answer, structuredContent } : answer;
+}
+
+function getAnswerError(error: unknown): { content: { type: string; text: string }[]; isError: boolean } {
+  let text = `Error: ${(error as Error).message}`;
+  if (error instanceof CscartApiError) {
+    const details = { method: error.method, endpoint: error.endpoint, status: error.status, body: error.body };
+    text = `${text}\n${JSON.stringify(details, null, 2)}`;
+  } else if (error instanceof CscartValidationError) {
+    text = `${text}\n${JSON.stringify(error.issues.slice(0, 20), null, 2)}`;
+  } else if (error instanceof z.ZodError) {
+    const issues = error.issues.map(issue => `${issue.path.join('.') || 'arguments'}: ${issue.message}`);
+    text = `Error: Invalid arguments: ${issues.join('; ')}`;
+  }
+  return { content: [{ type: "text", text }], isError: true };
 }
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
+/**
+ * Run the tool by name, errors are returned as tool results with isError.
+ */
+async function callTool(name: string, args: Record<string, unknown> | undefined) {
   try {
+    if (name === LIST_STORES_TOOL.name) {
+      const stores = api.listStores();
+      return getAnswerJson(stores, { stores });
+    }
     if (name === GET_PRODUCT_TOOL.name) {
-      const { productId } = GetProductInputSchema.parse(args);
-      const product = await api.getProduct(productId);
-      return getAnswerJson(product);
+      const params = GetProductInputSchema.parse(args);
+      const product = await getProductDetails(params);
+      return getAnswerJson(product, product);
+    }
+    if (name === GET_PRODUCT_OPTIONS_TOOL.name) {
+      const params = GetProductOptionsInputSchema.parse(args);
+      const result = await getProductOptions(params);
+      return getAnswerJson(result, result);
     }
     if (name === GET_ORDER_TOOL.name) {
-      const { orderId } = GetOrderInputSchema.parse(args);
-      const message = await getOrder({orderId});
-      return getAnswerJson(message);
+      const params = GetOrderInputSchema.parse(args);
+      const result = await getOrder(params);
+      return getAnswerJson(result.message, result);
     }
     if (name === GET_PRODUCTS_TOOL.name) {
-      const products = await api.getProducts();
-      return getAnswerJson(products);
+      const params = GetProductsInputSchema.parse(args ?? {});
+      const result = await getProducts(params);
+      return getAnswerJson(result, result);
     }
     if (name === GET_FEATURES_TOOL.name) {
       const features = await api.getFeatures();
-      return getAnswerJson(features);
+      return getAnswerJson(features, { features });
+    }
+    if (name === REFRESH_CACHE_TOOL.name) {
+      const params = RefreshCacheInputSchema.parse(args ?? {});
+      const status = await api.refreshCache(params);
+      return getAnswerJson(status, status);
+    }
+    if (name === CACHE_STATUS_TOOL.name) {
+      const { resources } = CacheStatusInputSchema.parse(args ?? {});
+      const status = await api.getCacheStatus(resources);
+      return getAnswerJson(status, status);
     }
     if (name === SEARCH_PRODUCTS_TOOL.name) {
-      const { name, code } = SearchProductsInputSchema.parse(args);
-      const results = await searchProducts({ name, code });
-      return getAnswerJson(results);
+      const params = SearchProductsInputSchema.parse(args ?? {});
+      const result = await searchProducts(params);
+      return getAnswerJson(result, result);
+    }
+    if (name === EXPORT_PRODUCTS_TOOL.name) {
+      const params = ExportProductsInputSchema.parse(args ?? {});
+      const result = await exportProducts(params);
+      return {
+        content: [{ type: "text", text: [
+          `Exported ${result.count} of ${result.total} products to ${result.path}`,
+          ...(result.truncated ? [`Feature filters search stopped after ${result.scanned} products, increase maxScan to export all matches`] : []),
+          `\nPreview:\n${result.preview}`,
+        ].join("\n") }],
+        structuredContent: result,
+      };
+    }
+    if (name === AUDIT_PRODUCTS_TOOL.name) {
+      const params = AuditProductsInputSchema.parse(args ?? {});
+      const report = await auditProducts(params);
+      return {
+        content: [{ type: "text", text: formatAuditReport(report) }],
+        structuredContent: report,
+      };
+    }
+    if (name === GET_INVENTORY_TOOL.name) {
+      const params = GetInventoryInputSchema.parse(args ?? {});
+      const result = await getInventory(params);
+      const notes = result.truncated ? `\n\nOnly the latest ${result.orders_analyzed} orders are analyzed, increase maxOrders for the full sales period.` : '';
+      return {
+        content: [{ type: "text", text: formatInventory(result.items, result) + notes }],
+        structuredContent: result,
+      };
+    }
+    if (name === GET_CATEGORIES_TOOL.name) {
+      const params = GetCategoriesInputSchema.parse(args ?? {});
+      const categories = await getCategories(params);
+      return getAnswerJson(categories, { categories });
+    }
+    if (name === GET_CATEGORY_TOOL.name) {
+      const params = GetCategoryInputSchema.parse(args);
+      const category = await getCategory(params);
+      return getAnswerJson(category, category);
+    }
+    if (name === SEARCH_ORDERS_TOOL.name) {
+      const params = SearchOrdersInputSchema.parse(args);
+      const results = await searchOrders(params);
+      return getAnswerJson(results, { orders: results });
+    }
+    if (name === SEARCH_USERS_TOOL.name) {
+      const params = SearchUsersInputSchema.parse(args ?? {});
+      const result = await searchUsers(params);
+      return getAnswerJson(result, result);
+    }
+    if (name === GET_USER_TOOL.name) {
+      const { userId } = GetUserInputSchema.parse(args);
+      const user = await api.getUser(userId);
+      return getAnswerJson(user, user);
+    }
+    if (name === GET_CUSTOMER_HISTORY_TOOL.name) {
+      const params = GetCustomerHistoryInputSchema.parse(args);
+      const result = await getCustomerHistory(params);
+      return getAnswerJson(result, result);
+    }
+    if (name === SALES_REPORT_TOOL.name) {
+      const params = SalesReportInputSchema.parse(args);
+      const report = await getSalesReport(params);
+      const notes = report.truncated ? `\n\nOnly the latest ${report.orders_analyzed} orders are analyzed, increase maxOrders for the full period.` : '';
+      return {
+        content: [{ type: "text", text: formatSalesReport(report) + notes }],
+        structuredContent: report,
+      };
+    }
+    if (name === AUDIT_LOG_TOOL.name) {
+      const params = AuditLogInputSchema.parse(args ?? {});
+      const result = await getAuditLog(params);
+      return getAnswerJson(result, result);
+    }
+    // Dry runs are checked too, they show what the call would do
+    if (WRITE_TOOLS.some(tool => tool.name === name)) {
+      api.assertWriteAllowed();
+      assertWritePolicy(name);
+    }
+    if (name === UPDATE_PRODUCT_TOOL.name) {
+      const params = UpdateProductInputSchema.parse(args);
+      const product = await updateProduct(params);
+      return getAnswerJson(product, product);
+    }
+    if (name === CREATE_PRODUCT_TOOL.name) {
+      const params = CreateProductInputSchema.parse(args);
+      const product = await createProduct(params);
+      return getAnswerJson(product, product);
+    }
+    if (name === IMPORT_PRODUCTS_TOOL.name) {
+      const params = ImportProductsInputSchema.parse(args ?? {});
+      const result = await importProducts(params);
+      return getAnswerJson(result, result);
+    }
+    if (name === UPDATE_ORDER_TOOL.name) {
+      const params = UpdateOrderInputSchema.parse(args);
+      const result = await updateOrder(params);
+      return getAnswerJson(result, result);
     }
     throw new Error(`Unknown tool name: ${name}`);
   } catch (error) {
-    return {
-      content: [
-        { type: "text", text: `Error: ${(error as Error).message}` },
-      ],
-      isError: true,
-    };
+    return getAnswerError(error);
   }
-});
+}
+
+/**
+ * Create MCP server with tools, resources and prompts. One server is connected to one transport (stdio or HTTP session).
+ */
+export function createServer(): Server {
+  const server = new Server(
+    {
+      name: "cscart-server",
+      version: "1.0.0",
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true, listChanged: true },
+        prompts: {},
+        logging: {},
+      },
+    },
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return { tools: getTools() };
+  });
+
+  server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+    return listResources(request.params?.cursor);
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: RESOURCE_TEMPLATES };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return readResource(request.params.uri);
+  });
+
+  // Subscribed resource URIs, notified on cache changes
+  const resourceSubscriptions = new Set<string>();
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    parseResourceUri(request.params.uri);
+    resourceSubscriptions.add(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    resourceSubscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: PROMPTS };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    return getPrompt(request.params.name, request.params.arguments);
+  });
+
+  // Client gets log messages of its own tool calls after logging/setLevel
+  let clientLogLevel: LogLevel | undefined;
+  const activeRequests = new Set<string>();
+
+  server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    clientLogLevel = request.params.level;
+    return {};
+  });
+
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { store, ...args } = request.params.arguments ?? {};
+    const context = {
+      request_id: randomUUID(),
+      tool: request.params.name,
+      store: typeof store === "string" ? store : undefined,
+      user: extra.authInfo?.clientId,
+      session: extra.sessionId,
+    };
+    activeRequests.add(context.request_id);
+    return runWithLogContext(context, async () => {
+      const started = Date.now();
+      logger.info("Tool call", { args });
+      try {
+        const result = await runWithStore(context.store, () => callTool(request.params.name, args));
+        logger.info("Tool call finished", { duration_ms: Date.now() - started, is_error: "isError" in result && result.isError });
+        return result;
+      } catch (error) {
+        logger.error("Tool call failed", { duration_ms: Date.now() - started, error });
+        return getAnswerError(error);
+      } finally {
+        activeRequests.delete(context.request_id);
+      }
+    });
+  });
+
+  const unsubscribeLog = onLog(entry => {
+    if (!clientLogLevel || !entry.request_id || !activeRequests.has(entry.request_id)) return;
+    if (!isLevelEnabled(entry.level, clientLogLevel)) return;
+    server.sendLoggingMessage({ level: entry.level, logger: "cscart", data: entry }).catch(() => {
+      // Disconnected client, the entry is already in the server log
+    });
+  });
+
+  const notifyCacheChange = (change: CacheChange) => {
+    const { uris, listChanged } = getResourceChanges(change);
+    for (const uri of uris.filter(uri => resourceSubscriptions.has(uri))) {
+      server.sendResourceUpdated({ uri }).catch(error => logger.warning("Failed to notify resource update", { uri, error }));
+    }
+    if (listChanged) {
+      server.sendResourceListChanged().catch(error => logger.warning("Failed to notify resources list change", { error }));
+    }
+  };
+  // Resource URIs have no store and are read from the default store, so only its cache is watched
+  const unsubscribeCache = Promise.resolve()
+    .then(() => api.onCacheChange(notifyCacheChange))
+    .catch(error => {
+      logger.error("Failed to subscribe to cache changes", { error });
+      return undefined;
+    });
+  // Order watcher events are sent as notice log messages after logging/setLevel, subscribers of the order resource get the update
+  const unsubscribeOrders = onOrderEvent(event => {
+    if (clientLogLevel && isLevelEnabled("notice", clientLogLevel)) {
+      server.sendLoggingMessage({ level: "notice", logger: "cscart.orders", data: event }).catch(() => {
+        // Disconnected client, the event is delivered to the sinks
+      });
+    }
+    const uri = `cscart://order/${event.order_id}`;
+    if (event.store === getDefaultStoreName() && resourceSubscriptions.has(uri)) {
+      server.sendResourceUpdated({ uri }).catch(error => logger.warning("Failed to notify resource update", { uri, error }));
+    }
+  });
+  server.onclose = () => {
+    unsubscribeLog();
+    unsubscribeOrders();
+    unsubscribeCache.then(unsubscribe => unsubscribe?.());
+  };
+
+  return server;
+}
 
 async function main(): Promise<void> {
+  configureLogging(process.env);
+  const httpConfig = await getHttpConfig(process.argv.slice(2), process.env);
+  const watchConfig = getWatchConfig(process.argv.slice(2), process.env);
+  if (watchConfig?.sinks.includes("stdout") && !httpConfig) {
+    throw new Error("Order watcher stdout sink is available only in HTTP mode, stdout is the MCP stdio transport");
+  }
+  const watcher = watchConfig ? createOrderWatcher(watchConfig) : null;
+  if (httpConfig) {
+    const httpServer = await startHttpServer({ ...httpConfig, createServer });
+    logger.info("CS-Cart MCP server listening", { url: `http://${httpConfig.host}:${httpConfig.port}/mcp`, sse: "/sse" });
+    watcher?.start();
+    process.on("SIGINT", () => {
+      watcher?.stop();
+      httpServer.close();
+      process.exit(0);
+    });
+    return;
+  }
+
+  const server = createServer();
   const transport = new StdioServerTransport();
   await server.connect(transport);
+  watcher?.start();
   process.on("SIGINT", async () => {
-    console.log("SIGINT received, shutting down CS-Cart server...");
+    logger.info("SIGINT received, shutting down CS-Cart server");
+    watcher?.stop();
     await server.close();
     process.exit(0);
   });
 }
 
-main().catch((error) => {
-  console.error("Server error:", error);
-  process.exit(1);
-});
+// Started as a script or with the package bin, a symlink in node_modules/.bin; not when imported by tests
+function isEntryPoint(): boolean {
+  if (!process.argv[1]) return false;
+  try {
+    return realpathSync(process.argv[1]) === __filename;
+  } catch {
+    return false;
+  }
+}
+
+if (isEntryPoint()) {
+  main().catch((error) => {
+    logger.error("Server error", { error });
+    process.exit(1);
+  });
+}
@@ -1,13 +1,33 @@
 import { execa } from 'execa';
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { startMockServer } from './mock-server.js';
+import type { MockServer } from './mock-server.js';
 
 const CLI_SCRIPT = 'npm';
 const CLI_ARGS = ['-s', 'run', 'mcp-cli', '--'];
 
 describe('MCP Inspector CLI', () => {
+  let mock: MockServer;
+  let env: Record<string, string>;
+
+  beforeAll(async () => {
+    mock = await startMockServer();
+    env = {
+      CSCART_SHOP_URL: mock.url,
+      CSCART_EMAIL: mock.email,
+      CSCART_API_KEY: mock.apiKey,
+      CSCART_STORES_FILE: '',
+      CSCART_CACHE_BACKEND: 'memory',
+    };
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
   it('should return a tools list via tools/list', async () => {
     const args = [...CLI_ARGS, '--method', 'tools/list'];
-    const { stdout } = await execa(CLI_SCRIPT, args, { stdin: 'inherit' });
+    const { stdout } = await execa(CLI_SCRIPT, args, { stdin: 'inherit', env });
     const parsed = JSON.parse(stdout);
     expect(parsed).toHaveProperty('tools');
     expect(Array.isArray(parsed.tools)).toBe(true);
@@ -15,27 +35,28 @@ describe('MCP Inspector CLI', () => {
 
   it('should return items list via tools/call cscart_get_products', async () => {
     const args = [...CLI_ARGS, '--method', 'tools/call', '--tool-name', 'cscart_get_products'];
-    const { stdout } = await execa(CLI_SCRIPT, args, { stdin: 'inherit' });
+    const { stdout } = await execa(CLI_SCRIPT, args, { stdin: 'inherit', env });
     const parsed = JSON.parse(stdout);
     expect(parsed).toHaveProperty('content');
     expect(Array.isArray(parsed.content)).toBe(true);
   }, 20000);
 
-  it('should search products by name=24SMI and return product_id[]', async () => {
+  it('should search products by name=24SMI and return {products: {product_id}[], total}', async () => {
     const args = [
       ...CLI_ARGS,
       '--method', 'tools/call',
       '--tool-name', 'cscart_search_products',
       '--tool-arg', 'name=24SMI'
     ];
-    const { stdout } = await execa(CLI_SCRIPT, args, { stdin: 'inherit' });
+    const { stdout } = await execa(CLI_SCRIPT, args, { stdin: 'inherit', env });
     const parsed = JSON.parse(stdout);
     expect(parsed).toHaveProperty('content');
     expect(Array.isArray(parsed.content)).toBe(true);
-    // content[0].text is a JSON string array
-    const products = JSON.parse(parsed.content[0].text);
-    expect(Array.isArray(products)).toBe(true);
-    products.forEach((p: any) => expect(p).toHaveProperty('product_id'));
+    // content[0].text is a JSON string object
+    const result = JSON.parse(parsed.content[0].text);
+    expect(result).toHaveProperty('total');
+    expect(Array.isArray(result.products)).toBe(true);
+    result.products.forEach((p: any) => expect(p).toHaveProperty('product_id'));
   }, 20000);
 
   it('should get product by productId=1221 and return {product_features: {}[]}', async () => {
@@ -45,7 +66,7 @@ describe('MCP Inspector CLI', () => {
       '--tool-name', 'cscart_get_product',
       '--tool-arg', 'productId=1221'
     ];
-    const { stdout } = await execa(CLI_SCRIPT, args, { stdin: 'inherit' });
+    const { stdout } = await execa(CLI_SCRIPT, args, { stdin: 'inherit', env });
     const parsed = JSON.parse(stdout);
     expect(parsed).toHaveProperty('content');
     expect(Array.isArray(parsed.content)).toBe(true);
@@ -63,12 +84,12 @@ describe('MCP Inspector CLI', () => {
       '--tool-name', 'cscart_get_order',
       '--tool-arg', 'orderId=100'
     ];
-    const { stdout } = await execa(CLI_SCRIPT, args, { stdin: 'inherit' });
+    const { stdout } = await execa(CLI_SCRIPT, args, { stdin: 'inherit', env });
     const parsed = JSON.parse(stdout);
     expect(parsed).toHaveProperty('content');
     expect(Array.isArray(parsed.content)).toBe(true);
     // content[0].text is a JSON string object
     const orderText = parsed.content[0].text;
-    expect(orderText).toContain('Заказ');
+    expect(orderText).toContain('Order #100');
   });
 });
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { CategorySchema, OrderSchema, ProductCombinationSchema, ProductSchema } from './schemas.js';
+import {
+  compareInventoryItems,
+  formatInventory,
+  getInventoryItem,
+  getProductSales,
+  getStockThreshold,
+  loadStockThresholds,
+} from './inventory.js';
+
+const categories = [
+  CategorySchema.parse({ category_id: 1, category: 'Clothes', id_path: '1' }),
+  CategorySchema.parse({ category_id: 2, parent_id: 1, category: 'Shirts', id_path: '1/2' }),
+  CategorySchema.parse({ category_id: 3, category: 'Books', id_path: '3' }),
+];
+
+const order = (order_id: number, status: string, products: Record<string, { product_id: number; amount: number }>) =>
+  OrderSchema.parse({ order_id, status, total: 0, timestamp: 1700000000, products });
+
+describe('Inventory', () => {
+  it('should use product, nearest category and default thresholds', () => {
+    const thresholds = { default: 5, categories: { '1': 10, '3': 2 }, products: { '7': 0 } };
+    expect(getStockThreshold(ProductSchema.parse({ product_id: 7, category_ids: [2] }), thresholds, categories)).toBe(0);
+    expect(getStockThreshold(ProductSchema.parse({ product_id: 1, category_ids: [2] }), thresholds, categories)).toBe(10);
+    expect(getStockThreshold(ProductSchema.parse({ product_id: 1, category_ids: [3, 2] }), thresholds, categories)).toBe(10);
+    expect(getStockThreshold(ProductSchema.parse({ product_id: 1, main_category: 3 }), thresholds, categories)).toBe(2);
+    expect(getStockThreshold(ProductSchema.parse({ product_id: 1, category_ids: [9] }), thresholds, categories)).toBe(5);
+  });
+
+  it('should sum sales of orders without excluded statuses', () => {
+    const sales = getProductSales([
+      order(1, 'C', { a: { product_id: 1, amount: 2 }, b: { product_id: 2, amount: 1 } }),
+      order(2, 'P', { a: { product_id: 1, amount: 4 } }),
+      order(3, 'I', { a: { product_id: 1, amount: 50 } }),
+    ], ['i']);
+    expect(sales).toEqual(new Map([[1, { sold: 6, orders: 2 }], [2, { sold: 1, orders: 1 }]]));
+  });
+
+  it('should estimate days of stock left and flag low stock combinations', () => {
+    const options = {
+      thresholds: { default: 5, categories: {}, products: {} },
+      categories,
+      sales: new Map([[1, { sold: 30, orders: 3 }]]),
+      salesDays: 30,
+    };
+    const item = getInventoryItem(ProductSchema.parse({ product_id: 1, product_code: 'A', product: 'Cup', amount: 12 }), options);
+    expect(item).toMatchObject({ amount: 12, threshold: 5, low_stock: false, sold: 30, daily_sales: 1, days_left: 12 });
+    const combinations = [ProductCombinationSchema.parse({ product_id: 2, combination_hash: 123, combination: { 5: 20 }, amount: 1, product_code: 'B-S' })];
+    const withCombinations = getInventoryItem(ProductSchema.parse({ product_id: 2, product_code: 'B', product: 'Shirt', amount: 40 }), options, combinations);
+    expect(withCombinations).toMatchObject({ low_stock: true, days_left: null, combinations: [{ combination: { 5: 20 }, amount: 1, low_stock: true }] });
+    expect([withCombinations, item].sort(compareInventoryItems).map(i => i.product_id)).toEqual([1, 2]);
+    const text = formatInventory([item, withCombinations], { total: 2, low_stock: 1, sales_days: 30 });
+    expect(text).toContain('1 of 2 products have low stock. Sales period: 30 days.');
+    expect(text).toContain('| 2 | B-S | 5:20 | 1 | yes |');
+  });
+
+  it('should load and validate thresholds file', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cscart-inventory-'));
+    try {
+      const file = path.join(dir, 'thresholds.json');
+      await fs.writeFile(file, JSON.stringify({ categories: { '1': 10 } }));
+      expect(await loadStockThresholds({ CSCART_STOCK_THRESHOLDS_FILE: file })).toEqual({ default: 5, categories: { '1': 10 }, products: {} });
+      expect(await loadStockThresholds({})).toEqual({ default: 5, categories: {}, products: {} });
+      await fs.writeFile(file, JSON.stringify({ default: -1 }));
+      await expect(loadStockThresholds({ CSCART_STOCK_THRESHOLDS_FILE: file })).rejects.toThrow('Invalid stock thresholds');
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,179 @@
+import { promises as fs } from "fs";
+import { z } from "zod";
+import type { Category, Order, Product, ProductCombination } from "./schemas.js";
+import { formatTable } from "./reports.js";
+
+const DEFAULT_STOCK_THRESHOLD = 5;
+const DAY = 86400;
+
+const StockThresholdsSchema = z.object({
+  default: z.number().nonnegative().default(DEFAULT_STOCK_THRESHOLD).describe("Low stock threshold of products without own or category threshold"),
+  categories: z.record(z.number().nonnegative()).default({}).describe("Thresholds by category ID, subcategories inherit them"),
+  products: z.record(z.number().nonnegative()).default({}).describe("Thresholds by product ID"),
+});
+type StockThresholds = z.infer<typeof StockThresholdsSchema>;
+
+interface ProductSales {
+  sold: number;
+  orders: number;
+}
+
+interface InventoryItem {
+  product_id: number;
+  product_code: string;
+  product: string;
+  status: string;
+  amount: number;
+  threshold: number;
+  low_stock: boolean;
+  sold: number;
+  daily_sales: number;
+  /** Null without sales in the period */
+  days_left: number | null;
+  combinations?: { combination: Record<string, number>; product_code: string; amount: number; low_stock: boolean }[];
+}
+
+interface InventoryOptions {
+  thresholds: StockThresholds;
+  categories: Category[];
+  sales: Map<number, ProductSales>;
+  /** Sales period, days */
+  salesDays: number;
+}
+
+/**
+ * Stock thresholds from the JSON file CSCART_STOCK_THRESHOLDS_FILE, default threshold 5 for all products without it.
+ */
+async function loadStockThresholds(env: NodeJS.ProcessEnv = process.env): Promise<StockThresholds> {
+  const file = env["CSCART_STOCK_THRESHOLDS_FILE"];
+  if (!file) return StockThresholdsSchema.parse({});
+  let data: unknown;
+  try {
+    data = JSON.parse(await fs.readFile(file, "utf-8"));
+  } catch (error) {
+    throw new Error(`Failed to read stock thresholds ${file}: ${(error as Error).message}`);
+  }
+  const result = StockThresholdsSchema.safeParse(data);
+  if (!result.success) {
+    throw new Error(`Invalid stock thresholds ${file}: ${result.error.issues.map(issue => `${issue.path.join(".")}: ${issue.message}`).join("; ")}`);
+  }
+  return result.data;
+}
+
+/**
+ * Threshold of the product, or of the nearest category with a threshold, or default.
+ * The highest category threshold is used for products in several categories.
+ */
+function getStockThreshold(product: Product, thresholds: StockThresholds, categories: Category[]): number {
+  const own = thresholds.products[`${product.product_id}`];
+  if (own !== undefined) return own;
+  const byId = new Map(categories.map(c => [c.category_id, c]));
+  const categoryIds = product.category_ids ?? (product.main_category ? [product.main_category] : []);
+  const categoryThresholds = categoryIds.flatMap(id => {
+    const idPath = byId.get(id)?.id_path;
+    const ids = idPath ? idPath.split("/") : [`${id}`];
+    const nearest = ids.reverse().find(pathId => thresholds.categories[pathId] !== undefined);
+    return nearest ? [thresholds.categories[nearest]] : [];
+  });
+  return categoryThresholds.length > 0 ? Math.max(...categoryThresholds) : thresholds.default;
+}
+
+/**
+ * Sold quantity by product of full orders, orders with excluded statuses are skipped.
+ */
+function getProductSales(orders: Order[], excludeStatuses: string[]): Map<number, ProductSales> {
+  const excluded = excludeStatuses.map(s => s.toUpperCase());
+  const sales = new Map<number, ProductSales>();
+  for (const order of orders) {
+    if (excluded.includes(order.status)) continue;
+    for (const item of Object.values(order.products ?? {})) {
+      const productSales = sales.get(item.product_id) ?? { sold: 0, orders: 0 };
+      productSales.sold += item.amount;
+      productSales.orders++;
+      sales.set(item.product_id, productSales);
+    }
+  }
+  return sales;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Stock level, low stock flag and days of stock left at the sales rate of the period.
+ */
+function getInventoryItem(product: Product, options: InventoryOptions, combinations?: ProductCombination[]): InventoryItem {
+  const amount = product.amount ?? 0;
+  const threshold = getStockThreshold(product, options.thresholds, options.categories);
+  const sold = options.sales.get(product.product_id)?.sold ?? 0;
+  const dailySales = options.salesDays > 0 ? sold / options.salesDays : 0;
+  return {
+    product_id: product.product_id,
+    product_code: product.product_code,
+    product: product.product,
+    status: product.status ?? "",
+    amount,
+    threshold,
+    low_stock: amount <= threshold || (combinations ?? []).some(c => c.amount <= threshold),
+    sold,
+    daily_sales: round(dailySales),
+    days_left: dailySales > 0 ? Math.max(0, Math.floor(amount / dailySales)) : null,
+    ...(combinations?.length ? {
+      combinations: combinations.map(c => ({ combination: c.combination, product_code: c.product_code, amount: c.amount, low_stock: c.amount <= threshold })),
+    } : {}),
+  };
+}
+
+// Products running out first: by days left, then without sales by amount
+function compareInventoryItems(a: InventoryItem, b: InventoryItem): number {
+  return (a.days_left ?? Infinity) - (b.days_left ?? Infinity) || a.amount - b.amount;
+}
+
+/**
+ * Start of the sales period, unix seconds.
+ */
+function getSalesPeriodStart(salesDays: number, now = Date.now()): number {
+  return Math.floor(now / 1000) - salesDays * DAY;
+}
+
+function formatInventory(items: InventoryItem[], summary: { total: number; low_stock: number; sales_days: number }): string {
+  const rows = items.map(item => [
+    item.product_id,
+    item.product_code,
+    item.product,
+    item.amount,
+    item.threshold,
+    item.low_stock ? "yes" : "",
+    item.sold,
+    item.days_left ?? "–",
+  ]);
+  const combinationRows = items.flatMap(item => (item.combinations ?? []).map(c => [
+    item.product_id,
+    c.product_code,
+    Object.entries(c.combination).map(([option, variant]) => `${option}:${variant}`).join(", "),
+    c.amount,
+    c.low_stock ? "yes" : "",
+  ]));
+  return [
+    "## Inventory",
+    `${summary.low_stock} of ${summary.total} products have low stock. Sales period: ${summary.sales_days} days.`,
+    formatTable(["ID", "Code", "Product", "Stock", "Threshold", "Low", "Sold", "Days left"], rows),
+    combinationRows.length > 0 ? "### Option combinations" : "",
+    combinationRows.length > 0 ? formatTable(["Product ID", "Code", "Options (option:variant)", "Stock", "Low"], combinationRows) : "",
+  ].filter(Boolean).join("\n\n");
+}
+
+export type { StockThresholds, ProductSales, InventoryItem, InventoryOptions };
+
+export {
+  DEFAULT_STOCK_THRESHOLD,
+  StockThresholdsSchema,
+  loadStockThresholds,
+  getStockThreshold,
+  getProductSales,
+  getInventoryItem,
+  compareInventoryItems,
+  getSalesPeriodStart,
+  formatInventory,
+};
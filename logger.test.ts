@@ -0,0 +1,70 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { configureLogging, isLevelEnabled, loadLogConfig, log, onLog, redact, runWithLogContext } from './logger.js';
+import type { LogEntry } from './logger.js';
+
+describe('Logger', () => {
+  afterEach(() => {
+    configureLogging({});
+  });
+
+  it('should load level, destination and file from environment variables', () => {
+    expect(loadLogConfig({ CSCART_DATA_DIR: '/var/lib/mcp' })).toEqual({ level: 'info', destination: 'stderr', file: path.resolve('/var/lib/mcp/mcp.log') });
+    expect(loadLogConfig({ CSCART_LOG_LEVEL: 'DEBUG', CSCART_LOG_DESTINATION: 'file', CSCART_LOG_FILE: '/tmp/cscart.log' }))
+      .toEqual({ level: 'debug', destination: 'file', file: path.resolve('/tmp/cscart.log') });
+    expect(() => loadLogConfig({ CSCART_LOG_LEVEL: 'verbose' })).toThrow('Invalid CSCART_LOG_LEVEL');
+    expect(() => loadLogConfig({ CSCART_LOG_DESTINATION: 'syslog' })).toThrow('Invalid CSCART_LOG_DESTINATION');
+    expect(isLevelEnabled('warning', 'info')).toBe(true);
+    expect(isLevelEnabled('debug', 'info')).toBe(false);
+  });
+
+  it('should redact API keys and customer PII', () => {
+    expect(redact({
+      apiKey: 'secret',
+      headers: { Authorization: 'Basic abc' },
+      order: { order_id: 1, email: 'ivan@example.com', b_phone: '+7 900', s_firstname: 'Ivan', firstname: '', total: 10 },
+      args: { customerName: 'Ivan', status: 'P' },
+      endpoint: '/orders?email=ivan%40example.com&status=P&phone=123',
+      error: new Error('User ivan@example.com not found'),
+    })).toEqual({
+      apiKey: '[redacted]',
+      headers: { Authorization: '[redacted]' },
+      order: { order_id: 1, email: '[redacted]', b_phone: '[redacted]', s_firstname: '[redacted]', firstname: '', total: 10 },
+      args: { customerName: '[redacted]', status: 'P' },
+      endpoint: '/orders?email=[redacted]&status=P&phone=[redacted]',
+      error: 'User [redacted] not found',
+    });
+  });
+
+  it('should write JSON lines with the request context to the log file', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cscart-log-'));
+    try {
+      const file = path.join(dir, 'logs/mcp.log');
+      configureLogging({ CSCART_LOG_DESTINATION: 'file', CSCART_LOG_FILE: file });
+      runWithLogContext({ request_id: 'r1', tool: 'cscart_get_order' }, () => {
+        log('info', 'Tool call', { args: { order_id: 100, email: 'a@b.c' } });
+        log('debug', 'Cache hit', { resource: 'orders' });
+      });
+      log('warning', 'Outside of call');
+      const lines = (await fs.readFile(file, 'utf-8')).trim().split('\n').map(line => JSON.parse(line));
+      expect(lines).toHaveLength(2);
+      expect(lines[0]).toMatchObject({ level: 'info', msg: 'Tool call', request_id: 'r1', tool: 'cscart_get_order', args: { order_id: 100, email: '[redacted]' } });
+      expect(lines[1]).toMatchObject({ level: 'warning', msg: 'Outside of call' });
+      expect(lines[1].request_id).toBeUndefined();
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should pass entries below the configured level to listeners', () => {
+    configureLogging({ CSCART_LOG_LEVEL: 'emergency' });
+    const entries: LogEntry[] = [];
+    const unsubscribe = onLog(entry => entries.push(entry));
+    runWithLogContext({ request_id: 'r2' }, () => log('debug', 'CS-Cart request', { endpoint: '/products/1', duration_ms: 5 }));
+    unsubscribe();
+    log('debug', 'After unsubscribe');
+    expect(entries).toEqual([expect.objectContaining({ level: 'debug', request_id: 'r2', endpoint: '/products/1', duration_ms: 5 })]);
+  });
+});
@@ -0,0 +1,208 @@
+import path from "path";
+import { appendFileSync, mkdirSync } from "fs";
+import { AsyncLocalStorage } from "async_hooks";
+import { getDataDir } from "./stores.js";
+
+// MCP logging levels (RFC 5424 severities), from the lowest
+const LOG_LEVELS = ["debug", "info", "notice", "warning", "error", "critical", "alert", "emergency"] as const;
+type LogLevel = typeof LOG_LEVELS[number];
+
+const LOG_DESTINATIONS = ["stderr", "file"] as const;
+type LogDestination = typeof LOG_DESTINATIONS[number];
+
+const REDACTED = "[redacted]";
+const SECRET_KEYS = ["apikey", "api_key", "password", "token", "authorization", "secret"];
+// Customer fields of orders, users and tool arguments, with b_/s_ billing and shipping prefixes
+const PII_KEYS = ["email", "phone", "firstname", "lastname", "address", "address_2", "fax", "ip_address", "customername", "cname"];
+const PII_QUERY_PATTERN = /([?&](?:email|phone|cname)=)[^&\s]*/gi;
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+
+interface LogConfig {
+  level: LogLevel;
+  destination: LogDestination;
+  /** Log file for the `file` destination */
+  file: string;
+}
+
+interface LogContext {
+  request_id: string;
+  tool?: string;
+  store?: string;
+  /** HTTP user (token client id) */
+  user?: string;
+  /** MCP session of HTTP transports */
+  session?: string;
+}
+
+type LogEntry = Partial<LogContext> & {
+  time: string;
+  level: LogLevel;
+  msg: string;
+  [field: string]: unknown;
+};
+
+type LogListener = (entry: LogEntry) => void;
+
+function isLogLevel(value: string): value is LogLevel {
+  return (LOG_LEVELS as readonly string[]).includes(value);
+}
+
+/**
+ * Level is enabled when it is not lower than the minimal level.
+ */
+function isLevelEnabled(level: LogLevel, minLevel: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(minLevel);
+}
+
+/**
+ * Logging config from CSCART_LOG_LEVEL (default info), CSCART_LOG_DESTINATION (default stderr)
+ * and CSCART_LOG_FILE (default `mcp.log` in the data dir).
+ * @throws Error for unknown level or destination
+ */
+function loadLogConfig(env: NodeJS.ProcessEnv): LogConfig {
+  const level = (env["CSCART_LOG_LEVEL"] || "info").toLowerCase();
+  if (!isLogLevel(level)) throw new Error(`Invalid CSCART_LOG_LEVEL "${level}". Available: ${LOG_LEVELS.join(", ")}`);
+  const destination = (env["CSCART_LOG_DESTINATION"] || "stderr").toLowerCase() as LogDestination;
+  if (!LOG_DESTINATIONS.includes(destination)) {
+    throw new Error(`Invalid CSCART_LOG_DESTINATION "${destination}". Available: ${LOG_DESTINATIONS.join(", ")}`);
+  }
+  const file = env["CSCART_LOG_FILE"] ? path.resolve(env["CSCART_LOG_FILE"]) : path.join(getDataDir(env), "mcp.log");
+  return { level, destination, file };
+}
+
+let logConfig: LogConfig | null = null;
+let logDirCreated = false;
+const logContext = new AsyncLocalStorage<LogContext>();
+const listeners = new Set<LogListener>();
+
+/**
+ * Apply logging config, called at startup to fail on invalid variables.
+ */
+function configureLogging(env: NodeJS.ProcessEnv = process.env): LogConfig {
+  logConfig = loadLogConfig(env);
+  logDirCreated = false;
+  return logConfig;
+}
+
+// Logging never throws, invalid variables fall back to defaults until configureLogging reports them
+function getLogConfig(): LogConfig {
+  if (!logConfig) {
+    try {
+      logConfig = loadLogConfig(process.env);
+    } catch {
+      logConfig = loadLogConfig({});
+    }
+  }
+  return logConfig;
+}
+
+function redactString(value: string): string {
+  return value.replace(PII_QUERY_PATTERN, `$1${REDACTED}`).replace(EMAIL_PATTERN, REDACTED);
+}
+
+function isSensitiveKey(key: string): boolean {
+  const name = key.toLowerCase().replace(/^[bs]_/, "");
+  return SECRET_KEYS.includes(name) || PII_KEYS.includes(name);
+}
+
+/**
+ * Copy of the value with API keys and customer PII replaced: sensitive keys at any depth,
+ * emails in strings and PII query parameters in URLs.
+ */
+function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === "string") return redactString(value);
+  if (value instanceof Error) return redactString(value.message);
+  if (!value || typeof value !== "object") return value;
+  if (depth >= 6) return "[object]";
+  if (Array.isArray(value)) return value.map(item => redact(item, depth + 1));
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+    key,
+    isSensitiveKey(key) && item !== undefined && item !== null && item !== "" ? REDACTED : redact(item, depth + 1),
+  ]));
+}
+
+function write(config: LogConfig, line: string) {
+  if (config.destination === "file") {
+    try {
+      if (!logDirCreated) {
+        mkdirSync(path.dirname(config.file), { recursive: true });
+        logDirCreated = true;
+      }
+      appendFileSync(config.file, `${line}\n`);
+      return;
+    } catch {
+      // Unwritable log file, keep the line on stderr
+    }
+  }
+  // stdout is the MCP stdio transport, logs go to stderr only
+  process.stderr.write(`${line}\n`);
+}
+
+/**
+ * Write JSON line with the current tool call context and redacted fields, and pass it to the listeners.
+ */
+function log(level: LogLevel, msg: string, fields: Record<string, unknown> = {}) {
+  const config = getLogConfig();
+  const enabled = isLevelEnabled(level, config.level);
+  if (!enabled && listeners.size === 0) return;
+  const entry: LogEntry = {
+    time: new Date().toISOString(),
+    level,
+    msg,
+    ...logContext.getStore(),
+    ...redact(fields) as Record<string, unknown>,
+  };
+  if (enabled) write(config, JSON.stringify(entry));
+  for (const listener of listeners) {
+    try {
+      listener(entry);
+    } catch {
+      // Listener errors are not logged, that would call the listener again
+    }
+  }
+}
+
+const logger = {
+  debug: (msg: string, fields?: Record<string, unknown>) => log("debug", msg, fields),
+  info: (msg: string, fields?: Record<string, unknown>) => log("info", msg, fields),
+  warning: (msg: string, fields?: Record<string, unknown>) => log("warning", msg, fields),
+  error: (msg: string, fields?: Record<string, unknown>) => log("error", msg, fields),
+};
+
+/**
+ * Listen to all log entries regardless of the configured level, used for MCP logging notifications.
+ * @returns Function that removes the listener
+ */
+function onLog(listener: LogListener) {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+/**
+ * Run function with the context added to all log entries inside it.
+ */
+function runWithLogContext<T>(context: LogContext, fn: () => T): T {
+  return logContext.run(context, fn);
+}
+
+/**
+ * Context of the current tool call, undefined outside of calls.
+ */
+function getLogContext(): LogContext | undefined {
+  return logContext.getStore();
+}
+
+export type { LogLevel, LogDestination, LogConfig, LogContext, LogEntry, LogListener };
+
+export {
+  LOG_LEVELS,
+  isLevelEnabled,
+  loadLogConfig,
+  configureLogging,
+  redact,
+  log,
+  logger,
+  onLog,
+  runWithLogContext,
+  getLogContext,
+};
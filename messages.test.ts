@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { OrderSchema } from './schemas.js';
+import { buildOrderInfo, formatOrderMessage, renderTemplate } from './messages.js';
+
+const order = OrderSchema.parse({
+  order_id: 100,
+  status: 'P',
+  total: 30,
+  firstname: 'Ann',
+  lastname: 'Lee',
+  email: 'ann@example.com',
+  notes: 'Call <before>',
+  fields: { 2: '@ann' },
+  payment_method: { payment: 'Card' },
+  products: { a: { product_id: 5, product: 'Cup & saucer', product_code: 'px-CUP', amount: 2, base_price: 15, subtotal: 30 } },
+});
+
+const info = buildOrderInfo(order, {
+  adminUrl: 'https://shop.test/admin.php',
+  productLinkTemplate: 'https://shop.test/p/{product_code}?id={product_id}',
+  telegramField: '2',
+  currency: 'EUR',
+  statusName: 'Processed',
+});
+
+describe('Order messages', () => {
+  it('should build order info with store currency and product links', () => {
+    expect(info).toMatchObject({ name: 'Ann Lee', telegram: '@ann', currency: 'EUR', total_formatted: '€30.00', status_name: 'Processed' });
+    expect(info.order_url).toBe('https://shop.test/admin.php?dispatch=orders.details&order_id=100');
+    expect(info.products[0].url).toBe('https://shop.test/p/px-CUP?id=5');
+  });
+
+  it('should render presets', () => {
+    const markdown = formatOrderMessage(info, 'markdown');
+    expect(markdown).toContain('**Order #100** – €30.00');
+    expect(markdown).toContain('- [Cup & saucer](https://shop.test/p/px-CUP?id=5) – €30.00 (€15.00 × 2)');
+    expect(markdown).not.toContain('Phone:');
+    const telegram = formatOrderMessage(info, 'telegram');
+    expect(telegram).toContain('<a href="https://shop.test/p/px-CUP?id=5">Cup &amp; saucer</a>');
+    expect(telegram).toContain('Call &lt;before&gt;');
+    expect(JSON.parse(formatOrderMessage(info, 'json')).order_id).toBe(100);
+  });
+
+  it('should render custom templates with sections', () => {
+    const text = formatOrderMessage(info, 'template', { text: 'Заказ № {{order_id}}{{^phone}} (без телефона){{/phone}}\n{{#products}}{{product_code}}: {{amount}}\n{{/products}}' });
+    expect(text).toBe('Заказ № 100 (без телефона)\npx-CUP: 2');
+    expect(renderTemplate('{{notes}}', { notes: '{{order_id}}', order_id: 1 })).toBe('{{order_id}}');
+    expect(() => formatOrderMessage(info, 'template')).toThrow('Order template is not configured');
+  });
+});
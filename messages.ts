@@ -0,0 +1,194 @@
+import type { Order } from "./schemas.js";
+
+const ORDER_MESSAGE_FORMATS = ["markdown", "plain", "telegram", "json", "template"] as const;
+type OrderMessageFormat = typeof ORDER_MESSAGE_FORMATS[number];
+
+interface OrderInfoProduct {
+  product_id: number;
+  product_code: string;
+  product: string;
+  amount: number;
+  base_price: number;
+  base_price_formatted: string;
+  subtotal: number;
+  subtotal_formatted: string;
+  url: string;
+}
+
+interface OrderInfo {
+  order_id: number;
+  status: string;
+  status_name: string;
+  date: string;
+  total: number;
+  total_formatted: string;
+  currency: string;
+  name: string;
+  phone: string;
+  email: string;
+  telegram: string;
+  company: string;
+  notes: string;
+  order_url: string;
+  payment_method: string;
+  products: OrderInfoProduct[];
+}
+
+interface OrderInfoOptions {
+  adminUrl: string;
+  /** Product URL with {product_id}, {product_code} or {id} (product code) placeholders */
+  productLinkTemplate: string;
+  /** Id of the custom profile field with customer Telegram */
+  telegramField?: string;
+  currency?: string;
+  locale?: string;
+  statusName?: string;
+}
+
+/**
+ * Format money with the currency code, falls back to "10.5 XYZ" for unknown currency codes.
+ */
+function formatMoney(value: number, currency: string, locale = "en-US"): string {
+  if (!currency) return `${value}`;
+  try {
+    return new Intl.NumberFormat(locale, { style: "currency", currency }).format(value);
+  } catch (err) {
+    return `${value} ${currency}`;
+  }
+}
+
+/**
+ * Product URL from the template with {product_id}, {product_code} or {id} (product code) placeholders.
+ */
+function formatProductUrl(template: string, product: { product_id: number; product_code: string }): string {
+  return template
+    .replace("{product_id}", `${product.product_id}`)
+    .replace("{product_code}", encodeURIComponent(product.product_code))
+    .replace("{id}", encodeURIComponent(product.product_code));
+}
+
+/**
+ * Collect order fields used in order message templates.
+ */
+function buildOrderInfo(order: Order, options: OrderInfoOptions): OrderInfo {
+  const currency = options.currency || `${order.secondary_currency ?? ""}`;
+  const money = (value: number) => formatMoney(value, currency, options.locale);
+  const products = Object.values(order.products ?? {}).map(p => ({
+    product_id: p.product_id,
+    product_code: p.product_code,
+    product: p.product,
+    amount: p.amount,
+    base_price: p.base_price,
+    base_price_formatted: money(p.base_price),
+    subtotal: p.subtotal,
+    subtotal_formatted: money(p.subtotal),
+    url: formatProductUrl(options.productLinkTemplate, p),
+  }));
+  return {
+    order_id: order.order_id,
+    status: order.status,
+    status_name: options.statusName || order.status,
+    date: order.timestamp ? new Date(order.timestamp * 1000).toISOString() : "",
+    total: order.total,
+    total_formatted: money(order.total),
+    currency,
+    name: `${order.firstname} ${order.lastname}`.trim(),
+    phone: order.phone || `${order.payment_info?.customer_phone ?? ""}`,
+    email: order.email,
+    telegram: options.telegramField ? `${order.fields?.[options.telegramField] ?? ""}` : "",
+    company: order.company,
+    notes: order.notes,
+    order_url: `${options.adminUrl}?dispatch=orders.details&order_id=${order.order_id}`,
+    payment_method: order.payment_method?.payment || "",
+    products,
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === "" || value === false || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Render Mustache-like template: `{{field}}` (escaped), `{{{field}}}` (raw),
+ * `{{#field}}...{{/field}}` renders for non-empty values and once per item of arrays, `{{^field}}...{{/field}}` for empty values.
+ */
+function renderTemplate(template: string, data: Record<string, unknown>, escape: (value: string) => string = value => value): string {
+  // One pass, so values are never parsed as template tags
+  const pattern = /\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}|\{\{\{(\w+)\}\}\}|\{\{(\w+)\}\}/g;
+  return template.replace(pattern, (_, type: string, key: string, inner: string, rawKey: string, escapedKey: string) => {
+    if (rawKey) return `${data[rawKey] ?? ""}`;
+    if (escapedKey) return escape(`${data[escapedKey] ?? ""}`);
+    const value = data[key];
+    if (type === "^") return isEmpty(value) ? renderTemplate(inner, data, escape) : "";
+    if (isEmpty(value)) return "";
+    if (Array.isArray(value)) return value.map(item => renderTemplate(inner, { ...data, ...item }, escape)).join("");
+    return renderTemplate(inner, data, escape);
+  });
+}
+
+const ORDER_MESSAGE_PRESETS: Record<Exclude<OrderMessageFormat, "json" | "template">, string> = {
+  markdown: [
+    "**Order #{{order_id}}** – {{total_formatted}}",
+    "Status: {{status_name}}",
+    "{{#payment_method}}Payment: {{payment_method}}\n{{/payment_method}}[Open in admin panel]({{order_url}})",
+    "",
+    "**Customer**",
+    "- Name: {{name}}",
+    "{{#phone}}- Phone: {{phone}}\n{{/phone}}{{#email}}- Email: {{email}}\n{{/email}}{{#telegram}}- Telegram: {{telegram}}\n{{/telegram}}{{#company}}- Company: {{company}}\n{{/company}}",
+    "{{#notes}}**Notes**\n{{notes}}\n\n{{/notes}}**Products**",
+    "{{#products}}- [{{product}}]({{url}}) – {{subtotal_formatted}}{{#multiple}} ({{base_price_formatted}} × {{amount}}){{/multiple}}\n{{/products}}",
+  ].join("\n").trim(),
+  plain: [
+    "Order #{{order_id}}",
+    "Total: {{total_formatted}}",
+    "Status: {{status_name}}",
+    "{{#payment_method}}Payment: {{payment_method}}\n{{/payment_method}}Order link: {{order_url}}",
+    "",
+    "Customer:",
+    "- Name: {{name}}",
+    "{{#phone}}- Phone: {{phone}}\n{{/phone}}{{#email}}- Email: {{email}}\n{{/email}}{{#telegram}}- Telegram: {{telegram}}\n{{/telegram}}{{#company}}- Company: {{company}}\n{{/company}}",
+    "{{#notes}}Notes:\n{{notes}}\n\n{{/notes}}Products:",
+    "{{#products}}- {{product}} ({{product_code}}) – {{subtotal_formatted}}{{#multiple}} ({{base_price_formatted}} x {{amount}}){{/multiple}}\n{{/products}}",
+  ].join("\n").trim(),
+  telegram: [
+    "<b>Order #{{order_id}}</b> – {{total_formatted}}",
+    "Status: {{status_name}}",
+    "{{#payment_method}}Payment: {{payment_method}}\n{{/payment_method}}<a href=\"{{order_url}}\">Open in admin panel</a>",
+    "",
+    "<b>Customer</b>",
+    "Name: {{name}}",
+    "{{#phone}}Phone: {{phone}}\n{{/phone}}{{#email}}Email: {{email}}\n{{/email}}{{#telegram}}Telegram: {{telegram}}\n{{/telegram}}{{#company}}Company: {{company}}\n{{/company}}",
+    "{{#notes}}<b>Notes</b>\n{{notes}}\n\n{{/notes}}<b>Products</b>",
+    "{{#products}}• <a href=\"{{url}}\">{{product}}</a> – {{subtotal_formatted}}{{#multiple}} ({{base_price_formatted}} × {{amount}}){{/multiple}}\n{{/products}}",
+  ].join("\n").trim(),
+};
+
+/**
+ * Render order message in the preset format or with the custom template.
+ * @param template Custom template, required for the `template` format. `escape: "html"` escapes values of HTML templates
+ */
+function formatOrderMessage(info: OrderInfo, format: OrderMessageFormat, template?: { text: string; escape?: "html" }): string {
+  if (format === "json") return JSON.stringify(info, null, 2);
+  const data = { ...info, products: info.products.map(p => ({ ...p, multiple: p.amount > 1 })) };
+  if (format === "template") {
+    if (!template) throw new Error("Order template is not configured, set CSCART_ORDER_TEMPLATE or CSCART_ORDER_TEMPLATE_FILE");
+    return renderTemplate(template.text, data, template.escape === "html" ? escapeHtml : undefined).trim();
+  }
+  return renderTemplate(ORDER_MESSAGE_PRESETS[format], data, format === "telegram" ? escapeHtml : undefined).trim();
+}
+
+export type { OrderMessageFormat, OrderInfo, OrderInfoProduct, OrderInfoOptions };
+
+export {
+  ORDER_MESSAGE_FORMATS,
+  ORDER_MESSAGE_PRESETS,
+  formatMoney,
+  formatProductUrl,
+  buildOrderInfo,
+  renderTemplate,
+  formatOrderMessage,
+};
@@ -0,0 +1,432 @@
+import http from "http";
+import path from "path";
+import { readFileSync } from "fs";
+import { fileURLToPath } from "url";
+import type { AddressInfo } from "net";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const FIXTURES_DIR = path.join(__dirname, "fixtures");
+const FIXTURE_FILES = ["products", "features", "categories", "orders", "statuses", "users", "currencies", "shipments", "combinations", "options"] as const;
+const API_PREFIX = "/api/2.0";
+const DEFAULT_EMAIL = "admin@example.com";
+const DEFAULT_API_KEY = "mock-api-key";
+// CS-Cart default page size
+const DEFAULT_ITEMS_PER_PAGE = 10;
+// Fields of full orders missing in the orders list
+const ORDER_DETAIL_FIELDS = ["products", "payment_method", "payment_info", "fields", "details", "notes", "shipping"];
+const PRODUCT_SORT_FIELDS: Record<string, string> = { code: "product_code" };
+
+type Row = Record<string, any>;
+type MockFixtures = Record<typeof FIXTURE_FILES[number], Row[]>;
+
+interface MockRequest {
+  method: string;
+  /** Path without /api/2.0 */
+  path: string;
+  query: URLSearchParams;
+  body: unknown;
+}
+
+/**
+ * Error returned instead of the response, e.g. 429 with Retry-After or 500.
+ */
+interface MockFailure {
+  status: number;
+  /** Path prefix without /api/2.0, all paths when not set */
+  path?: string;
+  method?: string;
+  /** Failed requests count, default 1 */
+  times?: number;
+  /** Retry-After header, seconds */
+  retryAfter?: number;
+  message?: string;
+}
+
+interface MockServerOptions {
+  fixtures?: MockFixtures;
+  host?: string;
+  /** Default 0, a random free port */
+  port?: number;
+  email?: string;
+  apiKey?: string;
+}
+
+interface MockResponse {
+  status: number;
+  body: unknown;
+  headers?: Record<string, string>;
+}
+
+class MockHttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/**
+ * Read fixtures from JSON files: products.json, features.json, orders.json, etc.
+ * Products keep feature values in `feature_values`, `{ variant_id }`, `{ variant_ids }` for multiple checkboxes or `{ value, value_int }`.
+ */
+function loadFixtures(dir = FIXTURES_DIR): MockFixtures {
+  return Object.fromEntries(FIXTURE_FILES.map(name => [name, JSON.parse(readFileSync(path.join(dir, `${name}.json`), "utf-8"))])) as MockFixtures;
+}
+
+function now(): string {
+  return `${Math.floor(Date.now() / 1000)}`;
+}
+
+function paginate(items: Row[], query: URLSearchParams): { items: Row[]; params: Row } {
+  const perPage = Number(query.get("items_per_page")) || DEFAULT_ITEMS_PER_PAGE;
+  const page = Number(query.get("page")) || 1;
+  return {
+    items: items.slice((page - 1) * perPage, page * perPage),
+    params: { page, items_per_page: perPage, total_items: `${items.length}` },
+  };
+}
+
+function list(name: string, items: Row[], query: URLSearchParams): MockResponse {
+  const { items: pageItems, params } = paginate(items, query);
+  return { status: 200, body: { [name]: pageItems, params } };
+}
+
+function findById(items: Row[], field: string, id: string, entity: string): Row {
+  const item = items.find(i => `${i[field]}` === id);
+  if (!item) throw new MockHttpError(404, `${entity} not found`);
+  return item;
+}
+
+function contains(value: unknown, search: string): boolean {
+  return `${value ?? ""}`.toLowerCase().includes(search.toLowerCase());
+}
+
+function inRange(value: unknown, from: string | null, to: string | null): boolean {
+  const number = Number(value);
+  return (from === null || number >= Number(from)) && (to === null || number <= Number(to));
+}
+
+function compare(a: unknown, b: unknown): number {
+  const numbers = [Number(a), Number(b)];
+  if (!numbers.some(isNaN)) return numbers[0] - numbers[1];
+  return `${a ?? ""}`.localeCompare(`${b ?? ""}`);
+}
+
+function withoutFields(row: Row, fields: string[]): Row {
+  return Object.fromEntries(Object.entries(row).filter(([key]) => !fields.includes(key)));
+}
+
+// Categories and their subcategories by id_path
+function getCategoryIds(fixtures: MockFixtures, ids: string[], subcats: boolean): string[] {
+  if (!subcats) return ids;
+  return fixtures.categories
+    .filter(c => `${c.id_path ?? c.category_id}`.split("/").some(id => ids.includes(id)))
+    .map(c => `${c.category_id}`);
+}
+
+function searchProducts(fixtures: MockFixtures, query: URLSearchParams): Row[] {
+  const words = (query.get("q") ?? "").toLowerCase().split(/\s+/).filter(Boolean);
+  const code = query.get("pcode");
+  const cid = query.get("cid");
+  const categoryIds = cid ? getCategoryIds(fixtures, cid.split(","), query.get("subcats") === "Y") : null;
+  const status = query.get("status");
+  const variationGroupId = query.get("variation_group_id");
+  let products = fixtures.products.filter(p => (
+    words.every(word => contains(p.product, word))
+    && (!code || contains(p.product_code, code))
+    && (!categoryIds || (p.category_ids ?? []).some((id: unknown) => categoryIds.includes(`${id}`)))
+    && (!status || p.status === status)
+    && (!variationGroupId || `${p.variation_group_id ?? ""}` === variationGroupId)
+    && inRange(p.price, query.get("price_from"), query.get("price_to"))
+    && inRange(p.amount, query.get("amount_from"), query.get("amount_to"))
+  ));
+  const sortBy = query.get("sort_by");
+  if (sortBy) {
+    const field = PRODUCT_SORT_FIELDS[sortBy] ?? sortBy;
+    const direction = query.get("sort_order") === "desc" ? -1 : 1;
+    products = [...products].sort((a, b) => direction * compare(a[field], b[field]));
+  }
+  return products.map(p => withoutFields(p, ["feature_values", "full_description"]));
+}
+
+// Feature values like GET /products/:id/features, all variants of multiple checkboxes are returned with `selected`
+function getProductFeatures(fixtures: MockFixtures, product: Row): Row[] {
+  return Object.entries(product.feature_values ?? {}).flatMap(([featureId, value]) => {
+    const feature = fixtures.features.find(f => `${f.feature_id}` === featureId);
+    if (!feature) return [];
+    const base = { feature_id: feature.feature_id, description: feature.description, feature_type: feature.feature_type, value: "", value_int: null, variant_id: "0" };
+    if (feature.feature_type !== "M") return [{ ...base, ...(value as Row) }];
+    const selected: string[] = (value as Row).variant_ids ?? [];
+    const variants = (feature.variants ?? []).map((v: Row) => [v.variant_id, {
+      variant_id: v.variant_id,
+      variant: v.variant,
+      selected: selected.includes(`${v.variant_id}`) ? `${v.variant_id}` : null,
+    }]);
+    return [{ ...base, variants: Object.fromEntries(variants) }];
+  });
+}
+
+// product_features payload of PUT /products: variant id, { variant_id: variant_id } for multiple checkboxes or value
+function saveProductFeatures(fixtures: MockFixtures, product: Row, productFeatures: Row) {
+  const values: Row = { ...product.feature_values };
+  for (const [featureId, value] of Object.entries(productFeatures)) {
+    const feature = findById(fixtures.features, "feature_id", featureId, "Feature");
+    if (feature.feature_type === "M") values[featureId] = { variant_ids: Object.keys(value ?? {}) };
+    else if (["S", "N", "E"].includes(feature.feature_type)) values[featureId] = { variant_id: `${value}` };
+    else if (feature.feature_type === "O") values[featureId] = { value_int: `${value}` };
+    else values[featureId] = { value: `${value}` };
+  }
+  product.feature_values = values;
+}
+
+function saveProduct(fixtures: MockFixtures, product: Row, body: Row) {
+  const { product_features: productFeatures, ...fields } = body;
+  Object.assign(product, fields, { updated_timestamp: now() });
+  if (productFeatures) saveProductFeatures(fixtures, product, productFeatures);
+}
+
+function nextId(items: Row[], field: string): string {
+  return `${Math.max(0, ...items.map(i => Number(i[field]))) + 1}`;
+}
+
+function searchOrders(fixtures: MockFixtures, query: URLSearchParams): Row[] {
+  const statuses = query.getAll("status[]");
+  const byPeriod = query.get("period") === "C";
+  const email = query.get("email");
+  const phone = query.get("phone");
+  const name = query.get("cname");
+  const userId = query.get("user_id");
+  const productId = query.get("p_ids");
+  return fixtures.orders
+    .filter(o => (
+      (statuses.length === 0 || statuses.includes(o.status))
+      && (!byPeriod || inRange(o.timestamp, query.get("time_from"), query.get("time_to")))
+      && (!email || contains(o.email, email))
+      && (!phone || contains(o.phone, phone))
+      && (!name || contains(`${o.firstname} ${o.lastname}`, name))
+      && (!userId || `${o.user_id}` === userId)
+      && inRange(o.total, query.get("total_from"), query.get("total_to"))
+      && (!productId || Object.values(o.products ?? {}).some((p: any) => `${p.product_id}` === productId))
+    ))
+    .sort((a, b) => compare(b.timestamp, a.timestamp))
+    .map(o => withoutFields(o, ORDER_DETAIL_FIELDS));
+}
+
+function searchUsers(fixtures: MockFixtures, query: URLSearchParams): Row[] {
+  const email = query.get("email");
+  const phone = query.get("phone");
+  const name = query.get("name");
+  const userType = query.get("user_type");
+  return fixtures.users.filter(u => (
+    (!email || contains(u.email, email))
+    && (!phone || contains(u.phone, phone))
+    && (!name || contains(`${u.firstname} ${u.lastname}`, name))
+    && (!userType || u.user_type === userType)
+  ));
+}
+
+/**
+ * Handle API request with the fixtures, fixtures are changed by PUT and POST requests.
+ * @throws MockHttpError for unknown entities and routes
+ */
+function route(fixtures: MockFixtures, method: string, pathname: string, query: URLSearchParams, body: Row): MockResponse {
+  const [resource, id, sub] = pathname.split("/").filter(Boolean);
+  const key = `${method} /${resource}${id ? "/:id" : ""}${sub ? `/${sub}` : ""}`;
+  const ok = (data: unknown): MockResponse => ({ status: 200, body: data });
+  switch (key) {
+    case "GET /products":
+      return list("products", searchProducts(fixtures, query), query);
+    case "GET /products/:id":
+      return ok(withoutFields(findById(fixtures.products, "product_id", id, "Product"), ["feature_values"]));
+    case "GET /products/:id/features":
+      return list("features", getProductFeatures(fixtures, findById(fixtures.products, "product_id", id, "Product")), query);
+    case "PUT /products/:id":
+      saveProduct(fixtures, findById(fixtures.products, "product_id", id, "Product"), body);
+      return ok({ product_id: id });
+    case "POST /products": {
+      if (!body.product) throw new MockHttpError(400, "Product name is required");
+      const product: Row = { product_id: nextId(fixtures.products, "product_id"), status: "A", amount: "1", timestamp: now(), feature_values: {} };
+      saveProduct(fixtures, product, body);
+      fixtures.products.push(product);
+      return { status: 201, body: { product_id: product.product_id } };
+    }
+    case "GET /features":
+      return list("features", fixtures.features.map(f => withoutFields(f, ["variants"])), query);
+    case "GET /features/:id": {
+      const feature = findById(fixtures.features, "feature_id", id, "Feature");
+      return ok({ ...feature, variants: Object.fromEntries((feature.variants ?? []).map((v: Row) => [v.variant_id, v])) });
+    }
+    case "GET /categories":
+      return list("categories", fixtures.categories, query);
+    case "GET /categories/:id":
+      return ok(findById(fixtures.categories, "category_id", id, "Category"));
+    case "GET /orders":
+      return list("orders", searchOrders(fixtures, query), query);
+    case "GET /orders/:id":
+      return ok(findById(fixtures.orders, "order_id", id, "Order"));
+    case "PUT /orders/:id": {
+      const order = findById(fixtures.orders, "order_id", id, "Order");
+      const { notify_user, notify_department, notify_vendor, ...fields } = body;
+      Object.assign(order, fields, { updated_at: now() });
+      return ok({ order_id: id });
+    }
+    case "GET /statuses": {
+      const type = query.get("type");
+      return list("statuses", fixtures.statuses.filter(s => !type || s.type === type), query);
+    }
+    case "GET /users":
+      return list("users", searchUsers(fixtures, query), query);
+    case "GET /users/:id":
+      return ok(findById(fixtures.users, "user_id", id, "User"));
+    case "GET /shipments": {
+      const orderId = query.get("order_id");
+      return list("shipments", fixtures.shipments.filter(s => !orderId || `${s.order_id}` === orderId), query);
+    }
+    case "POST /shipments": {
+      findById(fixtures.orders, "order_id", `${body.order_id}`, "Order");
+      const shipment = { ...body, shipment_id: nextId(fixtures.shipments, "shipment_id"), timestamp: now() };
+      fixtures.shipments.push(shipment);
+      return { status: 201, body: { shipment_id: shipment.shipment_id } };
+    }
+    case "PUT /shipments/:id":
+      Object.assign(findById(fixtures.shipments, "shipment_id", id, "Shipment"), body);
+      return ok({ shipment_id: id });
+    case "GET /currencies":
+      return list("currencies", fixtures.currencies, query);
+    case "GET /combinations": {
+      const productId = query.get("product_id");
+      return ok(fixtures.combinations.filter(c => !productId || `${c.product_id}` === productId));
+    }
+    // Options are indexed by option_id
+    case "GET /options": {
+      const productId = query.get("product_id");
+      return ok(Object.fromEntries(fixtures.options.filter(o => !productId || `${o.product_id}` === productId).map(o => [o.option_id, o])));
+    }
+    default:
+      throw new MockHttpError(404, "Not Found");
+  }
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", chunk => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf-8")));
+    req.on("error", reject);
+  });
+}
+
+/**
+ * Start fake CS-Cart REST API v2.0 with Basic auth, pagination and injectable errors.
+ * Every request is recorded in `requests`, e.g. to check which requests were served from the cache.
+ */
+async function startMockServer(options: MockServerOptions = {}) {
+  const initialFixtures = options.fixtures ?? loadFixtures();
+  const email = options.email ?? DEFAULT_EMAIL;
+  const apiKey = options.apiKey ?? DEFAULT_API_KEY;
+  const token = `Basic ${Buffer.from(`${email}:${apiKey}`).toString("base64")}`;
+  let fixtures: MockFixtures = structuredClone(initialFixtures);
+  const requests: MockRequest[] = [];
+  let failures: MockFailure[] = [];
+
+  function takeFailure(method: string, pathname: string): MockFailure | undefined {
+    const failure = failures.find(f => (!f.method || f.method === method) && (!f.path || pathname.startsWith(f.path)));
+    if (!failure) return;
+    failure.times = (failure.times ?? 1) - 1;
+    if (failure.times <= 0) failures = failures.filter(f => f !== failure);
+    return failure;
+  }
+
+  async function handle(req: http.IncomingMessage): Promise<MockResponse> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const method = req.method ?? "GET";
+    const text = await readBody(req);
+    const body = text ? JSON.parse(text) : {};
+    if (!url.pathname.startsWith(`${API_PREFIX}/`)) return { status: 404, body: { message: "Not Found" } };
+    const pathname = url.pathname.slice(API_PREFIX.length);
+    requests.push({ method, path: pathname, query: url.searchParams, body: text ? body : undefined });
+
+    if (req.headers.authorization !== token) return { status: 401, body: { message: "Unauthorized" } };
+    const failure = takeFailure(method, pathname);
+    if (failure) {
+      return {
+        status: failure.status,
+        body: { message: failure.message ?? http.STATUS_CODES[failure.status] ?? "Error" },
+        headers: failure.retryAfter !== undefined ? { "Retry-After": `${failure.retryAfter}` } : undefined,
+      };
+    }
+    try {
+      return route(fixtures, method, pathname, url.searchParams, body);
+    } catch (error) {
+      if (error instanceof MockHttpError) return { status: error.status, body: { message: error.message } };
+      throw error;
+    }
+  }
+
+  const server = http.createServer((req, res) => {
+    handle(req)
+      .catch((error): MockResponse => ({ status: 500, body: { message: (error as Error).message } }))
+      .then(({ status, body, headers }) => {
+        res.writeHead(status, { "Content-Type": "application/json", ...headers });
+        res.end(JSON.stringify(body));
+      });
+  });
+  await new Promise<void>(resolve => server.listen(options.port ?? 0, options.host ?? "127.0.0.1", resolve));
+  const { address, port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://${address}:${port}`,
+    email,
+    apiKey,
+    requests,
+    /** Current fixtures, changed by write requests */
+    get fixtures() {
+      return fixtures;
+    },
+    /**
+     * Fail next matching requests with the status.
+     */
+    fail(failure: MockFailure) {
+      failures.push({ ...failure });
+    },
+    /**
+     * Count recorded requests by method and path, `*` in the path matches one path segment.
+     */
+    count(method: string, pathPattern: string): number {
+      const pattern = new RegExp(`^${pathPattern.replace(/\*/g, "[^/]+")}$`);
+      return requests.filter(r => r.method === method && pattern.test(r.path)).length;
+    },
+    /**
+     * Restore fixtures, clear recorded requests and pending failures.
+     */
+    reset() {
+      fixtures = structuredClone(initialFixtures);
+      requests.length = 0;
+      failures = [];
+    },
+    close(): Promise<void> {
+      return new Promise((resolve, reject) => server.close(error => (error ? reject(error) : resolve())));
+    },
+  };
+}
+
+type MockServer = Awaited<ReturnType<typeof startMockServer>>;
+
+// Started directly: serve fixtures for manual runs, e.g. with the MCP inspector
+if (process.argv[1] && path.resolve(process.argv[1]) === __filename) {
+  const port = Number(process.env["CSCART_MOCK_PORT"] ?? 8090);
+  startMockServer({ port }).then(mock => {
+    console.error(`CS-Cart mock API listening on ${mock.url}/api/2.0`);
+    console.error(`CSCART_SHOP_URL=${mock.url} CSCART_EMAIL=${mock.email} CSCART_API_KEY=${mock.apiKey}`);
+  });
+}
+
+export type { MockFixtures, MockFailure, MockRequest, MockServer, MockServerOptions };
+
+export {
+  loadFixtures,
+  startMockServer,
+};
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { ProductCombinationSchema, ProductOptionSchema, ProductSchema } from './schemas.js';
+import { getCombinationInfo, getModifierAmount, getProductOptionsInfo, getVariationGroupInfo } from './options.js';
+
+const sizeOption = ProductOptionSchema.parse({
+  option_id: '1', option_name: 'Size', option_type: 'S', required: 'Y', inventory: 'Y',
+  variants: {
+    11: { variant_id: '11', variant_name: 'L', modifier: '0', modifier_type: 'A', position: '10' },
+    10: { variant_id: '10', variant_name: 'S', modifier: '-5', modifier_type: 'A', position: '0' },
+  },
+});
+const printOption = ProductOptionSchema.parse({
+  option_id: '2', option_name: 'Print', option_type: 'C',
+  variants: [{ variant_id: '20', variant_name: 'Yes', modifier: '10', modifier_type: 'P' }],
+});
+
+describe('Product options', () => {
+  it('should calculate absolute and percent modifiers', () => {
+    expect(getModifierAmount({ modifier: 5, modifier_type: 'A' }, 200)).toBe(5);
+    expect(getModifierAmount({ modifier: 10, modifier_type: 'P' }, 200)).toBe(20);
+  });
+
+  it('should return options with sorted variants and prices', () => {
+    const product = ProductSchema.parse({ product_id: 1, price: '100' });
+    const info = getProductOptionsInfo(product, [sizeOption, printOption], []);
+    expect(info.options[0]).toEqual({
+      option_id: 1, option_name: 'Size', option_type: 'S', required: true, inventory: true,
+      variants: [
+        { variant_id: 10, variant_name: 'S', modifier: -5, modifier_type: 'A', price: 95 },
+        { variant_id: 11, variant_name: 'L', modifier: 0, modifier_type: 'A', price: 100 },
+      ],
+    });
+    expect(info.options[1]).toMatchObject({ required: false, inventory: false, variants: [{ variant_name: 'Yes', price: 110 }] });
+    expect(info.variation_group).toBeNull();
+  });
+
+  it('should name combination options and keep unknown ids', () => {
+    const combination = ProductCombinationSchema.parse({ product_id: 1, combination_hash: 42, combination: { 1: '10', 2: '20', 9: '90' }, amount: '3', product_code: 'TS-S' });
+    expect(getCombinationInfo(combination, [sizeOption, printOption], 100)).toEqual({
+      combination_hash: '42', product_code: 'TS-S', amount: 3, options: { Size: 'S', Print: 'Yes', 9: '90' }, price: 105,
+    });
+  });
+
+  it('should list variation group products with their distinguishing features', () => {
+    const variant = (product_id: number, parent_product_id: number, color: string) => ProductSchema.parse({
+      product_id, parent_product_id, product_code: `TS-${color}`, price: 20, amount: 1, status: 'A', variation_group_id: 5, variation_group_code: 'TS',
+      variation_features: { 3: { feature_id: 3, description: 'Color', variant_id: 1, variant: color, purpose: 'group_variation_catalog_item' } },
+    });
+    const main = variant(1, 0, 'Black');
+    const group = getVariationGroupInfo(variant(2, 1, 'Red'), [main, variant(2, 1, 'Red')]);
+    expect(group).toMatchObject({ id: 5, code: 'TS', features: [{ feature_id: 3, feature: 'Color', purpose: 'group_variation_catalog_item' }] });
+    expect(group?.products.map(p => [p.product_id, p.features, p.is_main, p.is_current])).toEqual([
+      [1, { Color: 'Black' }, true, false],
+      [2, { Color: 'Red' }, false, true],
+    ]);
+    expect(getVariationGroupInfo(ProductSchema.parse({ product_id: 3 }), [main])).toBeNull();
+  });
+});
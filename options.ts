@@ -0,0 +1,168 @@
+import type { Product, ProductCombination, ProductOption, ProductOptionVariant } from "./schemas.js";
+
+interface OptionVariantInfo {
+  variant_id: number;
+  variant_name: string;
+  modifier: number;
+  /** A - absolute, P - percent of the product price */
+  modifier_type: string;
+  /** Product price with the modifier */
+  price: number;
+}
+
+interface OptionInfo {
+  option_id: number;
+  option_name: string;
+  option_type: string;
+  required: boolean;
+  /** Stock is tracked by combinations of the option */
+  inventory: boolean;
+  variants: OptionVariantInfo[];
+}
+
+interface CombinationInfo {
+  combination_hash: string;
+  product_code: string;
+  amount: number;
+  /** Variant name by option name */
+  options: Record<string, string>;
+  /** Product price with modifiers of the selected variants */
+  price: number;
+}
+
+interface VariationProductInfo {
+  product_id: number;
+  product_code: string;
+  product: string;
+  price: number;
+  amount: number;
+  status: string;
+  is_main: boolean;
+  is_current: boolean;
+  /** Variant by feature name of the features that distinguish the group products */
+  features: Record<string, string>;
+}
+
+interface VariationGroupInfo {
+  id: number;
+  code: string;
+  features: { feature_id: number; feature: string; purpose: string }[];
+  products: VariationProductInfo[];
+}
+
+interface ProductOptionsInfo {
+  options: OptionInfo[];
+  combinations: CombinationInfo[];
+  /** Null for products outside of variation groups */
+  variation_group: VariationGroupInfo | null;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Price modifier of the option variant, percent modifiers are calculated from the base price.
+ */
+function getModifierAmount(variant: Pick<ProductOptionVariant, "modifier" | "modifier_type">, basePrice: number): number {
+  return variant.modifier_type === "P" ? basePrice * variant.modifier / 100 : variant.modifier;
+}
+
+function getOptionInfo(option: ProductOption, basePrice: number): OptionInfo {
+  return {
+    option_id: option.option_id,
+    option_name: option.option_name,
+    option_type: option.option_type,
+    required: option.required === "Y",
+    inventory: option.inventory === "Y",
+    variants: Object.values(option.variants)
+      .sort((a, b) => (a.position ?? 0) - (b.position ?? 0))
+      .map(variant => ({
+        variant_id: variant.variant_id,
+        variant_name: variant.variant_name,
+        modifier: variant.modifier,
+        modifier_type: variant.modifier_type,
+        price: round(basePrice + getModifierAmount(variant, basePrice)),
+      })),
+  };
+}
+
+/**
+ * Combination with option and variant names and the price with modifiers.
+ * Unknown options and variants are kept by their IDs.
+ */
+function getCombinationInfo(combination: ProductCombination, options: ProductOption[], basePrice: number): CombinationInfo {
+  const byId = new Map(options.map(option => [option.option_id, option]));
+  let price = basePrice;
+  const names = Object.entries(combination.combination).map(([optionId, variantId]) => {
+    const option = byId.get(Number(optionId));
+    const variant = option?.variants[`${variantId}`];
+    if (variant) price += getModifierAmount(variant, basePrice);
+    return [option?.option_name || optionId, variant?.variant_name || `${variantId}`];
+  });
+  return {
+    combination_hash: combination.combination_hash,
+    product_code: combination.product_code,
+    amount: combination.amount,
+    options: Object.fromEntries(names),
+    price: round(price),
+  };
+}
+
+/**
+ * Variation group of the product: group features and sibling products with their feature variants.
+ * @param products Products of the group, including the product itself
+ */
+function getVariationGroupInfo(product: Product, products: Product[]): VariationGroupInfo | null {
+  if (!product.variation_group_id) return null;
+  const features = new Map<number, { feature_id: number; feature: string; purpose: string }>();
+  for (const item of [product, ...products]) {
+    for (const feature of Object.values(item.variation_features ?? {})) {
+      if (!features.has(feature.feature_id)) {
+        features.set(feature.feature_id, { feature_id: feature.feature_id, feature: feature.description, purpose: feature.purpose });
+      }
+    }
+  }
+  const groupProducts = products.some(p => p.product_id === product.product_id) ? products : [product, ...products];
+  return {
+    id: product.variation_group_id,
+    code: product.variation_group_code ?? "",
+    features: [...features.values()],
+    products: groupProducts.map(item => ({
+      product_id: item.product_id,
+      product_code: item.product_code,
+      product: item.product,
+      price: item.price,
+      amount: item.amount ?? 0,
+      status: item.status ?? "",
+      is_main: !item.parent_product_id,
+      is_current: item.product_id === product.product_id,
+      features: Object.fromEntries(Object.values(item.variation_features ?? {}).map(f => [f.description || `${f.feature_id}`, f.variant])),
+    })),
+  };
+}
+
+/**
+ * Options with variant prices, combinations with stock and the variation group of the product.
+ */
+function getProductOptionsInfo(
+  product: Product,
+  options: ProductOption[],
+  combinations: ProductCombination[],
+  variationProducts: Product[] = [],
+): ProductOptionsInfo {
+  return {
+    options: options.map(option => getOptionInfo(option, product.price)),
+    combinations: combinations.map(combination => getCombinationInfo(combination, options, product.price)),
+    variation_group: getVariationGroupInfo(product, variationProducts),
+  };
+}
+
+export type { OptionVariantInfo, OptionInfo, CombinationInfo, VariationProductInfo, VariationGroupInfo, ProductOptionsInfo };
+
+export {
+  getModifierAmount,
+  getCombinationInfo,
+  getVariationGroupInfo,
+  getProductOptionsInfo,
+};
@@ -0,0 +1,37 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as api from './api.js';
+import { OrderSchema, ProductSchema } from './schemas.js';
+import { PROMPTS, getPrompt } from './prompts.js';
+
+describe('MCP prompts', () => {
+  it('should declare prompts with arguments', () => {
+    expect(PROMPTS.map(p => p.name)).toEqual(['order_summary', 'product_content_audit', 'customer_reply', 'low_stock_report']);
+  });
+
+  it('should embed order resource into order summary', async () => {
+    const order = OrderSchema.parse({ order_id: 7, status: 'O', total: 10 });
+    const orderSpy = vi.spyOn(api, 'getOrder').mockResolvedValue(order);
+    const messageSpy = vi.spyOn(api, 'getOrderMessage').mockResolvedValue({ message: 'Order #7', format: 'markdown' });
+    const result = await getPrompt('customer_reply', { orderId: '7', message: 'Where is my order?' });
+    expect(orderSpy).toHaveBeenCalledWith(7);
+    expect(result.messages[0].content).toMatchObject({ type: 'text' });
+    expect((result.messages[0].content as { text: string }).text).toContain('Where is my order?');
+    const resource = result.messages[1].content as { type: string; resource: { uri: string; text: string } };
+    expect(resource.resource.uri).toBe('cscart://order/7');
+    expect(JSON.parse(resource.resource.text)).toMatchObject({ message: 'Order #7', order: { order_id: 7 } });
+    [orderSpy, messageSpy].forEach(spy => spy.mockRestore());
+  });
+
+  it('should list low-stock products', async () => {
+    const spy = vi.spyOn(api, 'searchProducts').mockResolvedValue({ products: [ProductSchema.parse({ product_id: 1, product: 'Cup', amount: 0 })], total: 1 });
+    const result = await getPrompt('low_stock_report', { threshold: '3' });
+    expect(spy).toHaveBeenCalledWith(expect.objectContaining({ amountTo: 3, status: 'A', sortBy: 'amount' }));
+    expect((result.messages[1].content as { text: string }).text).toContain('"product": "Cup"');
+    spy.mockRestore();
+  });
+
+  it('should reject unknown prompts and invalid arguments', async () => {
+    await expect(getPrompt('unknown')).rejects.toThrow('Unknown prompt');
+    await expect(getPrompt('order_summary', {})).rejects.toThrow();
+  });
+});
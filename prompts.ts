@@ -0,0 +1,150 @@
+import type { GetPromptResult, Prompt, PromptMessage } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import * as api from "./api.js";
+import { readResource } from "./resources.js";
+
+// Prompt arguments come as strings
+const IdArgumentSchema = z.coerce.number().int().positive();
+
+const OrderSummaryArgsSchema = z.object({
+  orderId: IdArgumentSchema,
+  audience: z.enum(["courier", "manager", "customer"]).default("courier"),
+});
+const ProductAuditArgsSchema = z.object({
+  productId: IdArgumentSchema,
+});
+const CustomerReplyArgsSchema = z.object({
+  orderId: IdArgumentSchema,
+  message: z.string().optional(),
+  language: z.string().optional(),
+});
+const LowStockArgsSchema = z.object({
+  threshold: z.coerce.number().int().nonnegative().default(5),
+  categoryId: IdArgumentSchema.optional(),
+});
+
+const LOW_STOCK_LIMIT = 100;
+
+const PROMPTS: Prompt[] = [
+  {
+    name: "order_summary",
+    description: "Summarize the order for a courier, a manager or the customer",
+    arguments: [
+      { name: "orderId", description: "Order ID", required: true },
+      { name: "audience", description: "courier (default), manager or customer" },
+    ],
+  },
+  {
+    name: "product_content_audit",
+    description: "Audit product content: missing feature values, descriptions, price, categories",
+    arguments: [
+      { name: "productId", description: "Product ID", required: true },
+    ],
+  },
+  {
+    name: "customer_reply",
+    description: "Draft a reply to the customer about the order",
+    arguments: [
+      { name: "orderId", description: "Order ID", required: true },
+      { name: "message", description: "Customer message to reply to" },
+      { name: "language", description: "Reply language, default is the language of the customer message" },
+    ],
+  },
+  {
+    name: "low_stock_report",
+    description: "Report active products with low stock and suggest restock priorities",
+    arguments: [
+      { name: "threshold", description: "Max stock amount, default 5" },
+      { name: "categoryId", description: "Only products of this category and subcategories" },
+    ],
+  },
+];
+
+const AUDIENCE_INSTRUCTIONS: Record<z.infer<typeof OrderSummaryArgsSchema>["audience"], string> = {
+  courier: "Write a short summary for the courier: customer name, phone, delivery address, items with quantities, amount to collect and notes that matter for the delivery. Skip prices of single items and internal links.",
+  manager: "Write a summary for the shop manager: status, total, payment method, customer contacts, items, notes, and anything that needs attention (unpaid, unusual amounts, missing contacts).",
+  customer: "Write a friendly order confirmation for the customer: order number, items, total and next steps. Do not include internal links and staff notes.",
+};
+
+function userText(text: string): PromptMessage {
+  return { role: "user", content: { type: "text", text } };
+}
+
+// Embed resource data, the same JSON as resources/read returns
+async function userResource(uri: string): Promise<PromptMessage> {
+  const { contents } = await readResource(uri);
+  return { role: "user", content: { type: "resource", resource: contents[0] } };
+}
+
+async function getPrompt(name: string, args: Record<string, string> = {}): Promise<GetPromptResult> {
+  if (name === "order_summary") {
+    const { orderId, audience } = OrderSummaryArgsSchema.parse(args);
+    return {
+      description: `Order #${orderId} summary for ${audience}`,
+      messages: [
+        userText(`${AUDIENCE_INSTRUCTIONS[audience]}\n\nOrder #${orderId} data is attached.`),
+        await userResource(`cscart://order/${orderId}`),
+      ],
+    };
+  }
+  if (name === "product_content_audit") {
+    const { productId } = ProductAuditArgsSchema.parse(args);
+    return {
+      description: `Content audit of product #${productId}`,
+      messages: [
+        userText([
+          `Audit the content of product #${productId}, the product data is attached.`,
+          "Check and list:",
+          "- features with empty or missing values, and features that look inconsistent with the name or description",
+          "- empty or too short short_description and full_description",
+          "- zero or suspicious price, list_price lower than price",
+          "- missing categories and images",
+          "Finish with a prioritized list of fixes. Use cscart_get_features to see the available feature variants.",
+        ].join("\n")),
+        await userResource(`cscart://product/${productId}`),
+      ],
+    };
+  }
+  if (name === "customer_reply") {
+    const { orderId, message, language } = CustomerReplyArgsSchema.parse(args);
+    const lines = [
+      `Draft a reply to the customer about order #${orderId}, the order data is attached.`,
+      "Be polite and specific: use the order status, items and totals from the data, do not promise what is not in the data.",
+      language ? `Write in ${language}.` : "Write in the language of the customer message.",
+    ];
+    if (message) lines.push("", "Customer message:", message);
+    return {
+      description: `Reply to the customer about order #${orderId}`,
+      messages: [userText(lines.join("\n")), await userResource(`cscart://order/${orderId}`)],
+    };
+  }
+  if (name === "low_stock_report") {
+    const { threshold, categoryId } = LowStockArgsSchema.parse(args);
+    const { products, total } = await api.searchProducts({
+      amountTo: threshold,
+      status: "A",
+      categoryId,
+      sortBy: "amount",
+      sortOrder: "asc",
+      limit: LOW_STOCK_LIMIT,
+    });
+    const items = products.map(p => ({ product_id: p.product_id, product_code: p.product_code, product: p.product, amount: p.amount, price: p.price }));
+    return {
+      description: `Active products with stock ${threshold} or less`,
+      messages: [
+        userText([
+          `Make a low-stock report: ${total} active products have stock ${threshold} or less${categoryId ? ` in category #${categoryId}` : ""}.`,
+          total > items.length ? `Only ${items.length} products with the lowest stock are attached.` : "",
+          "Group products by urgency (out of stock, critical, low), show a table with code, name, stock and price, and suggest restock priorities.",
+        ].filter(Boolean).join("\n")),
+        userText(JSON.stringify({ products: items, total }, null, 2)),
+      ],
+    };
+  }
+  throw new Error(`Unknown prompt: ${name}`);
+}
+
+export {
+  PROMPTS,
+  getPrompt,
+};
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { OrderSchema } from './schemas.js';
+import { buildSalesReport, formatSalesReport, getPeriodKey } from './reports.js';
+
+const time = (date: string) => new Date(`${date}T12:00:00`).getTime() / 1000;
+
+const orders = [
+  OrderSchema.parse({
+    order_id: 1, status: 'C', total: 100, timestamp: time('2024-05-06'),
+    payment_method: { payment: 'Card' },
+    products: { a: { product_id: 10, product: 'Cup', amount: 2, subtotal: 60 }, b: { product_id: 11, product: 'Tea', amount: 1, subtotal: 40 } },
+  }),
+  OrderSchema.parse({
+    order_id: 2, status: 'P', total: 50, timestamp: time('2024-05-12'),
+    payment_method: { payment: 'Cash' },
+    products: { a: { product_id: 11, product: 'Tea', amount: 3, subtotal: 50 } },
+  }),
+  OrderSchema.parse({
+    order_id: 3, status: 'I', total: 500, timestamp: time('2024-05-13'),
+    products: { a: { product_id: 12, product: 'Pot', amount: 1, subtotal: 500 } },
+  }),
+];
+
+describe('Sales report', () => {
+  it('should group period keys by day, week and month', () => {
+    expect(getPeriodKey(time('2024-05-12'), 'day')).toBe('2024-05-12');
+    expect(getPeriodKey(time('2024-05-12'), 'week')).toBe('2024-05-06');
+    expect(getPeriodKey(time('2024-05-13'), 'week')).toBe('2024-05-13');
+    expect(getPeriodKey(time('2024-05-13'), 'month')).toBe('2024-05');
+  });
+
+  it('should aggregate revenue without excluded statuses', () => {
+    const report = buildSalesReport(orders, { from: '2024-05-01', to: '2024-05-31', period: 'week', excludeStatuses: ['I'] });
+    expect(report.revenue).toBe(150);
+    expect(report.order_count).toBe(2);
+    expect(report.average_order_value).toBe(75);
+    expect(report.by_status.map(s => s.key)).toEqual(['I', 'C', 'P']);
+    expect(report.by_payment_method).toEqual([{ key: 'Card', orders: 1, revenue: 100 }, { key: 'Cash', orders: 1, revenue: 50 }]);
+    expect(report.by_period).toEqual([{ key: '2024-05-06', orders: 2, revenue: 150 }]);
+    expect(report.top_products_by_quantity[0]).toMatchObject({ product_id: 11, quantity: 4, subtotal: 90, orders: 2 });
+    expect(report.top_products_by_subtotal.map(p => p.product_id)).toEqual([11, 10]);
+  });
+
+  it('should render Markdown tables', () => {
+    const text = formatSalesReport(buildSalesReport([], { from: '2024-05-01', to: '2024-05-31' }));
+    expect(text).toContain('| Revenue | Orders | Average order value |');
+    expect(text).toContain('### By day');
+    expect(text).toContain('_No data_');
+  });
+});
@@ -0,0 +1,164 @@
+import type { Order } from "./schemas.js";
+
+type ReportPeriod = "day" | "week" | "month";
+
+interface SalesBucket {
+  key: string;
+  orders: number;
+  revenue: number;
+}
+
+interface SalesProduct {
+  product_id: number;
+  product: string;
+  product_code: string;
+  quantity: number;
+  subtotal: number;
+  orders: number;
+}
+
+interface SalesReport {
+  from: string;
+  to: string;
+  period: ReportPeriod;
+  revenue: number;
+  order_count: number;
+  average_order_value: number;
+  excluded_statuses: string[];
+  by_status: SalesBucket[];
+  by_payment_method: SalesBucket[];
+  by_period: SalesBucket[];
+  top_products_by_quantity: SalesProduct[];
+  top_products_by_subtotal: SalesProduct[];
+}
+
+interface SalesReportOptions {
+  from: string;
+  to: string;
+  period?: ReportPeriod;
+  excludeStatuses?: string[];
+  topProducts?: number;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function pad(value: number): string {
+  return `${value}`.padStart(2, "0");
+}
+
+function formatDate(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Period key of the order date: YYYY-MM-DD for day, Monday date for week, YYYY-MM for month.
+ */
+function getPeriodKey(timestamp: number, period: ReportPeriod): string {
+  const date = new Date(timestamp * 1000);
+  if (period === "month") return `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+  if (period === "week") {
+    const monday = new Date(date);
+    monday.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+    return formatDate(monday);
+  }
+  return formatDate(date);
+}
+
+function addToBucket(buckets: Map<string, SalesBucket>, key: string, revenue: number) {
+  const bucket = buckets.get(key) ?? { key, orders: 0, revenue: 0 };
+  bucket.orders++;
+  bucket.revenue = round(bucket.revenue + revenue);
+  buckets.set(key, bucket);
+}
+
+/**
+ * Aggregate orders into sales report. Orders with excluded statuses are counted only in by_status.
+ * @param orders Full orders with products and payment method
+ */
+function buildSalesReport(orders: Order[], options: SalesReportOptions): SalesReport {
+  const period = options.period ?? "day";
+  const excluded = (options.excludeStatuses ?? []).map(s => s.toUpperCase());
+  const byStatus = new Map<string, SalesBucket>();
+  const byPayment = new Map<string, SalesBucket>();
+  const byPeriod = new Map<string, SalesBucket>();
+  const products = new Map<number, SalesProduct>();
+  let revenue = 0;
+  let orderCount = 0;
+
+  for (const order of orders) {
+    addToBucket(byStatus, order.status, order.total);
+    if (excluded.includes(order.status)) continue;
+    orderCount++;
+    revenue += order.total;
+    addToBucket(byPayment, order.payment_method?.payment || "Unknown", order.total);
+    if (order.timestamp) addToBucket(byPeriod, getPeriodKey(order.timestamp, period), order.total);
+    for (const p of Object.values(order.products ?? {})) {
+      const item = products.get(p.product_id) ?? { product_id: p.product_id, product: p.product, product_code: p.product_code, quantity: 0, subtotal: 0, orders: 0 };
+      item.quantity += p.amount;
+      item.subtotal = round(item.subtotal + p.subtotal);
+      item.orders++;
+      products.set(p.product_id, item);
+    }
+  }
+
+  const byRevenue = (a: SalesBucket, b: SalesBucket) => b.revenue - a.revenue;
+  const top = options.topProducts ?? 10;
+  return {
+    from: options.from,
+    to: options.to,
+    period,
+    revenue: round(revenue),
+    order_count: orderCount,
+    average_order_value: orderCount ? round(revenue / orderCount) : 0,
+    excluded_statuses: excluded,
+    by_status: [...byStatus.values()].sort(byRevenue),
+    by_payment_method: [...byPayment.values()].sort(byRevenue),
+    by_period: [...byPeriod.values()].sort((a, b) => a.key.localeCompare(b.key)),
+    top_products_by_quantity: [...products.values()].sort((a, b) => b.quantity - a.quantity || b.subtotal - a.subtotal).slice(0, top),
+    top_products_by_subtotal: [...products.values()].sort((a, b) => b.subtotal - a.subtotal || b.quantity - a.quantity).slice(0, top),
+  };
+}
+
+function formatTable(headers: string[], rows: (string | number)[][]): string {
+  if (rows.length === 0) return "_No data_";
+  return [
+    `| ${headers.join(" | ")} |`,
+    `| ${headers.map(() => "---").join(" | ")} |`,
+    ...rows.map(row => `| ${row.join(" | ")} |`),
+  ].join("\n");
+}
+
+/**
+ * Render sales report as Markdown tables.
+ */
+function formatSalesReport(report: SalesReport): string {
+  const bucketRows = (buckets: SalesBucket[]) => buckets.map(b => [b.key, b.orders, b.revenue]);
+  const productRows = (items: SalesProduct[]) => items.map(p => [p.product_id, p.product_code, p.product, p.quantity, p.subtotal]);
+  const productHeaders = ["ID", "Code", "Product", "Quantity", "Subtotal"];
+  return [
+    `## Sales report ${report.from} – ${report.to}`,
+    formatTable(["Revenue", "Orders", "Average order value"], [[report.revenue, report.order_count, report.average_order_value]]),
+    report.excluded_statuses.length ? `Excluded statuses: ${report.excluded_statuses.join(", ")}` : "",
+    "### By status",
+    formatTable(["Status", "Orders", "Revenue"], bucketRows(report.by_status)),
+    "### By payment method",
+    formatTable(["Payment method", "Orders", "Revenue"], bucketRows(report.by_payment_method)),
+    `### By ${report.period}`,
+    formatTable([report.period[0].toUpperCase() + report.period.slice(1), "Orders", "Revenue"], bucketRows(report.by_period)),
+    "### Top products by quantity",
+    formatTable(productHeaders, productRows(report.top_products_by_quantity)),
+    "### Top products by subtotal",
+    formatTable(productHeaders, productRows(report.top_products_by_subtotal)),
+  ].filter(Boolean).join("\n\n");
+}
+
+export type { ReportPeriod, SalesBucket, SalesProduct, SalesReport, SalesReportOptions };
+
+export {
+  getPeriodKey,
+  buildSalesReport,
+  formatSalesReport,
+  formatTable,
+};
@@ -0,0 +1,41 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as api from './api.js';
+import { ProductSchema } from './schemas.js';
+import { getResourceChanges, listResources, parseResourceUri } from './resources.js';
+
+const product = (id: number, price = 10) => ProductSchema.parse({ product_id: id, product: `Product ${id}`, product_code: `P${id}`, price });
+
+describe('MCP resources', () => {
+  it('should parse resource URIs', () => {
+    expect(parseResourceUri('cscart://product/12')).toEqual({ type: 'product', id: 12 });
+    expect(parseResourceUri('cscart://order/5')).toEqual({ type: 'order', id: 5 });
+    expect(parseResourceUri('cscart://features')).toEqual({ type: 'features' });
+    expect(() => parseResourceUri('cscart://user/1')).toThrow('Unknown resource');
+  });
+
+  it('should list static resources and cached products page by page', async () => {
+    const products = Array.from({ length: 501 }, (_, i) => product(i + 1));
+    const spy = vi.spyOn(api, 'getProducts').mockResolvedValue(products);
+    const first = await listResources();
+    expect(first.resources[0].uri).toBe('cscart://features');
+    expect(first.resources[2]).toMatchObject({ uri: 'cscart://product/1', name: 'Product 1', description: 'P1, price 10' });
+    expect(first.nextCursor).toBe('500');
+    const second = await listResources(first.nextCursor);
+    expect(second.resources.map(r => r.uri)).toEqual(['cscart://product/501']);
+    expect(second.nextCursor).toBeUndefined();
+    spy.mockRestore();
+  });
+
+  it('should report changed products and list changes', () => {
+    const changes = getResourceChanges({
+      resource: 'products',
+      key: 'all',
+      previous: [product(1), product(2), product(3)],
+      value: [product(1), product(2, 20), product(4)],
+    });
+    expect(changes.uris).toEqual(['cscart://product/2', 'cscart://product/4', 'cscart://product/3']);
+    expect(changes.listChanged).toBe(true);
+    expect(getResourceChanges({ resource: 'orders', key: '7', value: {} }).uris).toEqual(['cscart://order/7']);
+    expect(getResourceChanges({ resource: 'products', key: 'all', previous: [product(1)] }).uris).toEqual([]);
+  });
+});
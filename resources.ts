@@ -0,0 +1,122 @@
+import type { Resource, ResourceTemplate } from "@modelcontextprotocol/sdk/types.js";
+import * as api from "./api.js";
+import type { CacheChange } from "./cache.js";
+import type { Product } from "./schemas.js";
+
+const RESOURCES_PAGE_SIZE = 500;
+const MIME_TYPE = "application/json";
+
+const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: "cscart://product/{id}",
+    name: "CS-Cart product",
+    description: "Product with features and categories",
+    mimeType: MIME_TYPE,
+  },
+  {
+    uriTemplate: "cscart://order/{id}",
+    name: "CS-Cart order",
+    description: "Order summary message and order data",
+    mimeType: MIME_TYPE,
+  },
+];
+
+const STATIC_RESOURCES: Resource[] = [
+  {
+    uri: "cscart://features",
+    name: "CS-Cart features",
+    description: "All product features with variants",
+    mimeType: MIME_TYPE,
+  },
+  {
+    uri: "cscart://categories",
+    name: "CS-Cart categories",
+    description: "Categories tree",
+    mimeType: MIME_TYPE,
+  },
+];
+
+type ParsedResourceUri =
+  | { type: "product" | "order"; id: number }
+  | { type: "features" | "categories" };
+
+function parseResourceUri(uri: string): ParsedResourceUri {
+  const match = uri.match(/^cscart:\/\/(product|order)\/(\d+)$/);
+  if (match) return { type: match[1] as "product" | "order", id: Number(match[2]) };
+  if (uri === "cscart://features") return { type: "features" };
+  if (uri === "cscart://categories") return { type: "categories" };
+  throw new Error(`Unknown resource: ${uri}`);
+}
+
+function getProductResource(product: Product): Resource {
+  return {
+    uri: `cscart://product/${product.product_id}`,
+    name: product.product || `Product ${product.product_id}`,
+    description: [product.product_code, `price ${product.price}`].filter(Boolean).join(", "),
+    mimeType: MIME_TYPE,
+  };
+}
+
+/**
+ * List static resources and products from the products cache, page by page.
+ * @param cursor Offset of the products page, returned as nextCursor
+ */
+async function listResources(cursor?: string): Promise<{ resources: Resource[]; nextCursor?: string }> {
+  const offset = cursor ? Number(cursor) : 0;
+  if (!Number.isInteger(offset) || offset < 0) throw new Error(`Invalid cursor: ${cursor}`);
+  const products = await api.getProducts();
+  const page = products.slice(offset, offset + RESOURCES_PAGE_SIZE).map(getProductResource);
+  const next = offset + RESOURCES_PAGE_SIZE;
+  return {
+    resources: offset === 0 ? [...STATIC_RESOURCES, ...page] : page,
+    ...(next < products.length ? { nextCursor: `${next}` } : {}),
+  };
+}
+
+async function readResource(uri: string): Promise<{ contents: { uri: string; mimeType: string; text: string }[] }> {
+  const parsed = parseResourceUri(uri);
+  let data: unknown;
+  if (parsed.type === "product") {
+    data = await api.getProduct(parsed.id);
+  } else if (parsed.type === "order") {
+    const order = await api.getOrder(parsed.id);
+    const { message, format } = await api.getOrderMessage(order);
+    data = { message, format, order };
+  } else if (parsed.type === "features") {
+    data = { features: await api.getFeatures() };
+  } else {
+    data = { categories: api.getCategoriesTree(await api.getCategories()) };
+  }
+  return { contents: [{ uri, mimeType: MIME_TYPE, text: JSON.stringify(data, null, 2) }] };
+}
+
+/**
+ * Resources affected by the cache change: updated resource URIs and whether the resources list is changed.
+ * Invalidated entries are not reported, subscribers are notified when the new data is loaded.
+ */
+function getResourceChanges(change: CacheChange): { uris: string[]; listChanged: boolean } {
+  if (change.value === undefined) return { uris: [], listChanged: false };
+  if (change.resource === "products") {
+    const previous = new Map((change.previous as Product[] | undefined ?? []).map(p => [p.product_id, JSON.stringify(p)]));
+    const products = change.value as Product[];
+    const changed = products.filter(p => previous.get(p.product_id) !== JSON.stringify(p));
+    const ids = new Set(products.map(p => p.product_id));
+    const removed = [...previous.keys()].filter(id => !ids.has(id));
+    return {
+      uris: [...changed.map(p => p.product_id), ...removed].map(id => `cscart://product/${id}`),
+      listChanged: removed.length > 0 || products.some(p => !previous.has(p.product_id)),
+    };
+  }
+  if (change.resource === "orders") return { uris: [`cscart://order/${change.key}`], listChanged: false };
+  if (change.resource === "features" || change.resource === "feature_variants") return { uris: ["cscart://features"], listChanged: false };
+  if (change.resource === "categories") return { uris: ["cscart://categories"], listChanged: false };
+  return { uris: [], listChanged: false };
+}
+
+export {
+  RESOURCE_TEMPLATES,
+  parseResourceUri,
+  listResources,
+  readResource,
+  getResourceChanges,
+};
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { FeatureSchema, OrderSchema, ProductSchema, CscartValidationError, parseApiData } from './schemas.js';
+
+describe('CS-Cart schemas', () => {
+  it('should coerce numeric strings and fill defaults for partial products', () => {
+    const product = ProductSchema.parse({ product_id: '12', price: '10.500000', extra: 'kept' });
+    expect(product.product_id).toBe(12);
+    expect(product.price).toBe(10.5);
+    expect(product.product_code).toBe('');
+    expect(product).toHaveProperty('extra', 'kept');
+  });
+
+  it('should normalize empty PHP arrays in orders', () => {
+    const order = OrderSchema.parse({
+      order_id: '100',
+      total: '25.00',
+      fields: [],
+      payment_method: [],
+      products: { '123': { product_id: '5', amount: '2', subtotal: '20' } },
+    });
+    expect(order.fields).toEqual({});
+    expect(order.products?.['123'].product_code).toBe('');
+    expect(order.products?.['123'].amount).toBe(2);
+  });
+
+  it('should index feature variants by variant_id', () => {
+    const feature = FeatureSchema.parse({ feature_id: '3', variants: [{ variant_id: '7', variant: 'Red' }] });
+    expect(feature.variants?.['7'].variant).toBe('Red');
+  });
+
+  it('should throw CscartValidationError with context and path', () => {
+    expect(() => parseApiData(ProductSchema, { product: 'No id' }, 'product 1')).toThrow(CscartValidationError);
+    expect(() => parseApiData(ProductSchema, { product: 'No id' }, 'product 1')).toThrow(/Invalid CS-Cart product 1 data: product_id/);
+  });
+});
@@ -0,0 +1,275 @@
+import { z } from "zod";
+
+// CS-Cart API returns numbers as strings, ids and prices are coerced
+const IdSchema = z.coerce.number().int();
+const NumberSchema = z.coerce.number();
+
+// PHP serializes empty associative arrays as [], treat them as empty objects
+function emptyArrayToObject(value: unknown) {
+  return Array.isArray(value) && value.length === 0 ? {} : value;
+}
+
+// Variants may come as a list, index them by variant_id like CS-Cart does
+function variantsToRecord(value: unknown) {
+  if (!Array.isArray(value)) return value;
+  return Object.fromEntries(value.map((variant, index) => [variant?.variant_id ?? index, variant]));
+}
+
+const FeatureVariantSchema = z.object({
+  variant_id: IdSchema,
+  variant: z.string().default(""),
+  position: NumberSchema.optional(),
+}).passthrough();
+
+const FeatureSchema = z.object({
+  feature_id: IdSchema,
+  description: z.string().default(""),
+  feature_type: z.string().default(""),
+  parent_id: IdSchema.optional(),
+  position: NumberSchema.optional(),
+  status: z.string().optional(),
+  variants: z.preprocess(variantsToRecord, z.record(FeatureVariantSchema)).optional(),
+}).passthrough();
+
+// Feature as returned by /products/:id/features, with product value
+const ProductFeatureValueSchema = z.object({
+  feature_id: IdSchema,
+  description: z.string().default(""),
+  feature_type: z.string().default(""),
+  value: z.unknown().optional(),
+  value_int: z.unknown().optional(),
+  variant_id: z.unknown().optional(),
+  use_variant_picker: z.unknown().optional(),
+  variants: z.preprocess(emptyArrayToObject, z.record(FeatureVariantSchema.partial().passthrough())).optional(),
+}).passthrough();
+
+// Feature that distinguishes products of the variation group, by feature_id in `variation_features`
+const VariationFeatureSchema = z.object({
+  feature_id: IdSchema,
+  description: z.string().default(""),
+  variant_id: IdSchema.optional(),
+  variant: z.string().default(""),
+  purpose: z.string().default("").describe("group_catalog_item - separate catalog items, group_variation_catalog_item - variations of one item"),
+}).passthrough();
+
+const ProductSchema = z.object({
+  product_id: IdSchema,
+  product: z.string().default(""),
+  product_code: z.string().default(""),
+  price: NumberSchema.default(0),
+  list_price: NumberSchema.optional(),
+  amount: NumberSchema.optional(),
+  status: z.string().optional(),
+  category_ids: z.array(IdSchema).optional(),
+  main_category: IdSchema.optional(),
+  timestamp: NumberSchema.optional(),
+  updated_timestamp: NumberSchema.optional(),
+  seo_name: z.string().optional(),
+  short_description: z.string().optional(),
+  full_description: z.string().optional(),
+  variation_group_id: IdSchema.optional(),
+  variation_group_code: z.string().optional(),
+  parent_product_id: IdSchema.optional().describe("Main product of the variation group, 0 for the main product"),
+  variation_features: z.preprocess(emptyArrayToObject, z.record(VariationFeatureSchema)).optional(),
+}).passthrough();
+
+const CategorySchema = z.object({
+  category_id: IdSchema,
+  parent_id: IdSchema.default(0),
+  id_path: z.string().default("").describe("Ids of parent categories and the category, separated by /"),
+  category: z.string().default(""),
+  position: NumberSchema.optional(),
+  status: z.string().optional(),
+  product_count: NumberSchema.optional(),
+}).passthrough();
+
+type CategoryTreeNode = z.infer<typeof CategorySchema> & { children: CategoryTreeNode[] };
+
+const CategoryTreeNodeSchema: z.ZodType<CategoryTreeNode, z.ZodTypeDef, unknown> = CategorySchema.extend({
+  children: z.lazy(() => z.array(CategoryTreeNodeSchema)),
+});
+
+const ProductCategorySchema = z.object({
+  category_id: z.number(),
+  category: z.string(),
+  path: z.string().describe("Category names from the root, separated by /"),
+});
+
+const ProductWithFeaturesSchema = ProductSchema.extend({
+  product_features: z.array(z.record(z.unknown())).describe("Product feature values, one {name: value} object per feature"),
+  categories: z.array(ProductCategorySchema).optional().describe("Product categories resolved from category_ids"),
+});
+
+const OrderProductSchema = z.object({
+  item_id: z.string().optional(),
+  product_id: IdSchema,
+  product: z.string().default(""),
+  product_code: z.string().default(""),
+  amount: NumberSchema.default(1),
+  base_price: NumberSchema.default(0),
+  price: NumberSchema.optional(),
+  subtotal: NumberSchema.default(0),
+}).passthrough();
+
+const OrderSchema = z.object({
+  order_id: IdSchema,
+  status: z.string().default(""),
+  total: NumberSchema.default(0),
+  subtotal: NumberSchema.optional(),
+  timestamp: NumberSchema.optional(),
+  updated_at: NumberSchema.optional(),
+  user_id: IdSchema.optional(),
+  firstname: z.string().default(""),
+  lastname: z.string().default(""),
+  email: z.string().default(""),
+  phone: z.string().default(""),
+  company: z.string().default(""),
+  notes: z.string().default(""),
+  details: z.string().default(""),
+  fields: z.preprocess(emptyArrayToObject, z.record(z.unknown())).default({}),
+  payment_method: z.preprocess(emptyArrayToObject, z.object({ payment: z.string().default("") }).passthrough()).optional(),
+  payment_info: z.preprocess(emptyArrayToObject, z.record(z.unknown())).optional(),
+  products: z.preprocess(emptyArrayToObject, z.record(OrderProductSchema)).optional(),
+}).passthrough();
+
+const UserSchema = z.object({
+  user_id: IdSchema,
+  user_login: z.string().optional(),
+  user_type: z.string().default("").describe("C - customer, A - administrator, V - vendor administrator"),
+  status: z.string().optional(),
+  firstname: z.string().default(""),
+  lastname: z.string().default(""),
+  email: z.string().default(""),
+  phone: z.string().default(""),
+  company: z.string().optional(),
+  company_id: IdSchema.optional(),
+  timestamp: NumberSchema.optional().describe("Registration time, unix seconds"),
+  last_login: NumberSchema.optional(),
+}).passthrough();
+
+const OrderStatusSchema = z.object({
+  status: z.string(),
+  description: z.string().default(""),
+  type: z.string().optional(),
+}).passthrough();
+
+const ShipmentSchema = z.object({
+  shipment_id: IdSchema,
+  tracking_number: z.string().default(""),
+  carrier: z.string().default(""),
+}).passthrough();
+
+// Option combination with own stock, CS-Cart before product variations (4.10)
+const ProductCombinationSchema = z.object({
+  product_id: IdSchema,
+  combination_hash: z.coerce.string().default(""),
+  combination: z.preprocess(emptyArrayToObject, z.record(IdSchema)).default({}).describe("Variant ID by option ID"),
+  amount: NumberSchema.default(0),
+  product_code: z.string().default(""),
+}).passthrough();
+
+const ProductOptionVariantSchema = z.object({
+  variant_id: IdSchema,
+  variant_name: z.string().default(""),
+  modifier: NumberSchema.default(0),
+  modifier_type: z.string().default("A").describe("A - absolute, P - percent of the product price"),
+  position: NumberSchema.optional(),
+}).passthrough();
+
+const ProductOptionSchema = z.object({
+  option_id: IdSchema,
+  product_id: IdSchema.optional().describe("0 for global options"),
+  option_name: z.string().default(""),
+  option_type: z.string().default("").describe("S - select, R - radio, C - checkbox, I - input, T - text area, F - file"),
+  required: z.string().default("N"),
+  inventory: z.string().default("N").describe("Y when the option is tracked in combinations"),
+  position: NumberSchema.optional(),
+  variants: z.preprocess(variantsToRecord, z.record(ProductOptionVariantSchema)).default({}),
+}).passthrough();
+
+type FeatureVariant = z.infer<typeof FeatureVariantSchema>;
+type Feature = z.infer<typeof FeatureSchema>;
+type ProductFeatureValue = z.infer<typeof ProductFeatureValueSchema>;
+type Product = z.infer<typeof ProductSchema>;
+type Category = z.infer<typeof CategorySchema>;
+type ProductCategory = z.infer<typeof ProductCategorySchema>;
+type ProductWithFeatures = z.infer<typeof ProductWithFeaturesSchema>;
+type OrderProduct = z.infer<typeof OrderProductSchema>;
+type Order = z.infer<typeof OrderSchema>;
+type User = z.infer<typeof UserSchema>;
+type OrderStatus = z.infer<typeof OrderStatusSchema>;
+type Shipment = z.infer<typeof ShipmentSchema>;
+type ProductCombination = z.infer<typeof ProductCombinationSchema>;
+type VariationFeature = z.infer<typeof VariationFeatureSchema>;
+type ProductOptionVariant = z.infer<typeof ProductOptionVariantSchema>;
+type ProductOption = z.infer<typeof ProductOptionSchema>;
+
+/**
+ * CS-Cart API returned data that does not match the expected schema.
+ */
+class CscartValidationError extends Error {
+  readonly issues: z.ZodIssue[];
+
+  constructor(context: string, issues: z.ZodIssue[]) {
+    const details = issues.slice(0, 5).map(issue => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+    const more = issues.length > 5 ? `; and ${issues.length - 5} more` : "";
+    super(`Invalid CS-Cart ${context} data: ${details.join("; ")}${more}`);
+    this.name = "CscartValidationError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * Parse CS-Cart API data with schema.
+ * @param context Human readable name of the data, used in error message, e.g. "product 12"
+ * @throws CscartValidationError when data does not match the schema
+ */
+function parseApiData<T extends z.ZodTypeAny>(schema: T, data: unknown, context: string): z.infer<T> {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new CscartValidationError(context, result.error.issues);
+  }
+  return result.data;
+}
+
+export type {
+  FeatureVariant,
+  Feature,
+  ProductFeatureValue,
+  Product,
+  Category,
+  CategoryTreeNode,
+  ProductCategory,
+  ProductWithFeatures,
+  OrderProduct,
+  Order,
+  User,
+  OrderStatus,
+  Shipment,
+  ProductCombination,
+  VariationFeature,
+  ProductOptionVariant,
+  ProductOption,
+};
+
+export {
+  FeatureVariantSchema,
+  FeatureSchema,
+  ProductFeatureValueSchema,
+  ProductSchema,
+  CategorySchema,
+  CategoryTreeNodeSchema,
+  ProductCategorySchema,
+  ProductWithFeaturesSchema,
+  OrderProductSchema,
+  OrderSchema,
+  UserSchema,
+  OrderStatusSchema,
+  ShipmentSchema,
+  ProductCombinationSchema,
+  VariationFeatureSchema,
+  ProductOptionVariantSchema,
+  ProductOptionSchema,
+  CscartValidationError,
+  parseApiData,
+};
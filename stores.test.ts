@@ -0,0 +1,61 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { getStoreConfig, loadStoresConfig, runWithStore, setStoresConfig } from './stores.js';
+
+const credentials = { CSCART_SHOP_URL: 'https://shop.test/', CSCART_EMAIL: 'a@b.c', CSCART_API_KEY: 'key' };
+
+describe('Stores config', () => {
+  afterAll(() => {
+    setStoresConfig(null);
+  });
+
+  it('should build default store from environment variables', () => {
+    const config = loadStoresConfig({ ...credentials, CSCART_ALLOW_WRITES: '1' }, '/srv/mcp');
+    expect(config.defaultStore).toBe('default');
+    expect(config.stores[0]).toMatchObject({
+      name: 'default',
+      shopUrl: 'https://shop.test',
+      adminUrl: 'https://shop.test/admin.php',
+      cacheDir: path.resolve('/srv/mcp', 'data/cache'),
+      allowWrites: true,
+    });
+    expect(loadStoresConfig({ ...credentials, CSCART_DATA_DIR: '/var/lib/mcp' }, '/srv/mcp').stores[0].cacheDir).toBe(path.resolve('/var/lib/mcp/cache'));
+    expect(() => loadStoresConfig({ CSCART_SHOP_URL: 'https://shop.test' })).toThrow('CSCART_EMAIL is not set');
+  });
+
+  it('should read stores file with per-store cache dirs and validate it', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cscart-stores-'));
+    try {
+      const file = path.join(dir, 'stores.json');
+      await fs.writeFile(file, JSON.stringify({
+        default: 'eu',
+        stores: [
+          { name: 'us', shopUrl: 'https://us.test', email: 'a', apiKey: 'k' },
+          { name: 'eu', shopUrl: 'https://eu.test', email: 'b', apiKey: 'k', companyId: 5, currency: 'EUR' },
+        ],
+      }));
+      const config = loadStoresConfig({ CSCART_STORES_FILE: file, CSCART_CURRENCY: 'USD' }, dir);
+      expect(config.defaultStore).toBe('eu');
+      expect(config.stores.map(s => s.cacheDir)).toEqual([path.join(dir, 'data/cache/us'), path.join(dir, 'data/cache/eu')]);
+      expect(config.stores.map(s => s.currency)).toEqual(['USD', 'EUR']);
+      expect(config.stores[1].companyId).toBe(5);
+
+      await fs.writeFile(file, JSON.stringify({ stores: [{ name: 'us', shopUrl: 'not url', email: 'a', apiKey: 'k' }] }));
+      expect(() => loadStoresConfig({ CSCART_STORES_FILE: file }, dir)).toThrow('Invalid stores file');
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should select store for the call', async () => {
+    setStoresConfig(loadStoresConfig(credentials));
+    const name = await runWithStore(undefined, async () => {
+      await Promise.resolve();
+      return getStoreConfig().name;
+    });
+    expect(name).toBe('default');
+    expect(() => runWithStore('missing', () => null)).toThrow('Unknown store "missing". Available: default');
+  });
+});
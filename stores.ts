@@ -0,0 +1,179 @@
+import path from "path";
+import { readFileSync } from "fs";
+import { fileURLToPath } from "url";
+import { AsyncLocalStorage } from "async_hooks";
+import { z } from "zod";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const StoreConfigSchema = z.object({
+  name: z.string().regex(/^[\w-]+$/, "Store name may contain letters, digits, _ and -"),
+  shopUrl: z.string().url(),
+  email: z.string().min(1),
+  apiKey: z.string().min(1),
+  adminUrl: z.string().optional().describe("Default {shopUrl}/admin.php"),
+  productLinkTemplate: z.string().optional().describe("Default storefront product page by {product_id}"),
+  telegramField: z.string().optional(),
+  companyId: z.number().int().positive().optional().describe("Vendor (company) id, requests are limited to the vendor"),
+  cacheDir: z.string().optional(),
+  currency: z.string().optional(),
+  locale: z.string().optional(),
+  orderTemplate: z.string().optional(),
+  orderTemplateFile: z.string().optional(),
+  allowWrites: z.boolean().optional(),
+});
+
+const StoresFileSchema = z.object({
+  default: z.string().optional(),
+  stores: z.array(StoreConfigSchema).min(1),
+});
+
+type StoreConfig = Required<Pick<z.infer<typeof StoreConfigSchema>, "name" | "shopUrl" | "email" | "apiKey" | "adminUrl" | "productLinkTemplate" | "cacheDir" | "allowWrites">>
+  & Omit<z.infer<typeof StoreConfigSchema>, "adminUrl" | "productLinkTemplate" | "cacheDir" | "allowWrites">;
+
+interface StoresConfig {
+  defaultStore: string;
+  stores: StoreConfig[];
+}
+
+function isEnabled(value: string | undefined): boolean {
+  return ["1", "true", "yes"].includes((value ?? "").toLowerCase());
+}
+
+function getRequiredEnv(env: NodeJS.ProcessEnv, name: string): string {
+  const value = env[name];
+  if (!value) throw new Error(`Environment variable ${name} is not set, or configure stores with CSCART_STORES_FILE`);
+  return value;
+}
+
+/**
+ * Fill store defaults, global CSCART_* variables are used for options missing in the store config.
+ */
+function withDefaults(store: z.infer<typeof StoreConfigSchema>, env: NodeJS.ProcessEnv, defaultCacheDir: string): StoreConfig {
+  const shopUrl = store.shopUrl.replace(/\/+$/, "");
+  return {
+    ...store,
+    shopUrl,
+    adminUrl: store.adminUrl ?? `${shopUrl}/admin.php`,
+    productLinkTemplate: store.productLinkTemplate ?? `${shopUrl}/index.php?dispatch=products.view&product_id={product_id}`,
+    cacheDir: store.cacheDir ? path.resolve(store.cacheDir) : defaultCacheDir,
+    currency: store.currency ?? env["CSCART_CURRENCY"],
+    locale: store.locale ?? env["CSCART_LOCALE"],
+    orderTemplate: store.orderTemplate ?? env["CSCART_ORDER_TEMPLATE"],
+    orderTemplateFile: store.orderTemplateFile ?? env["CSCART_ORDER_TEMPLATE_FILE"],
+    allowWrites: store.allowWrites ?? isEnabled(env["CSCART_ALLOW_WRITES"]),
+  };
+}
+
+/**
+ * Data directory of the cache, exports, imports and logs from CSCART_DATA_DIR, default `data` in the server directory.
+ */
+function getDataDir(env: NodeJS.ProcessEnv = process.env, baseDir = __dirname): string {
+  return env["CSCART_DATA_DIR"] ? path.resolve(env["CSCART_DATA_DIR"]) : path.resolve(baseDir, "data");
+}
+
+/**
+ * Read stores from JSON file CSCART_STORES_FILE, or a single `default` store from CSCART_SHOP_URL, CSCART_EMAIL, CSCART_API_KEY.
+ * @param baseDir Server directory of the default data dir, cache dirs are `cache` for the env store, `cache/{name}` for file stores
+ * @throws Error for missing variables and invalid config
+ */
+function loadStoresConfig(env: NodeJS.ProcessEnv, baseDir = __dirname): StoresConfig {
+  const cacheRoot = path.join(getDataDir(env, baseDir), "cache");
+  const file = env["CSCART_STORES_FILE"];
+  if (!file) {
+    const store = StoreConfigSchema.parse({
+      name: "default",
+      shopUrl: getRequiredEnv(env, "CSCART_SHOP_URL"),
+      email: getRequiredEnv(env, "CSCART_EMAIL"),
+      apiKey: getRequiredEnv(env, "CSCART_API_KEY"),
+      adminUrl: env["CSCART_ADMIN_URL"] || undefined,
+      productLinkTemplate: env["CSCART_PRODUCT_LINK_TEMPLATE"] || undefined,
+      telegramField: env["CSCART_TELEGRAM_FIELD"] || undefined,
+      companyId: env["CSCART_COMPANY_ID"] ? Number(env["CSCART_COMPANY_ID"]) : undefined,
+    });
+    return { defaultStore: store.name, stores: [withDefaults(store, env, env["CSCART_CACHE_DIR"] ?? cacheRoot)] };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(path.resolve(file), "utf-8"));
+  } catch (error) {
+    throw new Error(`Failed to read stores file ${file}: ${(error as Error).message}`);
+  }
+  const result = StoresFileSchema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join(".")}: ${issue.message}`);
+    throw new Error(`Invalid stores file ${file}: ${issues.join("; ")}`);
+  }
+  const names = result.data.stores.map(s => s.name);
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate) throw new Error(`Invalid stores file ${file}: duplicate store "${duplicate}"`);
+  const defaultStore = result.data.default ?? names[0];
+  if (!names.includes(defaultStore)) throw new Error(`Invalid stores file ${file}: unknown default store "${defaultStore}"`);
+  return {
+    defaultStore,
+    stores: result.data.stores.map(store => withDefaults(store, env, path.join(env["CSCART_CACHE_DIR"] ?? cacheRoot, store.name))),
+  };
+}
+
+let storesConfig: StoresConfig | null = null;
+const storeContext = new AsyncLocalStorage<string>();
+
+// Config is loaded on first use, so importing the modules never exits the process
+function getStoresConfig(): StoresConfig {
+  if (!storesConfig) storesConfig = loadStoresConfig(process.env);
+  return storesConfig;
+}
+
+/**
+ * Replace the loaded stores config, null reloads it from the environment on next use.
+ */
+function setStoresConfig(config: StoresConfig | null) {
+  storesConfig = config;
+}
+
+function getStores(): StoreConfig[] {
+  return getStoresConfig().stores;
+}
+
+function getDefaultStoreName(): string {
+  return getStoresConfig().defaultStore;
+}
+
+/**
+ * Config of the store by name, the store of the current call or the default store.
+ * @throws Error for unknown store
+ */
+function getStoreConfig(name?: string): StoreConfig {
+  const config = getStoresConfig();
+  const storeName = name ?? storeContext.getStore() ?? config.defaultStore;
+  const store = config.stores.find(s => s.name === storeName);
+  if (!store) {
+    throw new Error(`Unknown store "${storeName}". Available: ${config.stores.map(s => s.name).join(", ")}`);
+  }
+  return store;
+}
+
+/**
+ * Run function with the store selected for all API calls inside it.
+ * @param name Store name, default store when not passed
+ */
+function runWithStore<T>(name: string | undefined, fn: () => T): T {
+  const store = getStoreConfig(name);
+  return storeContext.run(store.name, fn);
+}
+
+export type { StoreConfig, StoresConfig };
+
+export {
+  StoreConfigSchema,
+  isEnabled,
+  getDataDir,
+  loadStoresConfig,
+  setStoresConfig,
+  getStores,
+  getDefaultStoreName,
+  getStoreConfig,
+  runWithStore,
+};
@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, afterAll, afterEach } from 'vitest';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import * as api from './api.js';
+import { OrderSchema } from './schemas.js';
+import { createOrderWatcher, createTelegramSink, detectOrderEvents, getWatchConfig, loadWatchState, onOrderEvent } from './watcher.js';
+import type { OrderEvent, OrderSink, WatchConfig } from './watcher.js';
+
+// Watched store is the env store
+Object.assign(process.env, { CSCART_SHOP_URL: 'https://shop.test', CSCART_EMAIL: 'a@b.c', CSCART_API_KEY: 'key', CSCART_STORES_FILE: '' });
+
+const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cscart-watcher-'));
+
+const order = (order_id: number, status: string) => OrderSchema.parse({ order_id, status, total: 10, timestamp: 1760000000 + order_id });
+
+describe('Order watcher', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should read the config only when enabled and validate sinks', () => {
+    expect(getWatchConfig([], {})).toBeNull();
+    expect(getWatchConfig(['--watch-orders'], { CSCART_DATA_DIR: dir, CSCART_WATCH_SINKS: 'file, webhook', CSCART_WATCH_WEBHOOK_URL: 'https://hooks.test/orders' })).toMatchObject({
+      interval: 60, stores: [], sinks: ['file', 'webhook'], stateFile: path.join(dir, 'order-watcher.json'), file: path.join(dir, 'orders.jsonl'),
+    });
+    expect(() => getWatchConfig([], { CSCART_WATCH_ORDERS: '1', CSCART_WATCH_SINKS: 'slack' })).toThrow('Unknown CSCART_WATCH_SINKS: slack');
+    expect(() => getWatchConfig([], { CSCART_WATCH_ORDERS: '1', CSCART_WATCH_SINKS: 'telegram' })).toThrow('Telegram sink requires');
+    expect(() => getWatchConfig([], { CSCART_WATCH_ORDERS: '1', CSCART_WATCH_INTERVAL: '0' })).toThrow('Invalid CSCART_WATCH_INTERVAL');
+  });
+
+  it('should report new orders and status changes after the first run', () => {
+    const first = detectOrderEvents([order(2, 'O'), order(1, 'O')]);
+    expect(first.events).toEqual([]);
+    expect(first.state).toEqual({ last_order_id: 2, last_timestamp: 1760000002, statuses: { 1: 'O', 2: 'O' } });
+    const next = detectOrderEvents([order(4, 'O'), order(3, 'O'), order(2, 'P'), order(1, 'O')], first.state);
+    expect(next.events.map(e => [e.type, e.order.order_id, e.previous_status])).toEqual([
+      ['status_changed', 2, 'O'],
+      ['new', 3, undefined],
+      ['new', 4, undefined],
+    ]);
+    expect(next.state.last_order_id).toBe(4);
+  });
+
+  it('should deliver every order of a burst and status changes of old orders', async () => {
+    const config: WatchConfig = { interval: 60, stores: [], sinks: [], stateFile: path.join(dir, 'burst.json'), file: '' };
+    const delivered: OrderEvent[] = [];
+    const orders = [order(1, 'O'), order(2, 'O')];
+    const searchSpy = vi.spyOn(api, 'searchOrders').mockImplementation(async params => orders.filter(o => (o.updated_at ?? o.timestamp ?? 0) >= (params?.updatedFrom ?? 0)));
+    vi.spyOn(api, 'getOrder').mockImplementation(async id => orders.find(o => o.order_id === id)!);
+    vi.spyOn(api, 'getOrderMessage').mockImplementation(async o => ({ message: `Order ${o.order_id}`, format: 'markdown' }));
+    const watcher = createOrderWatcher(config, [{ name: 'memory', send: async event => { delivered.push(event); } }]);
+    expect(await watcher.poll()).toBe(0);
+
+    orders.push(...Array.from({ length: 300 }, (_, i) => order(i + 3, 'O')));
+    orders[0] = { ...order(1, 'P'), updated_at: 1760000400 };
+    expect(await watcher.poll()).toBe(301);
+    expect(searchSpy).toHaveBeenLastCalledWith({ updatedFrom: 1760000002, limit: Infinity });
+    expect(delivered[0]).toMatchObject({ type: 'status_changed', order_id: 1, status: 'P', previous_status: 'O' });
+    expect(delivered.slice(1).map(e => e.order_id)).toEqual(orders.slice(2).map(o => o.order_id));
+    expect(await watcher.poll()).toBe(0);
+  });
+
+  it('should keep delivered events in the state when a poll fails', async () => {
+    const config: WatchConfig = { interval: 60, stores: [], sinks: [], stateFile: path.join(dir, 'failed.json'), file: '' };
+    const delivered: number[] = [];
+    const orders = [order(1, 'O')];
+    vi.spyOn(api, 'searchOrders').mockImplementation(async () => orders);
+    const getOrderSpy = vi.spyOn(api, 'getOrder').mockImplementation(async id => orders.find(o => o.order_id === id)!);
+    vi.spyOn(api, 'getOrderMessage').mockImplementation(async o => ({ message: `Order ${o.order_id}`, format: 'markdown' }));
+    const watcher = createOrderWatcher(config, [{ name: 'memory', send: async event => { delivered.push(event.order_id); } }]);
+    await watcher.poll();
+
+    orders.push(order(2, 'O'), order(3, 'O'), order(4, 'O'));
+    getOrderSpy.mockImplementation(async id => {
+      if (id === 3) throw new Error('down');
+      return orders.find(o => o.order_id === id)!;
+    });
+    expect(await watcher.poll()).toBe(0);
+    expect(await loadWatchState(config.stateFile)).toMatchObject({ default: { last_order_id: 2, last_timestamp: 1760000001 } });
+    getOrderSpy.mockImplementation(async id => orders.find(o => o.order_id === id)!);
+    expect(await watcher.poll()).toBe(2);
+    expect(delivered).toEqual([2, 3, 4]);
+  });
+
+  it('should deliver rendered messages to sinks and listeners and persist the state', async () => {
+    const config: WatchConfig = { interval: 60, stores: [], sinks: [], stateFile: path.join(dir, 'state.json'), file: '' };
+    const delivered: OrderEvent[] = [];
+    const sinks: OrderSink[] = [
+      { name: 'failing', send: async () => { throw new Error('down'); } },
+      { name: 'memory', format: 'plain', send: async event => { delivered.push(event); } },
+    ];
+    const orders = [order(1, 'O')];
+    vi.spyOn(api, 'searchOrders').mockImplementation(async () => orders);
+    vi.spyOn(api, 'getOrder').mockImplementation(async id => orders.find(o => o.order_id === id)!);
+    const messageSpy = vi.spyOn(api, 'getOrderMessage').mockImplementation(async (o, format) => ({ message: `Order ${o.order_id} ${o.status}`, format: format ?? 'markdown' }));
+    const listened: OrderEvent[] = [];
+    const unsubscribe = onOrderEvent(event => listened.push(event));
+
+    const watcher = createOrderWatcher(config, sinks);
+    expect(await watcher.poll()).toBe(0);
+    orders.unshift(order(2, 'O'));
+    orders[1] = order(1, 'C');
+    expect(await watcher.poll()).toBe(2);
+    expect(await watcher.poll()).toBe(0);
+    unsubscribe();
+
+    expect(delivered).toEqual([
+      { type: 'status_changed', store: 'default', order_id: 1, status: 'C', previous_status: 'O', timestamp: 1760000001, message: 'Order 1 C', format: 'plain' },
+      { type: 'new', store: 'default', order_id: 2, status: 'O', timestamp: 1760000002, message: 'Order 2 O', format: 'plain' },
+    ]);
+    expect(listened.map(e => [e.order_id, e.format])).toEqual([[1, 'markdown'], [2, 'markdown']]);
+    expect(messageSpy).toHaveBeenCalledTimes(4);
+    expect(await loadWatchState(config.stateFile)).toEqual({ default: { last_order_id: 2, last_timestamp: 1760000002, statuses: { 1: 'C', 2: 'O' } } });
+  });
+
+  it('should send telegram messages as HTML and hide the token in errors', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(new Response('{"ok":true}'))
+      .mockResolvedValueOnce(new Response('{"ok":false,"description":"Bad Request: chat not found"}', { status: 400 }));
+    const sink = createTelegramSink({ token: '123:secret', chatId: '-100' }, 'https://telegram.test');
+    const event: OrderEvent = { type: 'new', store: 'default', order_id: 1, status: 'O', timestamp: 0, message: '<b>Order 1</b>', format: 'telegram' };
+    await sink.send(event);
+    expect(fetchSpy.mock.calls[0][0]).toBe('https://telegram.test/bot123:secret/sendMessage');
+    expect(JSON.parse(fetchSpy.mock.calls[0][1]!.body as string)).toEqual({ chat_id: '-100', text: '<b>Order 1</b>', parse_mode: 'HTML', disable_web_page_preview: true });
+    const error = await sink.send(event).catch(e => e as Error);
+    expect(error?.message).toBe('Telegram sendMessage failed with 400: Bad Request: chat not found');
+  });
+});
@@ -0,0 +1,389 @@
+import path from "path";
+import { promises as fs } from "fs";
+import * as api from "./api.js";
+import { logger } from "./logger.js";
+import { ORDER_MESSAGE_FORMATS } from "./messages.js";
+import type { OrderMessageFormat } from "./messages.js";
+import type { Order } from "./schemas.js";
+import { getDataDir, getDefaultStoreName, getStoreConfig, isEnabled, runWithStore } from "./stores.js";
+
+const ORDER_SINKS = ["stdout", "file", "webhook", "telegram"] as const;
+type OrderSinkType = typeof ORDER_SINKS[number];
+
+const ORDER_EVENT_TYPES = ["new", "status_changed"] as const;
+type OrderEventType = typeof ORDER_EVENT_TYPES[number];
+
+const DEFAULT_WATCH_INTERVAL = 60;
+const SINK_TIMEOUT = 10000;
+const TELEGRAM_API_URL = "https://api.telegram.org";
+
+interface OrderEvent {
+  type: OrderEventType;
+  store: string;
+  order_id: number;
+  status: string;
+  /** Status before the change, for status_changed */
+  previous_status?: string;
+  /** Order creation time, unix seconds */
+  timestamp: number;
+  message: string;
+  format: OrderMessageFormat;
+}
+
+interface OrderSink {
+  name: string;
+  /** Message format of the sink, CSCART_WATCH_FORMAT takes precedence */
+  format?: OrderMessageFormat;
+  send(event: OrderEvent): Promise<void>;
+}
+
+interface WatchConfig {
+  /** Poll interval, seconds */
+  interval: number;
+  /** Watched stores, the default store when empty */
+  stores: string[];
+  /** Message format of all sinks, sink or store default when not set */
+  format?: OrderMessageFormat;
+  sinks: OrderSinkType[];
+  stateFile: string;
+  /** JSON lines file of the `file` sink */
+  file: string;
+  webhookUrl?: string;
+  telegram?: { token: string; chatId: string };
+}
+
+interface StoreWatchState {
+  last_order_id: number;
+  /** Latest update time of the seen orders, creation time when the store doesn't return `updated_at`, unix seconds */
+  last_timestamp: number;
+  /** Status by order ID of the seen orders */
+  statuses: Record<string, string>;
+}
+
+/** Watch state by store name */
+type WatchState = Record<string, StoreWatchState>;
+
+interface DetectedOrderEvent {
+  type: OrderEventType;
+  order: Order;
+  previous_status?: string;
+}
+
+type OrderEventListener = (event: OrderEvent) => void;
+
+function getList(value: string | undefined): string[] {
+  return (value ?? "").split(",").map(item => item.trim()).filter(Boolean);
+}
+
+function getPositiveNumber(env: NodeJS.ProcessEnv, name: string, defaultValue: number): number {
+  if (!env[name]) return defaultValue;
+  const value = Number(env[name]);
+  if (!Number.isFinite(value) || value <= 0) throw new Error(`Invalid ${name} "${env[name]}", expected a positive number`);
+  return value;
+}
+
+/**
+ * Order watcher config from `--watch-orders` or CSCART_WATCH_ORDERS and CSCART_WATCH_* variables.
+ * @returns null when the watcher is disabled
+ * @throws Error for unknown sinks or formats and missing sink settings
+ */
+function getWatchConfig(argv: string[], env: NodeJS.ProcessEnv): WatchConfig | null {
+  if (!argv.includes("--watch-orders") && !isEnabled(env["CSCART_WATCH_ORDERS"])) return null;
+  const sinks = getList(env["CSCART_WATCH_SINKS"]).map(sink => sink.toLowerCase());
+  const unknown = sinks.filter(sink => !(ORDER_SINKS as readonly string[]).includes(sink));
+  if (unknown.length > 0) throw new Error(`Unknown CSCART_WATCH_SINKS: ${unknown.join(", ")}. Available: ${ORDER_SINKS.join(", ")}`);
+  const format = env["CSCART_WATCH_FORMAT"] as OrderMessageFormat | undefined;
+  if (format && !ORDER_MESSAGE_FORMATS.includes(format)) {
+    throw new Error(`Invalid CSCART_WATCH_FORMAT "${format}". Available: ${ORDER_MESSAGE_FORMATS.join(", ")}`);
+  }
+  const webhookUrl = env["CSCART_WATCH_WEBHOOK_URL"];
+  if (sinks.includes("webhook") && !webhookUrl) throw new Error("Webhook sink requires CSCART_WATCH_WEBHOOK_URL");
+  const token = env["CSCART_TELEGRAM_BOT_TOKEN"];
+  const chatId = env["CSCART_TELEGRAM_CHAT_ID"];
+  if (sinks.includes("telegram") && (!token || !chatId)) throw new Error("Telegram sink requires CSCART_TELEGRAM_BOT_TOKEN and CSCART_TELEGRAM_CHAT_ID");
+  const dataDir = getDataDir(env);
+  return {
+    interval: getPositiveNumber(env, "CSCART_WATCH_INTERVAL", DEFAULT_WATCH_INTERVAL),
+    stores: getList(env["CSCART_WATCH_STORES"]),
+    format,
+    sinks: sinks as OrderSinkType[],
+    stateFile: env["CSCART_WATCH_STATE_FILE"] ? path.resolve(env["CSCART_WATCH_STATE_FILE"]) : path.join(dataDir, "order-watcher.json"),
+    file: env["CSCART_WATCH_FILE"] ? path.resolve(env["CSCART_WATCH_FILE"]) : path.join(dataDir, "orders.jsonl"),
+    webhookUrl,
+    telegram: token && chatId ? { token, chatId } : undefined,
+  };
+}
+
+async function loadWatchState(file: string): Promise<WatchState> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf-8")) as WatchState;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return {};
+    throw new Error(`Failed to read order watcher state ${file}: ${(error as Error).message}`);
+  }
+}
+
+async function saveWatchState(file: string, state: WatchState) {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  // Written to a temporary file first, so a crash never leaves a broken state
+  await fs.writeFile(`${file}.tmp`, JSON.stringify(state, null, 2), "utf-8");
+  await fs.rename(`${file}.tmp`, file);
+}
+
+function getUpdatedTime(order: Order): number {
+  return Number(order.updated_at ?? order.timestamp ?? 0);
+}
+
+/**
+ * New orders after the last seen order and status changes of the seen orders.
+ * Without the previous state the orders are only remembered, so the first run doesn't report the whole history.
+ * @param orders Orders created or updated since the previous poll, all orders on the first run
+ * @returns Events from the oldest order and the state after all of them are delivered
+ */
+function detectOrderEvents(orders: Order[], previous?: StoreWatchState): { events: DetectedOrderEvent[]; state: StoreWatchState } {
+  const state: StoreWatchState = {
+    last_order_id: Math.max(previous?.last_order_id ?? 0, ...orders.map(order => order.order_id)),
+    last_timestamp: Math.max(previous?.last_timestamp ?? 0, ...orders.map(getUpdatedTime)),
+    statuses: { ...previous?.statuses, ...Object.fromEntries(orders.map(order => [`${order.order_id}`, order.status])) },
+  };
+  if (!previous) return { events: [], state };
+  const events = [...orders].sort((a, b) => a.order_id - b.order_id).flatMap((order): DetectedOrderEvent[] => {
+    if (order.order_id > previous.last_order_id) return [{ type: "new", order }];
+    const previousStatus = previous.statuses[`${order.order_id}`];
+    if (previousStatus !== undefined && previousStatus !== order.status) return [{ type: "status_changed", order, previous_status: previousStatus }];
+    return [];
+  });
+  return { events, state };
+}
+
+/**
+ * State after the event is delivered. The timestamp is kept, so undelivered events of the poll are detected again.
+ */
+function getDeliveredState(state: StoreWatchState, event: DetectedOrderEvent): StoreWatchState {
+  return {
+    last_order_id: event.type === "new" ? Math.max(state.last_order_id, event.order.order_id) : state.last_order_id,
+    last_timestamp: state.last_timestamp,
+    statuses: { ...state.statuses, [`${event.order.order_id}`]: event.order.status },
+  };
+}
+
+function createStdoutSink(): OrderSink {
+  return {
+    name: "stdout",
+    async send(event) {
+      process.stdout.write(`${event.message}\n\n`);
+    },
+  };
+}
+
+/**
+ * Append events as JSON lines.
+ */
+function createFileSink(file: string): OrderSink {
+  return {
+    name: "file",
+    async send(event) {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.appendFile(file, `${JSON.stringify(event)}\n`, "utf-8");
+    },
+  };
+}
+
+/**
+ * POST events as JSON to the URL.
+ */
+function createWebhookSink(url: string): OrderSink {
+  return {
+    name: "webhook",
+    async send(event) {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(event),
+        signal: AbortSignal.timeout(SINK_TIMEOUT),
+      });
+      if (!response.ok) throw new Error(`Webhook responded with ${response.status} ${response.statusText}`);
+    },
+  };
+}
+
+/**
+ * Send messages with the Telegram Bot API, telegram format messages are sent as HTML.
+ */
+function createTelegramSink(options: { token: string; chatId: string }, apiUrl = TELEGRAM_API_URL): OrderSink {
+  return {
+    name: "telegram",
+    format: "telegram",
+    async send(event) {
+      const response = await fetch(`${apiUrl}/bot${options.token}/sendMessage`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          chat_id: options.chatId,
+          text: event.message,
+          ...(event.format === "telegram" ? { parse_mode: "HTML" } : {}),
+          disable_web_page_preview: true,
+        }),
+        signal: AbortSignal.timeout(SINK_TIMEOUT),
+      });
+      if (!response.ok) {
+        // The URL contains the bot token, only the API description is reported
+        const data = await response.json().catch(() => ({})) as { description?: string };
+        throw new Error(`Telegram sendMessage failed with ${response.status}: ${data.description ?? response.statusText}`);
+      }
+    },
+  };
+}
+
+function createSinks(config: WatchConfig): OrderSink[] {
+  return config.sinks.map(sink => {
+    if (sink === "stdout") return createStdoutSink();
+    if (sink === "file") return createFileSink(config.file);
+    if (sink === "webhook") return createWebhookSink(config.webhookUrl!);
+    return createTelegramSink(config.telegram!);
+  });
+}
+
+const listeners = new Set<OrderEventListener>();
+
+/**
+ * Listen to order events of all watchers, used for MCP notifications.
+ * @returns Function that removes the listener
+ */
+function onOrderEvent(listener: OrderEventListener) {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+function emitOrderEvent(event: OrderEvent) {
+  for (const listener of listeners) {
+    try {
+      listener(event);
+    } catch (error) {
+      logger.warning("Order event listener failed", { error });
+    }
+  }
+}
+
+/**
+ * Poll stores for new and status-changed orders and deliver rendered messages to the sinks and the listeners.
+ * Sink errors are logged and not retried. The state is saved after every delivered event,
+ * when an order fails to load, its event and the following ones are detected again on the next poll.
+ */
+function createOrderWatcher(config: WatchConfig, sinks: OrderSink[] = createSinks(config)) {
+  let timer: NodeJS.Timeout | null = null;
+  let stopped = true;
+
+  // Messages are rendered once per format
+  async function deliver(store: string, detected: DetectedOrderEvent) {
+    const order = await api.getOrder(detected.order.order_id);
+    const messages = new Map<string, Promise<{ message: string; format: OrderMessageFormat }>>();
+    const getMessage = (format?: OrderMessageFormat) => {
+      const key = format ?? "";
+      if (!messages.has(key)) messages.set(key, api.getOrderMessage(order, format));
+      return messages.get(key)!;
+    };
+    const toEvent = ({ message, format }: { message: string; format: OrderMessageFormat }): OrderEvent => ({
+      type: detected.type,
+      store,
+      order_id: order.order_id,
+      status: order.status,
+      ...(detected.previous_status !== undefined ? { previous_status: detected.previous_status } : {}),
+      timestamp: order.timestamp ?? detected.order.timestamp ?? 0,
+      message,
+      format,
+    });
+    logger.info("Order event", { store, type: detected.type, order_id: order.order_id, status: order.status, previous_status: detected.previous_status });
+    await Promise.all(sinks.map(async sink => {
+      try {
+        await sink.send(toEvent(await getMessage(config.format ?? sink.format)));
+      } catch (error) {
+        logger.error("Order sink failed", { sink: sink.name, order_id: order.order_id, error });
+      }
+    }));
+    if (listeners.size > 0) emitOrderEvent(toEvent(await getMessage(config.format)));
+  }
+
+  async function pollStore(store: string, state: WatchState): Promise<number> {
+    return runWithStore(store, async () => {
+      const previous = state[store];
+      // CS-Cart filters orders by creation time only, all pages are read and filtered by the update time
+      const orders = await api.searchOrders({ updatedFrom: previous?.last_timestamp, limit: Infinity });
+      const { events, state: storeState } = detectOrderEvents(orders, previous);
+      for (const event of events) {
+        await deliver(store, event);
+        state[store] = getDeliveredState(state[store], event);
+        await saveWatchState(config.stateFile, state);
+      }
+      state[store] = storeState;
+      return events.length;
+    });
+  }
+
+  /**
+   * Check all watched stores once.
+   * @returns Count of delivered events
+   */
+  async function poll(): Promise<number> {
+    const state = await loadWatchState(config.stateFile);
+    const stores = config.stores.length > 0 ? config.stores : [getDefaultStoreName()];
+    let count = 0;
+    for (const store of stores) {
+      try {
+        count += await pollStore(store, state);
+      } catch (error) {
+        logger.error("Order watcher poll failed", { store, error });
+      }
+    }
+    await saveWatchState(config.stateFile, state);
+    return count;
+  }
+
+  async function tick() {
+    await poll().catch(error => logger.error("Order watcher poll failed", { error }));
+    if (!stopped) {
+      timer = setTimeout(tick, config.interval * 1000);
+      // The watcher alone doesn't keep the process running
+      timer.unref();
+    }
+  }
+
+  /**
+   * Start polling, the first poll runs immediately.
+   * @throws Error for unknown stores
+   */
+  function start() {
+    config.stores.forEach(store => getStoreConfig(store));
+    if (!stopped) return;
+    stopped = false;
+    logger.info("Order watcher started", { interval: config.interval, stores: config.stores, sinks: sinks.map(sink => sink.name) });
+    void tick();
+  }
+
+  function stop() {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+    timer = null;
+  }
+
+  return { poll, start, stop };
+}
+
+type OrderWatcher = ReturnType<typeof createOrderWatcher>;
+
+export type { OrderSinkType, OrderEventType, OrderEvent, OrderSink, WatchConfig, StoreWatchState, WatchState, DetectedOrderEvent, OrderEventListener, OrderWatcher };
+
+export {
+  ORDER_SINKS,
+  ORDER_EVENT_TYPES,
+  getWatchConfig,
+  loadWatchState,
+  detectOrderEvents,
+  createStdoutSink,
+  createFileSink,
+  createWebhookSink,
+  createTelegramSink,
+  createSinks,
+  onOrderEvent,
+  createOrderWatcher,
+};
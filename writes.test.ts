@@ -0,0 +1,56 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { runWithLogContext } from './logger.js';
+import { appendAuditLog, assertWritePolicy, getDeniedFields, isWriteToolAllowed, loadWritePolicy, readAuditLog } from './writes.js';
+
+// Audit entries take the store name from the env store
+Object.assign(process.env, { CSCART_SHOP_URL: 'https://shop.test', CSCART_EMAIL: 'a@b.c', CSCART_API_KEY: 'key', CSCART_STORES_FILE: '' });
+
+const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cscart-writes-'));
+
+describe('Write safety', () => {
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should load and validate write policy file', async () => {
+    const file = path.join(dir, 'policy.json');
+    await fs.writeFile(file, JSON.stringify({ tools: ['cscart_update_product'], fields: { cscart_update_product: ['price'] } }));
+    expect(loadWritePolicy({ CSCART_WRITE_POLICY_FILE: file })).toEqual({ tools: ['cscart_update_product'], fields: { cscart_update_product: ['price'] } });
+    expect(loadWritePolicy({})).toEqual({ fields: {} });
+    await fs.writeFile(file, JSON.stringify({ tools: 'cscart_update_product' }));
+    expect(() => loadWritePolicy({ CSCART_WRITE_POLICY_FILE: file })).toThrow('Invalid write policy');
+  });
+
+  it('should allow tools and fields of the policy', () => {
+    const policy = { tools: ['cscart_update_product', 'cscart_import_products'], fields: { cscart_update_product: ['price', 'feature:*'] } };
+    expect(isWriteToolAllowed('cscart_update_order', policy)).toBe(false);
+    expect(isWriteToolAllowed('cscart_update_order', { fields: {} })).toBe(true);
+    expect(getDeniedFields('cscart_update_product', ['price', 'feature:Color', 'product', 'product'], policy)).toEqual(['product']);
+    expect(getDeniedFields('cscart_import_products', ['product'], policy)).toEqual([]);
+    expect(() => assertWritePolicy('cscart_update_order', [], policy)).toThrow('Tool cscart_update_order is not allowed by the write policy');
+    expect(() => assertWritePolicy('cscart_update_product', ['amount'], policy)).toThrow('Fields are not allowed for cscart_update_product by the write policy: amount. Allowed: price, feature:*');
+  });
+
+  it('should append audit entries with the call context and filter them newest first', async () => {
+    const file = path.join(dir, 'logs/audit.jsonl');
+    const request = { method: 'PUT' as const, path: '/products/1', body: { price: 5 } };
+    await runWithLogContext({ request_id: 'r1', user: 'alice' }, () => appendAuditLog({
+      tool: 'cscart_update_product', entity: 'product', entity_id: 1, changes: [{ field: 'price', from: 4, to: 5 }], requests: [request],
+    }, file));
+    await appendAuditLog({ tool: 'cscart_update_order', entity: 'order', entity_id: 7, changes: [], requests: [] }, file);
+    await fs.appendFile(file, '{"time":');
+
+    const all = await readAuditLog({}, file);
+    expect(all.total).toBe(2);
+    expect(all.entries.map(e => e.entity_id)).toEqual([7, 1]);
+    expect(all.entries[1]).toMatchObject({ request_id: 'r1', user: 'alice', store: 'default', requests: [request] });
+    expect(all.entries[0]).toMatchObject({ request_id: null, user: null });
+    expect((await readAuditLog({ user: 'alice' }, file)).entries.map(e => e.entity_id)).toEqual([1]);
+    expect((await readAuditLog({ entity: 'product', entityId: 2 }, file)).total).toBe(0);
+    expect(await readAuditLog({ limit: 1 }, file)).toMatchObject({ total: 2, entries: [{ entity_id: 7 }] });
+    expect(await readAuditLog({}, path.join(dir, 'missing.jsonl'))).toEqual({ entries: [], total: 0 });
+  });
+});
@@ -0,0 +1,177 @@
+import path from "path";
+import { promises as fs, readFileSync } from "fs";
+import { z } from "zod";
+import type { WriteRequest } from "./api.js";
+import { getLogContext } from "./logger.js";
+import { getDataDir, getStoreConfig } from "./stores.js";
+
+const WritePolicySchema = z.object({
+  tools: z.array(z.string()).optional().describe("Allowed write tools, all write tools when not set"),
+  fields: z.record(z.array(z.string())).default({})
+    .describe("Allowed fields by tool name, `feature:*` allows all features. Tools without the list may change all fields"),
+});
+type WritePolicy = z.infer<typeof WritePolicySchema>;
+
+const AUDIT_ENTITIES = ["product", "order"] as const;
+type AuditEntity = typeof AUDIT_ENTITIES[number];
+
+interface FieldChange {
+  /** CS-Cart field or feature:<name> */
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+interface AuditLogEntry {
+  time: string;
+  request_id: string | null;
+  /** HTTP user, null for stdio */
+  user: string | null;
+  store: string;
+  tool: string;
+  entity: AuditEntity;
+  entity_id: number;
+  changes: FieldChange[];
+  requests: WriteRequest[];
+}
+
+interface AuditLogFilter {
+  store?: string;
+  tool?: string;
+  entity?: AuditEntity;
+  entityId?: number;
+  user?: string;
+  /** Unix seconds */
+  from?: number;
+  to?: number;
+  limit?: number;
+}
+
+/**
+ * Write policy from the JSON file CSCART_WRITE_POLICY_FILE, all write tools and fields are allowed without it.
+ * @throws Error for unreadable or invalid file
+ */
+function loadWritePolicy(env: NodeJS.ProcessEnv): WritePolicy {
+  const file = env["CSCART_WRITE_POLICY_FILE"];
+  if (!file) return WritePolicySchema.parse({});
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(path.resolve(file), "utf-8"));
+  } catch (error) {
+    throw new Error(`Failed to read write policy ${file}: ${(error as Error).message}`);
+  }
+  const result = WritePolicySchema.safeParse(data);
+  if (!result.success) {
+    throw new Error(`Invalid write policy ${file}: ${result.error.issues.map(issue => `${issue.path.join(".")}: ${issue.message}`).join("; ")}`);
+  }
+  return result.data;
+}
+
+let writePolicy: WritePolicy | null = null;
+
+// Policy is loaded on first use like the stores config
+function getWritePolicy(): WritePolicy {
+  if (!writePolicy) writePolicy = loadWritePolicy(process.env);
+  return writePolicy;
+}
+
+function isWriteToolAllowed(tool: string, policy = getWritePolicy()): boolean {
+  return !policy.tools || policy.tools.includes(tool);
+}
+
+// Pattern with trailing * matches the prefix
+function matchesField(pattern: string, field: string): boolean {
+  return pattern.endsWith("*") ? field.startsWith(pattern.slice(0, -1)) : pattern === field;
+}
+
+/**
+ * Fields the policy doesn't allow to change with the tool.
+ */
+function getDeniedFields(tool: string, fields: string[], policy = getWritePolicy()): string[] {
+  const allowed = policy.fields[tool];
+  if (!allowed) return [];
+  return [...new Set(fields.filter(field => !allowed.some(pattern => matchesField(pattern, field))))];
+}
+
+/**
+ * @throws Error when the tool or any of the changed fields is not allowed by the write policy
+ */
+function assertWritePolicy(tool: string, fields: string[] = [], policy = getWritePolicy()) {
+  if (!isWriteToolAllowed(tool, policy)) throw new Error(`Tool ${tool} is not allowed by the write policy`);
+  const denied = getDeniedFields(tool, fields, policy);
+  if (denied.length > 0) {
+    throw new Error(`Fields are not allowed for ${tool} by the write policy: ${denied.join(", ")}. Allowed: ${policy.fields[tool].join(", ")}`);
+  }
+}
+
+/**
+ * Audit log file from CSCART_AUDIT_LOG_FILE, default `audit.jsonl` in the data dir.
+ */
+function getAuditLogFile(env: NodeJS.ProcessEnv = process.env): string {
+  return env["CSCART_AUDIT_LOG_FILE"] ? path.resolve(env["CSCART_AUDIT_LOG_FILE"]) : path.join(getDataDir(env), "audit.jsonl");
+}
+
+/**
+ * Append applied change to the audit log. Store, user and request id are taken from the current tool call.
+ */
+async function appendAuditLog(change: Pick<AuditLogEntry, "tool" | "entity" | "entity_id" | "changes" | "requests">, file = getAuditLogFile()): Promise<AuditLogEntry> {
+  const context = getLogContext();
+  const entry: AuditLogEntry = {
+    time: new Date().toISOString(),
+    request_id: context?.request_id ?? null,
+    user: context?.user ?? null,
+    store: getStoreConfig().name,
+    ...change,
+  };
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.appendFile(file, `${JSON.stringify(entry)}\n`, "utf-8");
+  return entry;
+}
+
+function matchesAuditFilter(entry: AuditLogEntry, filter: AuditLogFilter): boolean {
+  const time = Date.parse(entry.time) / 1000;
+  return (!filter.store || entry.store === filter.store)
+    && (!filter.tool || entry.tool === filter.tool)
+    && (!filter.entity || entry.entity === filter.entity)
+    && (!filter.entityId || entry.entity_id === filter.entityId)
+    && (!filter.user || entry.user === filter.user)
+    && (!filter.from || time >= filter.from)
+    && (!filter.to || time <= filter.to);
+}
+
+/**
+ * Audit log entries matching the filter, newest first.
+ * @returns Entries up to the limit and the count of all matching entries
+ */
+async function readAuditLog(filter: AuditLogFilter = {}, file = getAuditLogFile()): Promise<{ entries: AuditLogEntry[]; total: number }> {
+  let content: string;
+  try {
+    content = await fs.readFile(file, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return { entries: [], total: 0 };
+    throw error;
+  }
+  const entries = content.split("\n").filter(Boolean).flatMap(line => {
+    try {
+      return [JSON.parse(line) as AuditLogEntry];
+    } catch {
+      // Line cut by a crash while appending
+      return [];
+    }
+  }).filter(entry => matchesAuditFilter(entry, filter)).reverse();
+  return { entries: filter.limit ? entries.slice(0, filter.limit) : entries, total: entries.length };
+}
+
+export type { WritePolicy, AuditEntity, FieldChange, AuditLogEntry, AuditLogFilter };
+
+export {
+  WritePolicySchema,
+  AUDIT_ENTITIES,
+  loadWritePolicy,
+  isWriteToolAllowed,
+  getDeniedFields,
+  assertWritePolicy,
+  getAuditLogFile,
+  appendAuditLog,
+  readAuditLog,
+};